@@ -0,0 +1,28 @@
+-- DropForeignKey
+ALTER TABLE "public"."project_permissions" DROP CONSTRAINT "project_permissions_projectId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "public"."project_permissions" DROP CONSTRAINT "project_permissions_userId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "public"."project_permissions" ADD CONSTRAINT "project_permissions_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_permissions" ADD CONSTRAINT "project_permissions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the default permission sets for members that joined before they were applied
+INSERT INTO "public"."project_permissions" ("id", "projectId", "userId", "action", "resource")
+SELECT gen_random_uuid()::text, m."project_id", m."user_id", d."action"::"public"."ProjectAction", d."resource"
+FROM "public"."project_members" m
+JOIN (
+  SELECT 'LEADER' AS "role", a."action", r."resource"
+  FROM (VALUES ('READ'), ('CREATE'), ('UPDATE'), ('DELETE')) AS a("action")
+  CROSS JOIN (VALUES ('project'), ('member'), ('board'), ('task'), ('comment')) AS r("resource")
+  UNION ALL
+  SELECT 'MEMBER', 'READ', r."resource"
+  FROM (VALUES ('project'), ('member'), ('board'), ('task'), ('comment')) AS r("resource")
+  UNION ALL
+  SELECT 'MEMBER', v."action", v."resource"
+  FROM (VALUES ('CREATE', 'task'), ('UPDATE', 'task'), ('CREATE', 'comment')) AS v("action", "resource")
+) d ON d."role" = CASE WHEN UPPER(m."role") = 'LEADER' THEN 'LEADER' ELSE 'MEMBER' END
+ON CONFLICT ("projectId", "userId", "action", "resource") DO NOTHING;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."files" ADD COLUMN     "content_type" TEXT NOT NULL DEFAULT 'application/octet-stream',
+ADD COLUMN     "key" TEXT,
+ADD COLUMN     "size" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "task_id" TEXT;
+
+-- Rows created before object keys were tracked only know their URL
+UPDATE "public"."files" SET "key" = "file_url" WHERE "key" IS NULL;
+
+ALTER TABLE "public"."files" ALTER COLUMN "key" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "files_key_key" ON "public"."files"("key");
+
+-- CreateIndex
+CREATE INDEX "files_project_id_idx" ON "public"."files"("project_id");
+
+-- CreateIndex
+CREATE INDEX "files_task_id_idx" ON "public"."files"("task_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."files" ADD CONSTRAINT "files_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
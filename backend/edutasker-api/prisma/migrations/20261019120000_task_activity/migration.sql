@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."task_activities" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "field" TEXT,
+    "old_value" JSONB,
+    "new_value" JSONB,
+    "task_title" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "project_id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "actor_id" TEXT,
+
+    CONSTRAINT "task_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_activities_project_id_created_at_idx" ON "public"."task_activities"("project_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "task_activities_task_id_created_at_idx" ON "public"."task_activities"("task_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_activities" ADD CONSTRAINT "task_activities_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_activities" ADD CONSTRAINT "task_activities_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "parent_task_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."checklist_items" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "is_done" BOOLEAN NOT NULL DEFAULT false,
+    "order" INTEGER NOT NULL,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "assignee_id" TEXT,
+
+    CONSTRAINT "checklist_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tasks_parent_task_id_idx" ON "public"."tasks"("parent_task_id");
+
+-- CreateIndex
+CREATE INDEX "checklist_items_task_id_order_idx" ON "public"."checklist_items"("task_id", "order");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_parent_task_id_fkey" FOREIGN KEY ("parent_task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."checklist_items" ADD CONSTRAINT "checklist_items_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."checklist_items" ADD CONSTRAINT "checklist_items_assignee_id_fkey" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
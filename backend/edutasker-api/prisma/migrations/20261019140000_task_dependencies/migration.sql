@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."task_dependencies" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "task_id" TEXT NOT NULL,
+    "blocking_task_id" TEXT NOT NULL,
+    "created_by_id" TEXT,
+
+    CONSTRAINT "task_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_dependencies_blocking_task_id_idx" ON "public"."task_dependencies"("blocking_task_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_dependencies_task_id_blocking_task_id_key" ON "public"."task_dependencies"("task_id", "blocking_task_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_blocking_task_id_fkey" FOREIGN KEY ("blocking_task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_dependencies" ADD CONSTRAINT "task_dependencies_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "public"."workflow_statuses" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "is_final" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "workflow_statuses_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."boards" ADD COLUMN     "status_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workflow_statuses_project_id_key_key" ON "public"."workflow_statuses"("project_id", "key");
+
+-- CreateIndex
+CREATE INDEX "workflow_statuses_project_id_order_idx" ON "public"."workflow_statuses"("project_id", "order");
+
+-- CreateIndex
+CREATE INDEX "boards_status_id_idx" ON "public"."boards"("status_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."workflow_statuses" ADD CONSTRAINT "workflow_statuses_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."boards" ADD CONSTRAINT "boards_status_id_fkey" FOREIGN KEY ("status_id") REFERENCES "public"."workflow_statuses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: every existing project gets the default workflow
+INSERT INTO "public"."workflow_statuses" ("id", "key", "name", "order", "is_final", "updated_at", "project_id")
+SELECT gen_random_uuid()::text, defaults.key, defaults.name, defaults.ord, defaults.is_final, CURRENT_TIMESTAMP, p."id"
+FROM "public"."projects" p
+CROSS JOIN (VALUES
+    ('todo', 'To Do', 0, false),
+    ('doing', 'In Progress', 1, false),
+    ('done', 'Done', 2, true)
+) AS defaults(key, name, ord, is_final);
+
+-- Keep statuses that tasks already use outside the defaults
+INSERT INTO "public"."workflow_statuses" ("id", "key", "name", "order", "updated_at", "project_id")
+SELECT gen_random_uuid()::text, t."status", t."status", 3 + ROW_NUMBER() OVER (PARTITION BY t."project_id" ORDER BY t."status"), CURRENT_TIMESTAMP, t."project_id"
+FROM (SELECT DISTINCT "project_id", "status" FROM "public"."tasks") t
+WHERE t."status" NOT IN ('todo', 'doing', 'done');
+
+-- Link the default boards created with each project to their status
+UPDATE "public"."boards" b
+SET "status_id" = ws."id"
+FROM "public"."workflow_statuses" ws
+WHERE ws."project_id" = b."project_id"
+  AND ws."key" = CASE LOWER(TRIM(b."name"))
+      WHEN 'to do' THEN 'todo'
+      WHEN 'in progress' THEN 'doing'
+      WHEN 'done' THEN 'done'
+  END;
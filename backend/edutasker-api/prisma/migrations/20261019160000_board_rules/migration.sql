@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "public"."boards" ADD COLUMN     "wip_limit" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."board_transitions" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "from_board_id" TEXT NOT NULL,
+    "to_board_id" TEXT NOT NULL,
+
+    CONSTRAINT "board_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "board_transitions_to_board_id_idx" ON "public"."board_transitions"("to_board_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "board_transitions_from_board_id_to_board_id_key" ON "public"."board_transitions"("from_board_id", "to_board_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."board_transitions" ADD CONSTRAINT "board_transitions_from_board_id_fkey" FOREIGN KEY ("from_board_id") REFERENCES "public"."boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."board_transitions" ADD CONSTRAINT "board_transitions_to_board_id_fkey" FOREIGN KEY ("to_board_id") REFERENCES "public"."boards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
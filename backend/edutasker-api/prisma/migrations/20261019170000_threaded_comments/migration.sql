@@ -0,0 +1,71 @@
+-- AlterTable
+ALTER TABLE "public"."comments" ADD COLUMN     "edited_at" TIMESTAMP(3),
+ADD COLUMN     "parent_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."comment_edits" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "edited_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "comment_id" TEXT NOT NULL,
+    "edited_by_id" TEXT,
+
+    CONSTRAINT "comment_edits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."comment_mentions" (
+    "id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "comment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "comment_mentions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."comment_reactions" (
+    "id" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "comment_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+
+    CONSTRAINT "comment_reactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "comments_task_id_parent_id_idx" ON "public"."comments"("task_id", "parent_id");
+
+-- CreateIndex
+CREATE INDEX "comment_edits_comment_id_idx" ON "public"."comment_edits"("comment_id");
+
+-- CreateIndex
+CREATE INDEX "comment_mentions_user_id_idx" ON "public"."comment_mentions"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comment_mentions_comment_id_user_id_key" ON "public"."comment_mentions"("comment_id", "user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "comment_reactions_comment_id_user_id_emoji_key" ON "public"."comment_reactions"("comment_id", "user_id", "emoji");
+
+-- AddForeignKey
+ALTER TABLE "public"."comments" ADD CONSTRAINT "comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."comment_edits" ADD CONSTRAINT "comment_edits_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."comment_edits" ADD CONSTRAINT "comment_edits_edited_by_id_fkey" FOREIGN KEY ("edited_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."comment_mentions" ADD CONSTRAINT "comment_mentions_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."comment_mentions" ADD CONSTRAINT "comment_mentions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."comment_reactions" ADD CONSTRAINT "comment_reactions_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."comment_reactions" ADD CONSTRAINT "comment_reactions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "description_html" TEXT,
+ADD COLUMN     "description_references" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."comments" ADD COLUMN     "content_html" TEXT,
+ADD COLUMN     "content_references" JSONB;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "public"."SubmissionStatus" AS ENUM ('PENDING', 'APPROVED', 'CHANGES_REQUESTED');
+
+-- CreateTable
+CREATE TABLE "public"."rubric_criteria" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "max_score" INTEGER NOT NULL,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "rubric_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."submissions" (
+    "id" TEXT NOT NULL,
+    "status" "public"."SubmissionStatus" NOT NULL DEFAULT 'PENDING',
+    "note" TEXT,
+    "feedback" TEXT,
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewed_at" TIMESTAMP(3),
+    "project_id" TEXT NOT NULL,
+    "task_id" TEXT,
+    "submitted_by_id" TEXT,
+    "reviewed_by_id" TEXT,
+
+    CONSTRAINT "submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."submission_scores" (
+    "id" TEXT NOT NULL,
+    "score" INTEGER NOT NULL,
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "submission_id" TEXT NOT NULL,
+    "criterion_id" TEXT NOT NULL,
+
+    CONSTRAINT "submission_scores_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rubric_criteria_project_id_idx" ON "public"."rubric_criteria"("project_id");
+
+-- CreateIndex
+CREATE INDEX "submissions_project_id_status_idx" ON "public"."submissions"("project_id", "status");
+
+-- CreateIndex
+CREATE INDEX "submissions_task_id_idx" ON "public"."submissions"("task_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "submission_scores_submission_id_criterion_id_key" ON "public"."submission_scores"("submission_id", "criterion_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."rubric_criteria" ADD CONSTRAINT "rubric_criteria_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submissions" ADD CONSTRAINT "submissions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submissions" ADD CONSTRAINT "submissions_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submissions" ADD CONSTRAINT "submissions_submitted_by_id_fkey" FOREIGN KEY ("submitted_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submissions" ADD CONSTRAINT "submissions_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submission_scores" ADD CONSTRAINT "submission_scores_submission_id_fkey" FOREIGN KEY ("submission_id") REFERENCES "public"."submissions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submission_scores" ADD CONSTRAINT "submission_scores_criterion_id_fkey" FOREIGN KEY ("criterion_id") REFERENCES "public"."rubric_criteria"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."tasks" ADD COLUMN     "milestone_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."submissions" ADD COLUMN     "milestone_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."milestones" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "goal" TEXT,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "project_id" TEXT NOT NULL,
+
+    CONSTRAINT "milestones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "milestones_project_id_start_date_idx" ON "public"."milestones"("project_id", "start_date");
+
+-- CreateIndex
+CREATE INDEX "tasks_milestone_id_idx" ON "public"."tasks"("milestone_id");
+
+-- CreateIndex
+CREATE INDEX "submissions_milestone_id_idx" ON "public"."submissions"("milestone_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."tasks" ADD CONSTRAINT "tasks_milestone_id_fkey" FOREIGN KEY ("milestone_id") REFERENCES "public"."milestones"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."submissions" ADD CONSTRAINT "submissions_milestone_id_fkey" FOREIGN KEY ("milestone_id") REFERENCES "public"."milestones"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."milestones" ADD CONSTRAINT "milestones_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "public"."task_status_changes" (
+    "id" TEXT NOT NULL,
+    "from_status" TEXT,
+    "to_status" TEXT NOT NULL,
+    "changed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "project_id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+
+    CONSTRAINT "task_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."task_count_snapshots" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" TEXT NOT NULL,
+    "is_final" BOOLEAN NOT NULL,
+    "count" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "project_id" TEXT NOT NULL,
+    "board_id" TEXT NOT NULL,
+    "board_name" TEXT NOT NULL,
+
+    CONSTRAINT "task_count_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_status_changes_project_id_changed_at_idx" ON "public"."task_status_changes"("project_id", "changed_at");
+
+-- CreateIndex
+CREATE INDEX "task_status_changes_task_id_changed_at_idx" ON "public"."task_status_changes"("task_id", "changed_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_count_snapshots_project_id_date_board_id_status_key" ON "public"."task_count_snapshots"("project_id", "date", "board_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."task_status_changes" ADD CONSTRAINT "task_status_changes_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_status_changes" ADD CONSTRAINT "task_status_changes_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."task_count_snapshots" ADD CONSTRAINT "task_count_snapshots_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the status history of existing tasks from the activity log
+INSERT INTO "public"."task_status_changes" ("id", "from_status", "to_status", "changed_at", "project_id", "task_id")
+SELECT gen_random_uuid()::text, NULL, a."new_value" ->> 'status', a."created_at", a."project_id", a."task_id"
+FROM "public"."task_activities" a
+JOIN "public"."tasks" t ON t."id" = a."task_id"
+WHERE a."action" = 'created' AND a."new_value" ->> 'status' IS NOT NULL;
+
+INSERT INTO "public"."task_status_changes" ("id", "from_status", "to_status", "changed_at", "project_id", "task_id")
+SELECT gen_random_uuid()::text, a."old_value" #>> '{}', a."new_value" #>> '{}', a."created_at", a."project_id", a."task_id"
+FROM "public"."task_activities" a
+JOIN "public"."tasks" t ON t."id" = a."task_id"
+WHERE a."action" = 'status_changed' AND a."new_value" #>> '{}' IS NOT NULL;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."project_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "workflow_statuses" JSONB NOT NULL,
+    "boards" JSONB NOT NULL,
+    "tasks" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "created_by_id" TEXT,
+
+    CONSTRAINT "project_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_templates_name_key" ON "public"."project_templates"("name");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_templates" ADD CONSTRAINT "project_templates_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
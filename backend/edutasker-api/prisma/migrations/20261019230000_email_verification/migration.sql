@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "email_verified_at" TIMESTAMP(3);
+
+-- Accounts created before verification existed are treated as verified
+UPDATE "public"."users" SET "email_verified_at" = "created_at";
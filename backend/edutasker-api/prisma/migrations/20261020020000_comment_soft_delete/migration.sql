@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."comments" ADD COLUMN     "deleted_at" TIMESTAMP(3);
@@ -1,19 +1,35 @@
 import type { Request, Response } from "express";
 import express, { Router } from "express";
+import { config } from "./config/env.js";
 import {
+  accessTokenRoute,
+  activityRoute,
+  analyticsRoute,
+  archiveRoute,
+  attachmentRoute,
   authRoute,
   boardRoute,
   commentRoute,
+  dependencyRoute,
   fileRoute,
   importRoute,
   mentorRoute,
+  milestoneRoute,
+  notificationRoute,
   projectRoute,
+  realtimeRoute,
+  reportRoute,
+  reviewRoute,
   roleRoute,
   taskRoute,
+  templateRoute,
   userRoute,
+  workflowRoute,
 } from "./module/index.js";
 
 const app = express();
+// Lets req.ip, which login lockouts and rate limits key on, see through reverse proxies
+app.set("trust proxy", config.TRUST_PROXY);
 app.use(express.json());
 
 app.get("/", (req: Request, res: Response) => {
@@ -24,8 +40,19 @@ const projectRouter = Router();
 projectRouter.use("/", projectRoute);
 projectRouter.use("/", taskRoute);
 projectRouter.use("/", commentRoute);
+projectRouter.use("/", realtimeRoute);
+projectRouter.use("/", attachmentRoute);
+projectRouter.use("/", activityRoute);
+projectRouter.use("/", dependencyRoute);
+projectRouter.use("/", workflowRoute);
+projectRouter.use("/", reviewRoute);
+projectRouter.use("/", milestoneRoute);
+projectRouter.use("/", analyticsRoute);
+projectRouter.use("/", reportRoute);
+projectRouter.use("/", archiveRoute);
 
 app.use("/auth", authRoute);
+app.use("/users/me/tokens", accessTokenRoute);
 app.use("/users", userRoute);
 app.use("/import", importRoute);
 app.use("/projects", projectRouter);
@@ -35,4 +62,6 @@ app.use("/tasks", taskRoute);
 app.use("/mentors", mentorRoute);
 app.use("/boards", boardRoute);
 app.use("/file", fileRoute);
+app.use("/notifications", notificationRoute);
+app.use("/project-templates", templateRoute);
 export default app;
\ No newline at end of file
@@ -16,6 +16,42 @@ interface EnvSchema {
   S3_SECRET_ACCESS_KEY: string;
   S3_REGION: string;
   S3_ENDPOINT: string;
+  ATTACHMENT_MAX_SIZE: number;
+  ATTACHMENT_ALLOWED_TYPES: string;
+  ATTACHMENT_URL_EXPIRES_IN: number;
+  ANALYTICS_SNAPSHOT_INTERVAL: number;
+  APP_URL: string;
+  MAIL_DRIVER: "smtp" | "file" | "console";
+  MAIL_FROM: string;
+  MAIL_FILE_DIR: string;
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER: string;
+  SMTP_PASSWORD: string;
+  PASSWORD_RESET_TOKEN_TTL: number;
+  EMAIL_VERIFICATION_TOKEN_TTL: number;
+  MFA_ISSUER: string;
+  MFA_CHALLENGE_EXPIRES_IN: number;
+  MFA_REQUIRED_ROLES: string;
+  TRUST_PROXY: number;
+  RATE_LIMIT_ENABLED: boolean;
+  LOGIN_MAX_FAILED_ATTEMPTS: number;
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: number;
+  LOGIN_ATTEMPT_WINDOW: number;
+  LOGIN_LOCKOUT_DURATION: number;
+  OIDC_ENABLED: boolean;
+  OIDC_ISSUER_URL: string;
+  OIDC_CLIENT_ID: string;
+  OIDC_CLIENT_SECRET: string;
+  OIDC_REDIRECT_URI: string;
+  OIDC_SCOPES: string;
+  OIDC_ALLOW_INSECURE: boolean;
+  OIDC_ROLE_CLAIM: string;
+  OIDC_ROLE_MAPPING: string;
+  OIDC_DEFAULT_ROLE: string;
+  OIDC_ALLOWED_DOMAINS: string;
+  PASSWORD_LOGIN_DISABLED_DOMAINS: string;
 }
 
 const validators = {
@@ -33,9 +69,81 @@ const validators = {
   S3_SECRET_ACCESS_KEY: Joi.string().required(),
   S3_REGION: Joi.string().required(),
   S3_ENDPOINT: Joi.string().required(),
+  ATTACHMENT_MAX_SIZE: Joi.number()
+    .integer()
+    .min(1)
+    .default(10 * 1024 * 1024),
+  ATTACHMENT_ALLOWED_TYPES: Joi.string().default(
+    "image/*,application/pdf,text/plain,application/zip,application/msword,application/vnd.openxmlformats-officedocument.*",
+  ),
+  ATTACHMENT_URL_EXPIRES_IN: Joi.number().integer().min(1).default(300),
+  ANALYTICS_SNAPSHOT_INTERVAL: Joi.number().integer().min(1).default(60),
+  APP_URL: Joi.string().uri().default("http://localhost:3000"),
+  MAIL_DRIVER: Joi.string().valid("smtp", "file", "console").default("console"),
+  MAIL_FROM: Joi.string().default("EduTasker <no-reply@edutasker.local>"),
+  MAIL_FILE_DIR: Joi.string().default("storage/mail"),
+  SMTP_HOST: Joi.string().allow("").default(""),
+  SMTP_PORT: Joi.number().integer().default(587),
+  SMTP_SECURE: Joi.boolean().default(false),
+  SMTP_USER: Joi.string().allow("").default(""),
+  SMTP_PASSWORD: Joi.string().allow("").default(""),
+  PASSWORD_RESET_TOKEN_TTL: Joi.number()
+    .integer()
+    .min(60)
+    .default(60 * 60),
+  EMAIL_VERIFICATION_TOKEN_TTL: Joi.number()
+    .integer()
+    .min(60)
+    .default(24 * 60 * 60),
+  MFA_ISSUER: Joi.string().default("EduTasker"),
+  MFA_CHALLENGE_EXPIRES_IN: Joi.number().integer().min(30).default(300),
+  MFA_REQUIRED_ROLES: Joi.string().allow("").default(""),
+  TRUST_PROXY: Joi.number().integer().min(0).default(0),
+  RATE_LIMIT_ENABLED: Joi.boolean().default(true),
+  LOGIN_MAX_FAILED_ATTEMPTS: Joi.number().integer().min(1).default(5),
+  LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: Joi.number().integer().min(1).default(20),
+  LOGIN_ATTEMPT_WINDOW: Joi.number()
+    .integer()
+    .min(60)
+    .default(15 * 60),
+  LOGIN_LOCKOUT_DURATION: Joi.number()
+    .integer()
+    .min(60)
+    .default(15 * 60),
+  OIDC_ENABLED: Joi.boolean().default(false),
+  OIDC_ISSUER_URL: Joi.string().uri().allow("").default(""),
+  OIDC_CLIENT_ID: Joi.string().allow("").default(""),
+  OIDC_CLIENT_SECRET: Joi.string().allow("").default(""),
+  OIDC_REDIRECT_URI: Joi.string().uri().default("http://localhost:3000/auth/oidc/callback"),
+  OIDC_SCOPES: Joi.string().default("openid email profile"),
+  OIDC_ALLOW_INSECURE: Joi.boolean().default(false),
+  OIDC_ROLE_CLAIM: Joi.string().default("groups"),
+  OIDC_ROLE_MAPPING: Joi.string().allow("").default(""),
+  OIDC_DEFAULT_ROLE: Joi.string().default("STUDENT"),
+  OIDC_ALLOWED_DOMAINS: Joi.string().allow("").default(""),
+  PASSWORD_LOGIN_DISABLED_DOMAINS: Joi.string().allow("").default(""),
 };
-const configLoader = new ConfigLoader<EnvSchema>(validators, (env) => ({
-  ...env,
-  PORT: Number(env.PORT),
-}));
+const configLoader = new ConfigLoader<EnvSchema>(validators, (env) => {
+  // Otherwise reset and verification mail would only fail once someone asks for it
+  if (env.MAIL_DRIVER === "smtp" && !env.SMTP_HOST) {
+    throw new Error(
+      "SMTP_HOST is required when MAIL_DRIVER is smtp. Use MAIL_DRIVER=file or console for local development",
+    );
+  }
+  if (env.MAIL_DRIVER !== "smtp") {
+    console.warn(
+      `MAIL_DRIVER is ${env.MAIL_DRIVER}: mail is not delivered. Set MAIL_DRIVER=smtp in production`,
+    );
+  }
+
+  // Accounts are linked by email, so the provider must be limited to the domains it owns
+  if (env.OIDC_ENABLED && !env.OIDC_ALLOWED_DOMAINS.trim()) {
+    throw new Error("OIDC_ALLOWED_DOMAINS is required when OIDC_ENABLED is true");
+  }
+
+  return {
+    ...env,
+    PORT: Number(env.PORT),
+  };
+});
 export const config = configLoader.config;
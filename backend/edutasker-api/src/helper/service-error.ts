@@ -0,0 +1,14 @@
+/**
+ * An error with a machine-readable code. `serviceWrapper` reports the code instead of the generic
+ * "400" so clients can tell specific rule violations apart.
+ */
+export class ServiceError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = "ServiceError";
+  }
+}
@@ -1,6 +1,7 @@
 import type { Request, Response } from "express";
 import type { IPaginationWrapper } from "./response-object.js";
 import { createResponseObject, unwrapPaginationWrapper } from "./response-object.js";
+import { ServiceError } from "./service-error.js";
 
 export const serviceWrapper = <T>(
   serviceFunction: (...args: any[]) => Promise<T>,
@@ -32,6 +33,16 @@ export const serviceWrapper = <T>(
 
       return res.status(200).json(response);
     } catch (error: any) {
+      if (error instanceof ServiceError) {
+        const response = createResponseObject({
+          content: error.details ?? null,
+          messages: error.message,
+          code: error.code,
+          success: false,
+        });
+        return res.status(200).json(response);
+      }
+
       if (error.message) {
         const response = createResponseObject({
           content: null,
@@ -1,6 +1,9 @@
 import app from "./app.js";
 import { config } from "./config/env.js";
 import { swaggerDocs } from "./config/swagger.js";
+import { startSnapshotScheduler } from "./module/analytics/analytics.service.js";
+import { resumeImportJobs } from "./module/import/import.service.js";
+import { backfillRenderedMarkdown } from "./module/markdown/markdown.service.js";
 const port = config.PORT || 3000;
 
 swaggerDocs(app, port);
@@ -8,3 +11,25 @@ swaggerDocs(app, port);
 app.listen(config.PORT, () => {
   console.log(`🚀 Server running at http://localhost:${port}`);
 });
+
+resumeImportJobs()
+  .then((count) => {
+    if (count > 0) {
+      console.log(`📥 Resumed ${count} import job(s)`);
+    }
+  })
+  .catch((error) => {
+    console.error("Failed to resume import jobs:", error);
+  });
+
+backfillRenderedMarkdown()
+  .then((count) => {
+    if (count > 0) {
+      console.log(`📝 Rendered Markdown for ${count} task(s) and comment(s)`);
+    }
+  })
+  .catch((error) => {
+    console.error("Failed to render existing Markdown:", error);
+  });
+
+startSnapshotScheduler();
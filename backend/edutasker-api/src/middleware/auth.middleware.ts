@@ -1,5 +1,15 @@
 import type { NextFunction, Request, Response } from "express";
 import tokenService, { TokenType } from "../module/auth/token.service.js";
+import { isAccessTokenRevoked } from "../module/auth/session.service.js";
+import { getMfaRequiredRoles } from "../module/auth/mfa.service.js";
+import {
+  authenticateAccessToken,
+  hasScope,
+  isPersonalAccessToken,
+  resolveRequiredScope,
+} from "../module/access-token/access-token.service.js";
+import { getUserRoleCodes } from "../module/role/role.service.js";
+import type { RoleCode } from "../module/role/role.type.js";
 
 export enum Action {
   READ = "READ",
@@ -8,15 +18,92 @@ export enum Action {
   DELETE = "DELETE",
 }
 
+/**
+ * Authenticates a personal access token and checks that its scopes cover the route. The scope is
+ * derived from the path and method, so routes need no extra configuration.
+ */
+const accessTokenGuard = async (token: string, req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await authenticateAccessToken(token);
+    if (!user) return res.status(401).json({ error: "Invalid token" });
+
+    const requiredScope = resolveRequiredScope(
+      req.baseUrl,
+      req.route?.path ?? req.path,
+      req.method,
+    );
+    if (!requiredScope) {
+      return res
+        .status(403)
+        .json({ error: "Personal access tokens cannot be used for this endpoint" });
+    }
+    if (!hasScope(user.scopes, requiredScope)) {
+      return res.status(403).json({ error: `Forbidden. Token requires scope: ${requiredScope}` });
+    }
+
+    (req as any).user = user;
+    next();
+  } catch (err) {
+    console.error("Access Token Guard Error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
 export const authGuard = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
   if (!authHeader) return res.status(401).json({ error: "Unauthorized" });
 
+  const token = authHeader.split(" ")[1] || "";
+  if (isPersonalAccessToken(token)) {
+    return accessTokenGuard(token, req, res, next);
+  }
+
   try {
-    const token = authHeader.split(" ")[1] || "";
-    (req as any).user = await tokenService.verifyToken(TokenType.ACCESS, token);
+    const user = await tokenService.verifyToken(TokenType.ACCESS, token);
+    if (await isAccessTokenRevoked(user.id, user.iat, user.sid)) {
+      return res.status(401).json({ error: "Token has been revoked" });
+    }
+    (req as any).user = user;
     next();
   } catch {
     res.status(401).json({ error: "Invalid token" });
   }
 };
+
+export const streamAuthGuard = async (req: Request, res: Response, next: NextFunction) => {
+  // EventSource cannot send headers, so streams may pass the same JWT as a query parameter
+  const queryToken = req.query.access_token;
+  if (!req.headers.authorization && typeof queryToken === "string" && queryToken) {
+    req.headers.authorization = `Bearer ${queryToken}`;
+  }
+  return authGuard(req, res, next);
+};
+
+export const requireRole = (...roles: RoleCode[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user) return res.status(401).json({ error: "Unauthorized" });
+
+    try {
+      // Tokens issued before role codes were embedded fall back to a lookup
+      const userRoles: string[] = user.roles ?? (await getUserRoleCodes(user.id));
+      const grantingRoles = roles.filter((role) => userRoles.includes(role));
+      if (grantingRoles.length === 0) {
+        return res.status(403).json({ error: `Forbidden. Requires role: ${roles.join(" or ")}` });
+      }
+
+      // Only enforced when every role that grants access is covered by MFA_REQUIRED_ROLES
+      const mfaRequiredRoles = getMfaRequiredRoles();
+      if (!user.mfa && grantingRoles.every((role) => mfaRequiredRoles.includes(role))) {
+        return res.status(403).json({
+          error: "Two-factor authentication is required for this role",
+          code: "MFA_REQUIRED",
+        });
+      }
+      next();
+    } catch (err) {
+      console.error("Role Guard Error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  };
+};
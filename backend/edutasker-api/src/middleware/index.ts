@@ -1,2 +1,3 @@
 export * from "./auth.middleware.js";
 export * from "./validate.middleware.js";
+export * from "./rate-limit.middleware.js";
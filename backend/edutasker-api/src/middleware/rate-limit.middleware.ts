@@ -0,0 +1,61 @@
+import type { NextFunction, Request, Response } from "express";
+import { config } from "../config/env.js";
+import redis from "../config/redis.js";
+
+export interface RateLimitBudget {
+  // Part of the Redis key; routes sharing a name share one budget
+  name: string;
+  limit: number;
+  windowSeconds: number;
+  // Requests are counted per authenticated user, or per client IP for anonymous routes
+  per: "user" | "ip";
+}
+
+export const RateLimitBudgets = {
+  // Credential endpoints: login, registration, token refresh, 2FA verification
+  AUTH: { name: "auth", limit: 30, windowSeconds: 60, per: "ip" },
+  // Endpoints that send mail
+  AUTH_MAIL: { name: "auth-mail", limit: 5, windowSeconds: 60 * 60, per: "ip" },
+  IMPORT: { name: "import", limit: 20, windowSeconds: 10 * 60, per: "user" },
+  PRESIGNED_URL: { name: "presigned-url", limit: 120, windowSeconds: 60, per: "user" },
+} satisfies Record<string, RateLimitBudget>;
+
+const rateLimitKey = (budget: RateLimitBudget, subject: string) =>
+  `ratelimit:${budget.name}:${subject}`;
+
+/**
+ * Fixed-window request limit backed by Redis, so the budget holds across API instances. Answers
+ * `429` with `Retry-After` once the budget is spent. User budgets must run after `authGuard`.
+ */
+export const rateLimit = (budget: RateLimitBudget) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!config.RATE_LIMIT_ENABLED) return next();
+
+    const subject = budget.per === "user" ? (req as any).user?.id : req.ip;
+    const key = rateLimitKey(budget, subject ?? "unknown");
+
+    try {
+      const count = await redis.incr(key);
+      if (count === 1) {
+        await redis.expire(key, budget.windowSeconds);
+      }
+
+      res.set({
+        "X-RateLimit-Limit": budget.limit.toString(),
+        "X-RateLimit-Remaining": Math.max(0, budget.limit - count).toString(),
+      });
+
+      if (count > budget.limit) {
+        const ttl = await redis.ttl(key);
+        const retryAfter = ttl > 0 ? ttl : budget.windowSeconds;
+        res.set("Retry-After", retryAfter.toString());
+        return res.status(429).json({ error: "Too many requests", retryAfter });
+      }
+      next();
+    } catch (err) {
+      // An unavailable Redis should not take every rate-limited route down with it
+      console.error("Rate Limit Error:", err);
+      next();
+    }
+  };
+};
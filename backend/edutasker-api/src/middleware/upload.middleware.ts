@@ -1,64 +1,88 @@
-import type { Request } from "express";
+import type { Request, RequestHandler } from "express";
 import multer from "multer";
 
-const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  const allowedMimeTypes = [
-    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    "application/vnd.ms-excel",
-  ];
+const createFileFilter =
+  (allowedMimeTypes: string[], allowedExtensions: string[], message: string) =>
+  (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    const fileExtension = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf("."));
 
-  const allowedExtensions = [".xlsx", ".xls"];
-  const fileExtension = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf("."));
+    if (allowedMimeTypes.includes(file.mimetype) || allowedExtensions.includes(fileExtension)) {
+      cb(null, true);
+    } else {
+      cb(new Error(message));
+    }
+  };
+
+const createUploadHandler =
+  (upload: RequestHandler, maxSizeLabel: string) => (req: Request, res: any, next: any) => {
+    upload(req, res, (err: any) => {
+      if (err instanceof multer.MulterError) {
+        if (err.code === "LIMIT_FILE_SIZE") {
+          return res.status(400).json({
+            success: false,
+            message: `File too large. Maximum size is ${maxSizeLabel}.`,
+            code: "FILE_TOO_LARGE",
+          });
+        }
+        if (err.code === "LIMIT_FILE_COUNT") {
+          return res.status(400).json({
+            success: false,
+            message: "Too many files. Only one file is allowed.",
+            code: "TOO_MANY_FILES",
+          });
+        }
+        return res.status(400).json({
+          success: false,
+          message: `Upload error: ${err.message}`,
+          code: "UPLOAD_ERROR",
+        });
+      }
+
+      if (err) {
+        return res.status(400).json({
+          success: false,
+          message: err.message,
+          code: "INVALID_FILE",
+        });
+      }
+
+      next();
+    });
+  };
 
-  if (allowedMimeTypes.includes(file.mimetype) || allowedExtensions.includes(fileExtension)) {
-    cb(null, true);
-  } else {
-    cb(new Error("Invalid file type. Only Excel files (.xlsx, .xls) are allowed."));
-  }
-};
 const storage = multer.memoryStorage();
 
 export const uploadExcel = multer({
   storage,
-  fileFilter,
+  fileFilter: createFileFilter(
+    [
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "application/vnd.ms-excel",
+    ],
+    [".xlsx", ".xls"],
+    "Invalid file type. Only Excel files (.xlsx, .xls) are allowed.",
+  ),
   limits: {
     fileSize: 5 * 1024 * 1024,
     files: 1,
   },
 }).single("file");
 
-export const handleExcelUpload = (req: Request, res: any, next: any) => {
-  uploadExcel(req, res, (err: any) => {
-    if (err instanceof multer.MulterError) {
-      if (err.code === "LIMIT_FILE_SIZE") {
-        return res.status(400).json({
-          success: false,
-          message: "File too large. Maximum size is 5MB.",
-          code: "FILE_TOO_LARGE",
-        });
-      }
-      if (err.code === "LIMIT_FILE_COUNT") {
-        return res.status(400).json({
-          success: false,
-          message: "Too many files. Only one file is allowed.",
-          code: "TOO_MANY_FILES",
-        });
-      }
-      return res.status(400).json({
-        success: false,
-        message: `Upload error: ${err.message}`,
-        code: "UPLOAD_ERROR",
-      });
-    }
+export const handleExcelUpload = createUploadHandler(uploadExcel, "5MB");
 
-    if (err) {
-      return res.status(400).json({
-        success: false,
-        message: err.message,
-        code: "INVALID_FILE",
-      });
-    }
+export const PROJECT_ARCHIVE_MAX_SIZE = 20 * 1024 * 1024;
+
+export const uploadProjectArchive = multer({
+  storage,
+  fileFilter: createFileFilter(
+    ["application/json"],
+    [".json"],
+    "Invalid file type. Only project archives (.json) are allowed.",
+  ),
+  limits: {
+    fileSize: PROJECT_ARCHIVE_MAX_SIZE,
+    files: 1,
+  },
+}).single("file");
 
-    next();
-  });
-};
+export const handleProjectArchiveUpload = createUploadHandler(uploadProjectArchive, "20MB");
@@ -0,0 +1,37 @@
+import type { Request, Response } from "express";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+import * as AccessTokenService from "./access-token.service.js";
+import type { CreateAccessTokenDTO } from "./access-token.type.js";
+
+const createAccessTokenHandler = async (req: Request, res: Response) => {
+  const data: CreateAccessTokenDTO = req.body;
+  const userId = (req as any).user.id;
+  return await AccessTokenService.createAccessToken(data, userId);
+};
+
+const listAccessTokensHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await AccessTokenService.getAccessTokens(userId);
+};
+
+const revokeAccessTokenHandler = async (req: Request, res: Response) => {
+  const { tokenId } = req.params;
+  if (!tokenId) {
+    throw new Error("Token ID is required");
+  }
+  const userId = (req as any).user.id;
+  return await AccessTokenService.revokeAccessToken(tokenId, userId);
+};
+
+export const createAccessToken = serviceWrapper(
+  createAccessTokenHandler,
+  "Access token created successfully",
+);
+export const listAccessTokens = serviceWrapper(
+  listAccessTokensHandler,
+  "Access tokens retrieved successfully",
+);
+export const revokeAccessToken = serviceWrapper(
+  revokeAccessTokenHandler,
+  "Access token revoked successfully",
+);
@@ -0,0 +1,194 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as AccessTokenController from "./access-token.controller.js";
+import { accessTokenIdParamSchema, createAccessTokenSchema } from "./access-token.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     AccessToken:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           example: "Grading script"
+ *         tokenPrefix:
+ *           type: string
+ *           description: First characters of the token, to recognise it
+ *           example: "etp_Q2x1c3Rl"
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["tasks:read", "comments:write"]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *           description: Neither expired nor revoked
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /users/me/tokens:
+ *   post:
+ *     tags:
+ *       - Access Tokens
+ *     summary: Create a personal access token
+ *     description: |
+ *       Creates a token for scripts and integrations. Send it as `Authorization: Bearer etp_...`.
+ *       The plain token is only part of this response; the API keeps a hash of it.
+ *
+ *       Scopes are `<resource>:read` or `<resource>:write` for `projects`, `tasks`, `comments`,
+ *       `files`, `users`, `notifications` and `imports`; write includes read. Tokens can never be
+ *       used for `/auth` or to manage tokens, and are valid for at most 365 days.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *               - expiresAt
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Grading script"
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["tasks:read", "comments:write"]
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 example: "2026-12-31T23:59:59.000Z"
+ *     responses:
+ *       200:
+ *         description: Access token created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/AccessToken'
+ *                         - type: object
+ *                           properties:
+ *                             token:
+ *                               type: string
+ *                               description: The token itself, shown only once
+ *       400:
+ *         description: Bad request - Invalid scopes, expiry too far out or too many active tokens
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  "/",
+  authGuard,
+  validate({ body: createAccessTokenSchema }),
+  AccessTokenController.createAccessToken,
+);
+
+/**
+ * @openapi
+ * /users/me/tokens:
+ *   get:
+ *     tags:
+ *       - Access Tokens
+ *     summary: List personal access tokens
+ *     description: Lists the current user's tokens, newest first, including expired and revoked ones.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Access tokens retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AccessToken'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", authGuard, AccessTokenController.listAccessTokens);
+
+/**
+ * @openapi
+ * /users/me/tokens/{tokenId}:
+ *   delete:
+ *     tags:
+ *       - Access Tokens
+ *     summary: Revoke a personal access token
+ *     description: The token stops working immediately. Revoked tokens stay in the list.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tokenId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Access token revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/AccessToken'
+ *       400:
+ *         description: Bad request - Token not found or already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.delete(
+  "/:tokenId",
+  authGuard,
+  validate({ params: accessTokenIdParamSchema }),
+  AccessTokenController.revokeAccessToken,
+);
+
+export default router;
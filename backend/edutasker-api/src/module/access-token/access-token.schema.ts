@@ -0,0 +1,16 @@
+import Joi from "joi";
+import { TOKEN_SCOPES } from "./access-token.type.js";
+
+export const createAccessTokenSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim().required(),
+  scopes: Joi.array()
+    .items(Joi.string().valid(...TOKEN_SCOPES))
+    .min(1)
+    .unique()
+    .required(),
+  expiresAt: Joi.date().iso().greater("now").required(),
+});
+
+export const accessTokenIdParamSchema = Joi.object({
+  tokenId: Joi.string().uuid().required(),
+});
@@ -0,0 +1,200 @@
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "../../config/database.js";
+import { getUserRoleCodes } from "../role/role.service.js";
+import type {
+  AccessTokenPrincipal,
+  AccessTokenResponse,
+  CreateAccessTokenDTO,
+  CreatedAccessTokenResponse,
+  TokenScopeResource,
+} from "./access-token.type.js";
+
+// The prefix tells personal access tokens apart from JWTs and makes leaked ones easy to grep for
+const TOKEN_PREFIX = "etp_";
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 8;
+const MAX_ACTIVE_TOKENS = 25;
+const MAX_LIFETIME_DAYS = 365;
+// lastUsedAt is informational, so it is written at most once a minute per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Route segments mapped to the scope resource they belong to; the last matching segment wins,
+// so /projects/:projectId/tasks/:taskId/comments needs a `comments` scope
+const SCOPE_RESOURCE_BY_SEGMENT: Record<string, TokenScopeResource> = {
+  projects: "projects",
+  "project-templates": "projects",
+  boards: "projects",
+  tasks: "tasks",
+  comments: "comments",
+  attachments: "files",
+  file: "files",
+  users: "users",
+  mentors: "users",
+  roles: "users",
+  notifications: "notifications",
+  import: "imports",
+};
+
+// Never reachable with a personal access token, so a leaked token cannot sign in or mint others
+const BLOCKED_SEGMENTS = ["auth", "tokens"];
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export const isPersonalAccessToken = (token: string) => token.startsWith(TOKEN_PREFIX);
+
+const isActive = (token: { expiresAt: Date; revokedAt: Date | null }) =>
+  !token.revokedAt && token.expiresAt > new Date();
+
+const mapToAccessTokenResponse = (token: any): AccessTokenResponse => ({
+  id: token.id,
+  name: token.name,
+  tokenPrefix: token.tokenPrefix,
+  scopes: token.scopes,
+  expiresAt: token.expiresAt,
+  lastUsedAt: token.lastUsedAt ?? undefined,
+  revokedAt: token.revokedAt ?? undefined,
+  isActive: isActive(token),
+  createdAt: token.createdAt,
+});
+
+/**
+ * Returns the scope a request needs, e.g. `tasks:write` for a POST under `/tasks`, or null when
+ * personal access tokens may not be used for the route at all.
+ */
+export const resolveRequiredScope = (
+  baseUrl: string,
+  routePath: string,
+  method: string,
+): string | null => {
+  // Parameters are skipped, so IDs can never be mistaken for a resource name
+  const segments = `${baseUrl}/${routePath}`
+    .split("/")
+    .filter((segment) => segment && !segment.startsWith(":"));
+  if (segments.some((segment) => BLOCKED_SEGMENTS.includes(segment))) {
+    return null;
+  }
+
+  const resource = segments
+    .reverse()
+    .map((segment) => SCOPE_RESOURCE_BY_SEGMENT[segment])
+    .find(Boolean);
+  if (!resource) {
+    return null;
+  }
+
+  const action = ["GET", "HEAD"].includes(method.toUpperCase()) ? "read" : "write";
+  return `${resource}:${action}`;
+};
+
+export const hasScope = (scopes: string[], requiredScope: string): boolean => {
+  if (scopes.includes(requiredScope)) {
+    return true;
+  }
+  const [resource, action] = requiredScope.split(":");
+  return action === "read" && scopes.includes(`${resource}:write`);
+};
+
+/**
+ * Resolves a personal access token to the user it acts for, or null when it is unknown, expired
+ * or revoked.
+ */
+export const authenticateAccessToken = async (
+  token: string,
+): Promise<AccessTokenPrincipal | null> => {
+  const accessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, email: true } } },
+  });
+  if (!accessToken || !isActive(accessToken)) {
+    return null;
+  }
+
+  const now = new Date();
+  if (
+    !accessToken.lastUsedAt ||
+    now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  ) {
+    await prisma.personalAccessToken.update({
+      where: { id: accessToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    id: accessToken.user.id,
+    email: accessToken.user.email,
+    roles: await getUserRoleCodes(accessToken.user.id),
+    // Tokens never count as a second factor
+    mfa: false,
+    tokenId: accessToken.id,
+    scopes: accessToken.scopes,
+  };
+};
+
+export const createAccessToken = async (
+  data: CreateAccessTokenDTO,
+  userId: string,
+): Promise<CreatedAccessTokenResponse> => {
+  const maxExpiresAt = new Date(Date.now() + MAX_LIFETIME_DAYS * 24 * 60 * 60 * 1000);
+  if (new Date(data.expiresAt) > maxExpiresAt) {
+    throw new Error(`Tokens can be valid for at most ${MAX_LIFETIME_DAYS} days`);
+  }
+
+  const activeTokens = await prisma.personalAccessToken.count({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+  });
+  if (activeTokens >= MAX_ACTIVE_TOKENS) {
+    throw new Error(`You can have at most ${MAX_ACTIVE_TOKENS} active tokens`);
+  }
+
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const accessToken = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: data.name,
+      scopes: data.scopes,
+      expiresAt: data.expiresAt,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    },
+  });
+
+  return { ...mapToAccessTokenResponse(accessToken), token };
+};
+
+export const getAccessTokens = async (userId: string): Promise<AccessTokenResponse[]> => {
+  const tokens = await prisma.personalAccessToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return tokens.map(mapToAccessTokenResponse);
+};
+
+export const revokeAccessToken = async (
+  tokenId: string,
+  userId: string,
+): Promise<AccessTokenResponse> => {
+  const token = await prisma.personalAccessToken.findFirst({ where: { id: tokenId, userId } });
+  if (!token) {
+    throw new Error("Token not found");
+  }
+  if (token.revokedAt) {
+    throw new Error("Token is already revoked");
+  }
+
+  const revokedToken = await prisma.personalAccessToken.update({
+    where: { id: tokenId },
+    data: { revokedAt: new Date() },
+  });
+
+  return mapToAccessTokenResponse(revokedToken);
+};
+
+export const revokeAllAccessTokens = async (userId: string): Promise<number> => {
+  const { count } = await prisma.personalAccessToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  return count;
+};
@@ -0,0 +1,48 @@
+import type { TokenPayload } from "../auth/auth.type.js";
+
+export const TOKEN_SCOPE_RESOURCES = [
+  "projects",
+  "tasks",
+  "comments",
+  "files",
+  "users",
+  "notifications",
+  "imports",
+] as const;
+
+export type TokenScopeResource = (typeof TOKEN_SCOPE_RESOURCES)[number];
+
+// `<resource>:write` also grants `<resource>:read`
+export const TOKEN_SCOPES = TOKEN_SCOPE_RESOURCES.flatMap((resource) => [
+  `${resource}:read`,
+  `${resource}:write`,
+]);
+
+export interface CreateAccessTokenDTO {
+  name: string;
+  scopes: string[];
+  expiresAt: Date;
+}
+
+export interface AccessTokenResponse {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+export interface CreatedAccessTokenResponse extends AccessTokenResponse {
+  // The plain token, returned once at creation
+  token: string;
+}
+
+// What `authGuard` puts on the request for a personal access token
+export interface AccessTokenPrincipal extends TokenPayload {
+  tokenId: string;
+  scopes: string[];
+}
@@ -0,0 +1,43 @@
+import type { Request, Response } from "express";
+import * as ActivityService from "./activity.service.js";
+import type { ActivityListQuery, TaskActivityAction } from "./activity.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const parseActivityQuery = (req: Request): ActivityListQuery => ({
+  page: req.query.page ? Number(req.query.page) : undefined,
+  limit: req.query.limit ? Number(req.query.limit) : undefined,
+  actorId: req.query.actorId as string,
+  action: req.query.action as TaskActivityAction,
+  dateFrom: req.query.dateFrom ? new Date(req.query.dateFrom as string) : undefined,
+  dateTo: req.query.dateTo ? new Date(req.query.dateTo as string) : undefined,
+});
+
+const getTaskActivityHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  return await ActivityService.getTaskActivity(projectId, taskId, parseActivityQuery(req), userId);
+};
+
+const getProjectActivityHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  return await ActivityService.getProjectActivity(projectId, parseActivityQuery(req), userId);
+};
+
+export const getTaskActivity = serviceWrapper(
+  getTaskActivityHandler,
+  "Task activity retrieved successfully",
+);
+export const getProjectActivity = serviceWrapper(
+  getProjectActivityHandler,
+  "Project activity retrieved successfully",
+);
@@ -0,0 +1,263 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as ActivityController from "./activity.controller.js";
+import {
+  activityListQuerySchema,
+  projectActivityParamSchema,
+  taskActivityParamSchema,
+} from "./activity.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     TaskActivity:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         action:
+ *           type: string
+ *           enum: [created, updated, status_changed, assignees_changed, moved, deleted, comment_added, comment_edited, comment_deleted, dependency_added, dependency_removed, submitted_for_review, review_approved, changes_requested, review_scored]
+ *           description: What happened to the task
+ *         field:
+ *           type: string
+ *           nullable: true
+ *           description: Changed field for updates (title, description, status, priority, dueDate, assignees, board, blockedBy)
+ *         oldValue:
+ *           nullable: true
+ *           description: Value before the change
+ *         newValue:
+ *           nullable: true
+ *           description: Value after the change
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         task:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             title:
+ *               type: string
+ *               description: Task title at the time of the change
+ *         actor:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *             avatarUrl:
+ *               type: string
+ *     ActivityListResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *         - type: object
+ *           properties:
+ *             content:
+ *               type: object
+ *               properties:
+ *                 activities:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaskActivity'
+ *                 total:
+ *                   type: number
+ *                 page:
+ *                   type: number
+ *                 limit:
+ *                   type: number
+ *                 totalPages:
+ *                   type: number
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/activity:
+ *   get:
+ *     tags:
+ *       - Activity
+ *     summary: Get project activity feed
+ *     description: |
+ *       Returns the append-only history of task changes across the project, newest first.
+ *       Available to project members and mentors.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only changes made by this user
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [created, updated, status_changed, assignees_changed, moved, deleted, comment_added, comment_edited, comment_deleted, dependency_added, dependency_removed, submitted_for_review, review_approved, changes_requested, review_scored]
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Project activity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ActivityListResponse'
+ *             example:
+ *               message: "Project activity retrieved successfully"
+ *               content:
+ *                 activities:
+ *                   - id: "5f0c7b2e-1a2b-4c3d-8e9f-0a1b2c3d4e5f"
+ *                     action: "status_changed"
+ *                     field: "status"
+ *                     oldValue: "todo"
+ *                     newValue: "in-progress"
+ *                     createdAt: "2024-01-15T10:30:00.000Z"
+ *                     task:
+ *                       id: "789e0123-e89b-12d3-a456-426614174002"
+ *                       title: "Implement login page"
+ *                     actor:
+ *                       id: "456e7890-e89b-12d3-a456-426614174001"
+ *                       name: "John Doe"
+ *                       email: "john@example.com"
+ *                 total: 1
+ *                 page: 1
+ *                 limit: 20
+ *                 totalPages: 1
+ *               messages: ["Project activity retrieved successfully"]
+ *               code: "200"
+ *               success: true
+ *       400:
+ *         description: Bad request - Project not found or not a member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/activity",
+  authGuard,
+  validate({ params: projectActivityParamSchema, query: activityListQuerySchema }),
+  ActivityController.getProjectActivity,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/activity:
+ *   get:
+ *     tags:
+ *       - Activity
+ *     summary: Get task activity
+ *     description: Returns the history of a single task, newest first. History is kept after the task is deleted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Task activity retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ActivityListResponse'
+ *       400:
+ *         description: Bad request - Task not found or not a member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/tasks/:taskId/activity",
+  authGuard,
+  validate({ params: taskActivityParamSchema, query: activityListQuerySchema }),
+  ActivityController.getTaskActivity,
+);
+
+export default router;
@@ -0,0 +1,22 @@
+import Joi from "joi";
+import { TaskActivityAction } from "./activity.type.js";
+
+export const activityListQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  actorId: Joi.string().uuid().optional(),
+  action: Joi.string()
+    .valid(...Object.values(TaskActivityAction))
+    .optional(),
+  dateFrom: Joi.date().iso().optional(),
+  dateTo: Joi.date().iso().optional(),
+});
+
+export const projectActivityParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const taskActivityParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  taskId: Joi.string().uuid().required(),
+});
@@ -0,0 +1,179 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import type {
+  ActivityListQuery,
+  ActivityListResponse,
+  RecordActivityDTO,
+  TaskActivityAction,
+  TaskActivityResponse,
+} from "./activity.type.js";
+
+const mapToActivityResponse = (activity: any): TaskActivityResponse => ({
+  id: activity.id,
+  action: activity.action as TaskActivityAction,
+  field: activity.field ?? undefined,
+  oldValue: activity.oldValue ?? undefined,
+  newValue: activity.newValue ?? undefined,
+  createdAt: activity.createdAt,
+  task: {
+    id: activity.taskId,
+    title: activity.taskTitle,
+  },
+  actor: activity.actor
+    ? {
+        id: activity.actor.id,
+        name: activity.actor.name,
+        email: activity.actor.email,
+        avatarUrl: activity.actor.avatarUrl ?? undefined,
+      }
+    : undefined,
+});
+
+const toJsonValue = (value: unknown): Prisma.InputJsonValue | undefined => {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+};
+
+/**
+ * Lists the fields whose values differ between two snapshots of a task, ready to be recorded
+ * as one activity entry each.
+ */
+export const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: string[],
+): Array<{ field: string; oldValue: unknown; newValue: unknown }> => {
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, oldValue: before[field], newValue: after[field] }));
+};
+
+export const recordActivities = async (entries: RecordActivityDTO[]): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+
+  await prisma.taskActivity.createMany({
+    data: entries.map((entry) => ({
+      projectId: entry.projectId,
+      taskId: entry.taskId,
+      taskTitle: entry.taskTitle,
+      actorId: entry.actorId,
+      action: entry.action,
+      field: entry.field,
+      oldValue: toJsonValue(entry.oldValue),
+      newValue: toJsonValue(entry.newValue),
+    })),
+  });
+};
+
+export const recordActivity = async (entry: RecordActivityDTO): Promise<void> => {
+  await recordActivities([entry]);
+};
+
+const checkActivityAccess = async (projectId: string, userId: string): Promise<void> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  if (project.members.length === 0 && project.ProjectMentor.length === 0) {
+    throw new Error("You are not a member of this project");
+  }
+};
+
+const listActivities = async (
+  where: Prisma.TaskActivityWhereInput,
+  query: ActivityListQuery,
+): Promise<ActivityListResponse> => {
+  const page = query.page || 1;
+  const limit = query.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const filteredWhere: Prisma.TaskActivityWhereInput = {
+    ...where,
+    ...(query.actorId && { actorId: query.actorId }),
+    ...(query.action && { action: query.action }),
+    ...((query.dateFrom || query.dateTo) && {
+      createdAt: {
+        ...(query.dateFrom && { gte: query.dateFrom }),
+        ...(query.dateTo && { lte: query.dateTo }),
+      },
+    }),
+  };
+
+  const [activities, total] = await Promise.all([
+    prisma.taskActivity.findMany({
+      where: filteredWhere,
+      include: {
+        actor: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            avatarUrl: true,
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+      skip,
+      take: limit,
+    }),
+    prisma.taskActivity.count({ where: filteredWhere }),
+  ]);
+
+  return {
+    activities: activities.map(mapToActivityResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+export const getTaskActivity = async (
+  projectId: string,
+  taskId: string,
+  query: ActivityListQuery,
+  userId: string,
+): Promise<ActivityListResponse> => {
+  await checkActivityAccess(projectId, userId);
+
+  // Deleted tasks keep their history, so the task row itself may be gone
+  const hasHistory = await prisma.taskActivity.findFirst({
+    where: { projectId, taskId },
+    select: { id: true },
+  });
+
+  if (!hasHistory) {
+    const task = await prisma.task.findFirst({
+      where: { id: taskId, projectId },
+      select: { id: true },
+    });
+
+    if (!task) {
+      throw new Error("Task not found");
+    }
+  }
+
+  return listActivities({ projectId, taskId }, query);
+};
+
+export const getProjectActivity = async (
+  projectId: string,
+  query: ActivityListQuery,
+  userId: string,
+): Promise<ActivityListResponse> => {
+  await checkActivityAccess(projectId, userId);
+
+  return listActivities({ projectId }, query);
+};
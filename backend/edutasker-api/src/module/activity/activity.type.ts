@@ -0,0 +1,64 @@
+export enum TaskActivityAction {
+  CREATED = "created",
+  UPDATED = "updated",
+  STATUS_CHANGED = "status_changed",
+  ASSIGNEES_CHANGED = "assignees_changed",
+  MOVED = "moved",
+  DELETED = "deleted",
+  COMMENT_ADDED = "comment_added",
+  COMMENT_EDITED = "comment_edited",
+  COMMENT_DELETED = "comment_deleted",
+  DEPENDENCY_ADDED = "dependency_added",
+  DEPENDENCY_REMOVED = "dependency_removed",
+  SUBMITTED_FOR_REVIEW = "submitted_for_review",
+  REVIEW_APPROVED = "review_approved",
+  CHANGES_REQUESTED = "changes_requested",
+  REVIEW_SCORED = "review_scored",
+}
+
+export interface RecordActivityDTO {
+  projectId: string;
+  taskId: string;
+  taskTitle: string;
+  actorId: string;
+  action: TaskActivityAction;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface TaskActivityResponse {
+  id: string;
+  action: TaskActivityAction;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  createdAt: Date;
+  task: {
+    id: string;
+    title: string;
+  };
+  actor?: {
+    id: string;
+    name: string;
+    email: string;
+    avatarUrl?: string;
+  };
+}
+
+export interface ActivityListQuery {
+  page?: number;
+  limit?: number;
+  actorId?: string;
+  action?: TaskActivityAction;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface ActivityListResponse {
+  activities: TaskActivityResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,53 @@
+import type { Request, Response } from "express";
+import * as AnalyticsService from "./analytics.service.js";
+import type { AnalyticsRangeQuery, CumulativeFlowQuery } from "./analytics.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const parseRangeQuery = (req: Request): AnalyticsRangeQuery => ({
+  from: req.query.from ? new Date(req.query.from as string) : undefined,
+  to: req.query.to ? new Date(req.query.to as string) : undefined,
+});
+
+const getBurndownHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await AnalyticsService.getBurndown(projectId, parseRangeQuery(req), userId);
+};
+
+const getCumulativeFlowHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const query: CumulativeFlowQuery = {
+    ...parseRangeQuery(req),
+    groupBy: req.query.groupBy as CumulativeFlowQuery["groupBy"],
+  };
+  return await AnalyticsService.getCumulativeFlow(projectId, query, userId);
+};
+
+const getCycleTimeHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await AnalyticsService.getCycleTime(projectId, parseRangeQuery(req), userId);
+};
+
+export const getBurndown = serviceWrapper(getBurndownHandler, "Burndown retrieved successfully");
+export const getCumulativeFlow = serviceWrapper(
+  getCumulativeFlowHandler,
+  "Cumulative flow retrieved successfully",
+);
+export const getCycleTime = serviceWrapper(
+  getCycleTimeHandler,
+  "Cycle time retrieved successfully",
+);
@@ -0,0 +1,317 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as AnalyticsController from "./analytics.controller.js";
+import {
+  analyticsRangeQuerySchema,
+  cumulativeFlowQuerySchema,
+  projectAnalyticsParamSchema,
+} from "./analytics.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Burndown:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         deadline:
+ *           type: string
+ *           format: date-time
+ *         points:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               remaining:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Open tasks at the end of the day. Null before the first snapshot and after today
+ *               ideal:
+ *                 type: number
+ *                 nullable: true
+ *                 description: Ideal remaining tasks. Null when the project has no deadline
+ *     CumulativeFlow:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         groupBy:
+ *           type: string
+ *           enum: [board, status]
+ *         dates:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: date
+ *         series:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 description: Board ID or status key
+ *               name:
+ *                 type: string
+ *               counts:
+ *                 type: array
+ *                 description: Task count for each entry of `dates`
+ *                 items:
+ *                   type: number
+ *     CycleTime:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         taskCount:
+ *           type: number
+ *         averageHours:
+ *           type: number
+ *           nullable: true
+ *         medianHours:
+ *           type: number
+ *           nullable: true
+ *         tasks:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               taskId:
+ *                 type: string
+ *                 format: uuid
+ *               title:
+ *                 type: string
+ *               startedAt:
+ *                 type: string
+ *                 format: date-time
+ *               completedAt:
+ *                 type: string
+ *                 format: date-time
+ *               hours:
+ *                 type: number
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/analytics/burndown:
+ *   get:
+ *     tags:
+ *       - Analytics
+ *     summary: Get the project's burndown
+ *     description: |
+ *       Remaining open tasks per day from the daily snapshots, next to an ideal line that reaches
+ *       zero on the project deadline. Defaults to the project's creation date up to the deadline
+ *       (or today, whichever is later), limited to one year.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Burndown retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Burndown'
+ *       400:
+ *         description: Bad request - Invalid range, project not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/analytics/burndown",
+  authGuard,
+  validate({ params: projectAnalyticsParamSchema, query: analyticsRangeQuerySchema }),
+  AnalyticsController.getBurndown,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/analytics/cumulative-flow:
+ *   get:
+ *     tags:
+ *       - Analytics
+ *     summary: Get the project's cumulative flow
+ *     description: Task counts per day for each board (or workflow status). Defaults to the last 30 days.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [board, status]
+ *           default: board
+ *     responses:
+ *       200:
+ *         description: Cumulative flow retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/CumulativeFlow'
+ *       400:
+ *         description: Bad request - Invalid range, project not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/analytics/cumulative-flow",
+  authGuard,
+  validate({ params: projectAnalyticsParamSchema, query: cumulativeFlowQuerySchema }),
+  AnalyticsController.getCumulativeFlow,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/analytics/cycle-time:
+ *   get:
+ *     tags:
+ *       - Analytics
+ *     summary: Get the cycle time of completed tasks
+ *     description: |
+ *       For tasks completed in the range, the time from first entering a working status (neither
+ *       the workflow's first status nor a final one, e.g. "doing") to moving into a final status.
+ *       Defaults to the last 30 days.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Cycle time retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/CycleTime'
+ *       400:
+ *         description: Bad request - Invalid range, project not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/analytics/cycle-time",
+  authGuard,
+  validate({ params: projectAnalyticsParamSchema, query: analyticsRangeQuerySchema }),
+  AnalyticsController.getCycleTime,
+);
+
+export default router;
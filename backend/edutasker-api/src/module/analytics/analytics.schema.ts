@@ -0,0 +1,32 @@
+import Joi from "joi";
+
+// Reports cover at most a year of daily points
+const MAX_RANGE_MS = 366 * 24 * 60 * 60 * 1000;
+
+const rangeQuery = {
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+};
+
+const limitRange = (value: { from?: Date; to?: Date }, helpers: Joi.CustomHelpers) => {
+  if (value.from && value.to) {
+    if (value.to < value.from) {
+      return helpers.message({ custom: "to cannot be before from" });
+    }
+    if (value.to.getTime() - value.from.getTime() > MAX_RANGE_MS) {
+      return helpers.message({ custom: "The date range cannot be longer than a year" });
+    }
+  }
+  return value;
+};
+
+export const analyticsRangeQuerySchema = Joi.object(rangeQuery).custom(limitRange);
+
+export const cumulativeFlowQuerySchema = Joi.object({
+  ...rangeQuery,
+  groupBy: Joi.string().valid("board", "status").default("board"),
+}).custom(limitRange);
+
+export const projectAnalyticsParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
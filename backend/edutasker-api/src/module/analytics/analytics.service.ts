@@ -0,0 +1,427 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { config } from "../../config/env.js";
+import { getWorkflowStatuses } from "../workflow/workflow.service.js";
+import type {
+  AnalyticsRangeQuery,
+  BurndownResponse,
+  CumulativeFlowQuery,
+  CumulativeFlowResponse,
+  CumulativeFlowSeries,
+  CycleTimeResponse,
+  TaskCycleTime,
+} from "./analytics.type.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+
+// Snapshots and report days are UTC calendar days
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const listDays = (from: Date, to: Date): Date[] => {
+  const days: Date[] = [];
+  for (let day = startOfDay(from); day <= to; day = new Date(day.getTime() + DAY_MS)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Resolves the report window to whole days. A window without `from` covers the last
+ * `defaultDays` days up to `to`, and windows longer than a year keep their most recent year.
+ */
+const resolveRange = (
+  query: AnalyticsRangeQuery,
+  defaults: { from?: Date; to?: Date; defaultDays?: number } = {},
+): { from: Date; to: Date } => {
+  const to = startOfDay(query.to ?? defaults.to ?? new Date());
+  let from = startOfDay(
+    query.from ??
+      defaults.from ??
+      new Date(to.getTime() - ((defaults.defaultDays ?? DEFAULT_RANGE_DAYS) - 1) * DAY_MS),
+  );
+
+  if (from > to) {
+    from = to;
+  }
+  if ((to.getTime() - from.getTime()) / DAY_MS >= MAX_RANGE_DAYS) {
+    from = new Date(to.getTime() - (MAX_RANGE_DAYS - 1) * DAY_MS);
+  }
+
+  return { from, to };
+};
+
+const checkAnalyticsAccess = async (projectId: string, userId: string) => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  if (project.members.length === 0 && project.ProjectMentor.length === 0) {
+    throw new Error("You are not a member of this project");
+  }
+
+  return project;
+};
+
+type TaskCount = Omit<Prisma.TaskCountSnapshotCreateManyInput, "id" | "createdAt">;
+
+/**
+ * Counts the project's tasks per board and status, in the shape they are snapshotted in.
+ */
+const countTasks = async (projectId: string, day: Date): Promise<TaskCount[]> => {
+  const [counts, boards, statuses] = await Promise.all([
+    prisma.task.groupBy({
+      by: ["boardId", "status"],
+      where: { projectId },
+      _count: { _all: true },
+    }),
+    prisma.board.findMany({
+      where: { projectId },
+      select: { id: true, name: true },
+    }),
+    getWorkflowStatuses(projectId),
+  ]);
+
+  const boardNames = new Map(boards.map((board) => [board.id, board.name]));
+  const finalStatuses = new Set(
+    statuses.filter((status) => status.isFinal).map((status) => status.key),
+  );
+
+  return counts.map((count) => ({
+    projectId,
+    date: day,
+    boardId: count.boardId,
+    boardName: boardNames.get(count.boardId) ?? "",
+    status: count.status,
+    isFinal: finalStatuses.has(count.status),
+    count: count._count._all,
+  }));
+};
+
+/**
+ * Stores today's task counts per board and status for the project. Taking the snapshot again on
+ * the same day replaces it, so the last snapshot of a day is the one that stays. Concurrent
+ * snapshots of the same project are serialized; the one that loses is rejected.
+ */
+export const captureTaskSnapshot = async (projectId: string, date = new Date()): Promise<void> => {
+  const day = startOfDay(date);
+  const counts = await countTasks(projectId, day);
+
+  await prisma.$transaction(
+    [
+      prisma.taskCountSnapshot.deleteMany({ where: { projectId, date: day } }),
+      prisma.taskCountSnapshot.createMany({ data: counts, skipDuplicates: true }),
+    ],
+    { isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+  );
+};
+
+export const captureActiveProjectSnapshots = async (): Promise<number> => {
+  const projects = await prisma.project.findMany({
+    where: { status: "active" },
+    select: { id: true },
+  });
+
+  for (const project of projects) {
+    await captureTaskSnapshot(project.id).catch((error) => {
+      console.error(`Failed to capture task snapshot for project ${project.id}:`, error);
+    });
+  }
+
+  return projects.length;
+};
+
+/**
+ * Snapshots every active project right away and then on a fixed interval. Running it on several
+ * instances is harmless because a day's snapshot is replaced, not added to.
+ */
+export const startSnapshotScheduler = (): NodeJS.Timeout => {
+  const run = () =>
+    captureActiveProjectSnapshots().catch((error) => {
+      console.error("Failed to capture task snapshots:", error);
+    });
+
+  run();
+  const timer = setInterval(run, config.ANALYTICS_SNAPSHOT_INTERVAL * 60 * 1000);
+  timer.unref();
+  return timer;
+};
+
+/**
+ * Groups the snapshots of the window by day. The last snapshot taken before the window stands in
+ * for its first day, so a gap at the start is filled like any other. Today uses live counts, so
+ * reports are current without waiting for the scheduler and reading them never writes.
+ */
+const loadSnapshotsByDay = async (projectId: string, from: Date, to: Date) => {
+  const [snapshots, previous] = await Promise.all([
+    prisma.taskCountSnapshot.findMany({
+      where: { projectId, date: { gte: from, lte: to } },
+      orderBy: { date: "asc" },
+    }),
+    prisma.taskCountSnapshot.findFirst({
+      where: { projectId, date: { lt: from } },
+      orderBy: { date: "desc" },
+      select: { date: true },
+    }),
+  ]);
+
+  const snapshotsByDay = new Map<string, TaskCount[]>();
+  snapshots.forEach((snapshot) => {
+    const key = toDateKey(snapshot.date);
+    snapshotsByDay.set(key, [...(snapshotsByDay.get(key) ?? []), snapshot]);
+  });
+
+  if (previous && !snapshotsByDay.has(toDateKey(from))) {
+    snapshotsByDay.set(
+      toDateKey(from),
+      await prisma.taskCountSnapshot.findMany({ where: { projectId, date: previous.date } }),
+    );
+  }
+
+  const today = startOfDay(new Date());
+  if (today >= from && today <= to) {
+    snapshotsByDay.set(toDateKey(today), await countTasks(projectId, today));
+  }
+
+  return snapshotsByDay;
+};
+
+/**
+ * Remaining open tasks per day against an ideal line that reaches zero on the project deadline.
+ * Days without a snapshot repeat the previous day; days before the first snapshot and after today
+ * have no remaining value.
+ */
+export const getBurndown = async (
+  projectId: string,
+  query: AnalyticsRangeQuery,
+  userId: string,
+): Promise<BurndownResponse> => {
+  const project = await checkAnalyticsAccess(projectId, userId);
+
+  const today = startOfDay(new Date());
+  const deadline = project.deadline ? startOfDay(project.deadline) : undefined;
+  const { from, to } = resolveRange(query, {
+    from: project.createdAt,
+    to: deadline && deadline > today ? deadline : today,
+  });
+
+  const snapshotsByDay = await loadSnapshotsByDay(projectId, from, to);
+  const days = listDays(from, to);
+
+  let remaining: number | null = null;
+  const actual = days.map((day) => {
+    const snapshots = snapshotsByDay.get(toDateKey(day));
+    if (day > today) {
+      return null;
+    }
+    if (snapshots) {
+      remaining = snapshots
+        .filter((snapshot) => !snapshot.isFinal)
+        .reduce((sum, snapshot) => sum + snapshot.count, 0);
+    }
+    return remaining;
+  });
+
+  // The ideal line starts from the first known value and falls linearly until the deadline
+  const startIndex = actual.findIndex((value) => value !== null);
+  const startValue = startIndex >= 0 ? actual[startIndex]! : null;
+  const idealDays =
+    deadline && startIndex >= 0
+      ? Math.round((deadline.getTime() - days[startIndex]!.getTime()) / DAY_MS)
+      : 0;
+
+  return {
+    projectId,
+    from: toDateKey(from),
+    to: toDateKey(to),
+    deadline: project.deadline ?? undefined,
+    points: days.map((day, index) => {
+      let ideal: number | null = null;
+      if (deadline && startValue !== null && index >= startIndex) {
+        ideal =
+          idealDays > 0
+            ? Math.max(0, startValue - (startValue * (index - startIndex)) / idealDays)
+            : 0;
+        ideal = Math.round(ideal * 100) / 100;
+      }
+      return { date: toDateKey(day), remaining: actual[index] ?? null, ideal };
+    }),
+  };
+};
+
+/**
+ * Task counts per day, stacked by board (or by status). Days without a snapshot repeat the
+ * previous day, and days before the first snapshot count zero.
+ */
+export const getCumulativeFlow = async (
+  projectId: string,
+  query: CumulativeFlowQuery,
+  userId: string,
+): Promise<CumulativeFlowResponse> => {
+  await checkAnalyticsAccess(projectId, userId);
+
+  const groupBy = query.groupBy ?? "board";
+  const { from, to } = resolveRange(query);
+  const [snapshotsByDay, boards, statuses] = await Promise.all([
+    loadSnapshotsByDay(projectId, from, to),
+    prisma.board.findMany({
+      where: { projectId },
+      select: { id: true, name: true },
+      orderBy: { order: "asc" },
+    }),
+    getWorkflowStatuses(projectId),
+  ]);
+  const days = listDays(from, to);
+
+  // Current boards and statuses come first in their usual order; removed ones follow
+  const series = new Map<string, CumulativeFlowSeries>();
+  const addSeries = (key: string, name: string) => {
+    if (!series.has(key)) {
+      series.set(key, { key, name, counts: days.map(() => 0) });
+    }
+    return series.get(key)!;
+  };
+  if (groupBy === "board") {
+    boards.forEach((board) => addSeries(board.id, board.name));
+  } else {
+    statuses.forEach((status) => addSeries(status.key, status.name));
+  }
+
+  let previous: { key: string; name: string; count: number }[] = [];
+  days.forEach((day, index) => {
+    const snapshots = snapshotsByDay.get(toDateKey(day));
+    if (snapshots) {
+      previous = snapshots.map((snapshot) =>
+        groupBy === "board"
+          ? { key: snapshot.boardId, name: snapshot.boardName, count: snapshot.count }
+          : { key: snapshot.status, name: snapshot.status, count: snapshot.count },
+      );
+    }
+    previous.forEach((entry) => {
+      addSeries(entry.key, entry.name).counts[index]! += entry.count;
+    });
+  });
+
+  return {
+    projectId,
+    from: toDateKey(from),
+    to: toDateKey(to),
+    groupBy,
+    dates: days.map(toDateKey),
+    series: [...series.values()],
+  };
+};
+
+/**
+ * Measures how long tasks completed in the window took from first entering a working status
+ * (neither the workflow's first status nor a final one) to their last move into a final status.
+ * Tasks that skipped the working statuses are not counted.
+ */
+export const getCycleTime = async (
+  projectId: string,
+  query: AnalyticsRangeQuery,
+  userId: string,
+): Promise<CycleTimeResponse> => {
+  await checkAnalyticsAccess(projectId, userId);
+
+  const { from, to } = resolveRange(query);
+  const until = new Date(to.getTime() + DAY_MS);
+  const statuses = await getWorkflowStatuses(projectId);
+  const finalStatuses = new Set(
+    statuses.filter((status) => status.isFinal).map((status) => status.key),
+  );
+  const workingStatuses = new Set(
+    statuses
+      .slice(1)
+      .filter((status) => !status.isFinal)
+      .map((status) => status.key),
+  );
+
+  const completions = await prisma.taskStatusChange.findMany({
+    where: {
+      projectId,
+      toStatus: { in: [...finalStatuses] },
+      changedAt: { gte: from, lt: until },
+    },
+    orderBy: { changedAt: "asc" },
+  });
+
+  const completedAtByTask = new Map<string, Date>();
+  completions
+    .filter((change) => !change.fromStatus || !finalStatuses.has(change.fromStatus))
+    .forEach((change) => completedAtByTask.set(change.taskId, change.changedAt));
+
+  const [starts, tasks] = await Promise.all([
+    prisma.taskStatusChange.findMany({
+      where: {
+        taskId: { in: [...completedAtByTask.keys()] },
+        toStatus: { in: [...workingStatuses] },
+        changedAt: { lt: until },
+      },
+      orderBy: { changedAt: "asc" },
+    }),
+    prisma.task.findMany({
+      where: { id: { in: [...completedAtByTask.keys()] } },
+      select: { id: true, title: true },
+    }),
+  ]);
+
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  const startedAtByTask = new Map<string, Date>();
+  starts.forEach((change) => {
+    const completedAt = completedAtByTask.get(change.taskId);
+    if (completedAt && change.changedAt <= completedAt && !startedAtByTask.has(change.taskId)) {
+      startedAtByTask.set(change.taskId, change.changedAt);
+    }
+  });
+
+  const cycleTimes: TaskCycleTime[] = [...startedAtByTask.entries()]
+    .map(([taskId, startedAt]) => {
+      const completedAt = completedAtByTask.get(taskId)!;
+      return {
+        taskId,
+        title: titles.get(taskId) ?? "",
+        startedAt,
+        completedAt,
+        hours: Math.round(((completedAt.getTime() - startedAt.getTime()) / HOUR_MS) * 10) / 10,
+      };
+    })
+    .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime());
+
+  const sortedHours = cycleTimes.map((cycleTime) => cycleTime.hours).sort((a, b) => a - b);
+  const middle = Math.floor(sortedHours.length / 2);
+  const medianHours =
+    sortedHours.length === 0
+      ? null
+      : sortedHours.length % 2 === 1
+        ? sortedHours[middle]!
+        : (sortedHours[middle - 1]! + sortedHours[middle]!) / 2;
+
+  return {
+    projectId,
+    from: toDateKey(from),
+    to: toDateKey(to),
+    taskCount: cycleTimes.length,
+    averageHours:
+      sortedHours.length > 0
+        ? Math.round(
+            (sortedHours.reduce((sum, hours) => sum + hours, 0) / sortedHours.length) * 10,
+          ) / 10
+        : null,
+    medianHours: medianHours === null ? null : Math.round(medianHours * 10) / 10,
+    tasks: cycleTimes,
+  };
+};
@@ -0,0 +1,62 @@
+export interface RecordStatusChangeDTO {
+  projectId: string;
+  taskId: string;
+  fromStatus: string | null;
+  toStatus: string;
+}
+
+export interface AnalyticsRangeQuery {
+  from?: Date;
+  to?: Date;
+}
+
+export interface CumulativeFlowQuery extends AnalyticsRangeQuery {
+  groupBy?: "board" | "status";
+}
+
+export interface BurndownPoint {
+  date: string;
+  remaining: number | null;
+  ideal: number | null;
+}
+
+export interface BurndownResponse {
+  projectId: string;
+  from: string;
+  to: string;
+  deadline?: Date;
+  points: BurndownPoint[];
+}
+
+export interface CumulativeFlowSeries {
+  key: string;
+  name: string;
+  counts: number[];
+}
+
+export interface CumulativeFlowResponse {
+  projectId: string;
+  from: string;
+  to: string;
+  groupBy: "board" | "status";
+  dates: string[];
+  series: CumulativeFlowSeries[];
+}
+
+export interface TaskCycleTime {
+  taskId: string;
+  title: string;
+  startedAt: Date;
+  completedAt: Date;
+  hours: number;
+}
+
+export interface CycleTimeResponse {
+  projectId: string;
+  from: string;
+  to: string;
+  taskCount: number;
+  averageHours: number | null;
+  medianHours: number | null;
+  tasks: TaskCycleTime[];
+}
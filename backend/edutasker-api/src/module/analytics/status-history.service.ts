@@ -0,0 +1,27 @@
+import { prisma } from "../../config/database.js";
+import type { RecordStatusChangeDTO } from "./analytics.type.js";
+
+/**
+ * Appends status changes to the task's status history, which the cycle time report reads.
+ * Kept apart from the analytics service so the task, board and workflow services can record
+ * changes without importing the reports.
+ */
+export const recordStatusChanges = async (entries: RecordStatusChangeDTO[]): Promise<void> => {
+  const changes = entries.filter((entry) => entry.fromStatus !== entry.toStatus);
+  if (changes.length === 0) {
+    return;
+  }
+
+  await prisma.taskStatusChange.createMany({
+    data: changes.map((change) => ({
+      projectId: change.projectId,
+      taskId: change.taskId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+    })),
+  });
+};
+
+export const recordStatusChange = async (entry: RecordStatusChangeDTO): Promise<void> => {
+  await recordStatusChanges([entry]);
+};
@@ -0,0 +1,46 @@
+import type { Request, Response } from "express";
+import * as ArchiveService from "./archive.service.js";
+import type { CloneProjectDTO, ImportProjectDTO } from "./archive.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const exportProjectHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const { archive, filename } = await ArchiveService.exportProject(projectId, userId);
+  const buffer = Buffer.from(JSON.stringify(archive, null, 2));
+
+  res.set({
+    "Content-Type": "application/json",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Content-Length": buffer.length.toString(),
+  });
+
+  return buffer;
+};
+
+const importProjectHandler = async (req: Request, res: Response) => {
+  const file = (req as any).file;
+  const data: ImportProjectDTO = req.body;
+  const userId = (req as any).user.id;
+
+  return await ArchiveService.importProject(file.buffer, data, userId);
+};
+
+const cloneProjectHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const data: CloneProjectDTO = req.body;
+  const userId = (req as any).user.id;
+  return await ArchiveService.cloneProject(projectId, data, userId);
+};
+
+export const exportProject = serviceWrapper(exportProjectHandler, "Project exported successfully");
+export const importProject = serviceWrapper(importProjectHandler, "Project imported successfully");
+export const cloneProject = serviceWrapper(cloneProjectHandler, "Project cloned successfully");
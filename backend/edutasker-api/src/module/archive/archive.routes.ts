@@ -0,0 +1,337 @@
+import { Router } from "express";
+import { authGuard, rateLimit, RateLimitBudgets, validate } from "../../middleware/index.js";
+import {
+  handleProjectArchiveUpload,
+  PROJECT_ARCHIVE_MAX_SIZE,
+} from "../../middleware/upload.middleware.js";
+import { validateFileUpload } from "../../middleware/validate-multipart.middleware.js";
+import * as ArchiveController from "./archive.controller.js";
+import {
+  cloneProjectSchema,
+  importProjectSchema,
+  projectArchiveParamSchema,
+} from "./archive.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ProjectArchive:
+ *       type: object
+ *       description: |
+ *         Portable copy of a project. Records reference each other through `ref` (their ID on the
+ *         exporting server) and users through their email.
+ *       properties:
+ *         version:
+ *           type: number
+ *           description: Archive layout version
+ *           example: 1
+ *         exportedAt:
+ *           type: string
+ *           format: date-time
+ *         project:
+ *           type: object
+ *           properties:
+ *             name:
+ *               type: string
+ *             description:
+ *               type: string
+ *             status:
+ *               type: string
+ *             deadline:
+ *               type: string
+ *               format: date-time
+ *         members:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *         mentors:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *         workflowStatuses:
+ *           type: array
+ *           items:
+ *             type: object
+ *         boards:
+ *           type: array
+ *           items:
+ *             type: object
+ *         boardTransitions:
+ *           type: array
+ *           items:
+ *             type: object
+ *         milestones:
+ *           type: array
+ *           items:
+ *             type: object
+ *         rubricCriteria:
+ *           type: array
+ *           items:
+ *             type: object
+ *         tasks:
+ *           type: array
+ *           items:
+ *             type: object
+ *             description: Task with its assignee emails and checklist
+ *         dependencies:
+ *           type: array
+ *           items:
+ *             type: object
+ *         comments:
+ *           type: array
+ *           items:
+ *             type: object
+ *         files:
+ *           type: array
+ *           description: Attachment metadata; the files themselves stay in storage
+ *           items:
+ *             type: object
+ *     ProjectImportResult:
+ *       type: object
+ *       properties:
+ *         project:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *         archiveVersion:
+ *           type: number
+ *           description: Version of the uploaded archive before it was upgraded
+ *         imported:
+ *           type: object
+ *           properties:
+ *             boards:
+ *               type: number
+ *             milestones:
+ *               type: number
+ *             tasks:
+ *               type: number
+ *             comments:
+ *               type: number
+ *             files:
+ *               type: number
+ *         unmatchedUsers:
+ *           type: array
+ *           description: Emails not matched to a user here, either without an account or because the archive does not come from a project the importing user can export. Their assignments were dropped and their work credited to the importing user
+ *           items:
+ *             type: string
+ *         skippedFiles:
+ *           type: array
+ *           description: Attachments whose files could not be copied from storage
+ *           items:
+ *             type: string
+ *         metadataOnlyFiles:
+ *           type: array
+ *           description: Attachments imported without their files, because the archive's project is not on this server or the importing user cannot access it
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @openapi
+ * /projects/import:
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Import a project from an archive
+ *     description: |
+ *       Recreates a project from an archive produced by `GET /projects/{projectId}/export`, with new
+ *       IDs. Archives of older versions are upgraded first. Users are matched by email: unknown
+ *       users are left out, so their tasks end up unassigned and their comments are attributed to
+ *       the importing user, who becomes the project leader. Attachment files are copied when they
+ *       are still in storage.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Project archive (.json, max 20MB)
+ *               name:
+ *                 type: string
+ *                 description: Name of the new project. Defaults to the archived name
+ *     responses:
+ *       200:
+ *         description: Project imported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ProjectImportResult'
+ *       400:
+ *         description: Bad request - Invalid file, invalid archive or unsupported archive version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/import",
+  authGuard,
+  rateLimit(RateLimitBudgets.IMPORT),
+  handleProjectArchiveUpload,
+  validateFileUpload(
+    true,
+    ["application/json", "application/octet-stream"],
+    PROJECT_ARCHIVE_MAX_SIZE,
+  ),
+  validate({ body: importProjectSchema }),
+  ArchiveController.importProject,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/export:
+ *   get:
+ *     tags:
+ *       - Projects
+ *     summary: Export a project as an archive
+ *     description: |
+ *       Downloads the project's workflow, boards, milestones, rubric, tasks (with assignees,
+ *       checklists and dependencies), comments and attachment metadata as a JSON archive. Only
+ *       project leaders and mentors can export a project.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     responses:
+ *       200:
+ *         description: Project archive
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ProjectArchive'
+ *       400:
+ *         description: Bad request - Project not found or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/export",
+  authGuard,
+  validate({ params: projectArchiveParamSchema }),
+  ArchiveController.exportProject,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/clone:
+ *   post:
+ *     tags:
+ *       - Projects
+ *     summary: Clone a project
+ *     description: |
+ *       Creates a copy of the project's workflow, boards, milestones and rubric, optionally with
+ *       its tasks (including checklists and dependencies) and its members and mentors. Comments
+ *       and attachments are not copied. The cloning user becomes the leader of the copy. Only
+ *       project leaders and mentors can clone a project.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 description: Name of the copy. Defaults to the original name
+ *               includeTasks:
+ *                 type: boolean
+ *                 default: true
+ *               includeMembers:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Project cloned successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ProjectImportResult'
+ *       400:
+ *         description: Bad request - Project not found or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/clone",
+  authGuard,
+  validate({ params: projectArchiveParamSchema, body: cloneProjectSchema }),
+  ArchiveController.cloneProject,
+);
+
+export default router;
@@ -0,0 +1,155 @@
+import Joi from "joi";
+import { PROJECT_ARCHIVE_VERSION } from "./archive.type.js";
+
+export const projectArchiveParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const importProjectSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+});
+
+export const cloneProjectSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  includeTasks: Joi.boolean().default(true),
+  includeMembers: Joi.boolean().default(false),
+});
+
+const ref = Joi.string().min(1).max(255);
+const email = Joi.string().email().max(255);
+
+const memberSchema = Joi.object({
+  email: email.required(),
+  role: Joi.string().max(50).required(),
+});
+
+/**
+ * Validates an archive after it has been upgraded to the current version. Unknown keys are
+ * tolerated so hand-edited archives with extra notes still load.
+ */
+export const projectArchiveSchema = Joi.object({
+  version: Joi.number().integer().valid(PROJECT_ARCHIVE_VERSION).required(),
+  exportedAt: Joi.date().iso().required(),
+  project: Joi.object({
+    ref: ref.optional(),
+    name: Joi.string().min(1).max(255).required(),
+    description: Joi.string().max(1000).allow("").optional(),
+    status: Joi.string().valid("active", "completed", "cancelled", "on-hold").required(),
+    deadline: Joi.date().iso().optional(),
+  })
+    .unknown(true)
+    .required(),
+  members: Joi.array().items(memberSchema).default([]),
+  mentors: Joi.array().items(memberSchema).default([]),
+  workflowStatuses: Joi.array()
+    .items(
+      Joi.object({
+        key: Joi.string().min(1).max(50).required(),
+        name: Joi.string().min(1).max(100).required(),
+        order: Joi.number().integer().min(0).required(),
+        isFinal: Joi.boolean().required(),
+      }).unknown(true),
+    )
+    .min(1)
+    .unique("key")
+    .required(),
+  boards: Joi.array()
+    .items(
+      Joi.object({
+        ref: ref.required(),
+        name: Joi.string().min(1).max(255).required(),
+        order: Joi.number().integer().min(0).required(),
+        wipLimit: Joi.number().integer().min(0).optional().allow(null),
+        statusKey: Joi.string().optional(),
+      }).unknown(true),
+    )
+    .min(1)
+    .unique("ref")
+    .unique("order")
+    .required(),
+  boardTransitions: Joi.array()
+    .items(Joi.object({ fromBoard: ref.required(), toBoard: ref.required() }).unknown(true))
+    .default([]),
+  milestones: Joi.array()
+    .items(
+      Joi.object({
+        ref: ref.required(),
+        name: Joi.string().min(1).max(255).required(),
+        goal: Joi.string().max(2000).allow("").optional(),
+        startDate: Joi.date().iso().required(),
+        endDate: Joi.date().iso().min(Joi.ref("startDate")).required(),
+      }).unknown(true),
+    )
+    .unique("ref")
+    .default([]),
+  rubricCriteria: Joi.array()
+    .items(
+      Joi.object({
+        name: Joi.string().min(1).max(255).required(),
+        description: Joi.string().max(2000).allow("").optional(),
+        maxScore: Joi.number().integer().min(1).required(),
+        order: Joi.number().integer().min(0).required(),
+      }).unknown(true),
+    )
+    .default([]),
+  tasks: Joi.array()
+    .items(
+      Joi.object({
+        ref: ref.required(),
+        title: Joi.string().min(1).max(255).required(),
+        description: Joi.string().allow("").optional(),
+        status: Joi.string().required(),
+        priority: Joi.string().valid("LOW", "MEDIUM", "HIGH", "CRITICAL").required(),
+        dueDate: Joi.date().iso().optional(),
+        board: ref.required(),
+        order: Joi.number().integer().min(0).required(),
+        parentTask: ref.optional(),
+        milestone: ref.optional(),
+        createdBy: email.optional(),
+        assignees: Joi.array().items(email).default([]),
+        checklist: Joi.array()
+          .items(
+            Joi.object({
+              title: Joi.string().min(1).max(255).required(),
+              isDone: Joi.boolean().required(),
+              order: Joi.number().integer().min(0).required(),
+              assignee: email.optional(),
+            }).unknown(true),
+          )
+          .default([]),
+        createdAt: Joi.date().iso().optional(),
+      }).unknown(true),
+    )
+    .unique("ref")
+    .default([]),
+  dependencies: Joi.array()
+    .items(Joi.object({ task: ref.required(), blockingTask: ref.required() }).unknown(true))
+    .default([]),
+  comments: Joi.array()
+    .items(
+      Joi.object({
+        ref: ref.required(),
+        task: ref.required(),
+        parent: ref.optional(),
+        author: email.required(),
+        content: Joi.string().min(1).required(),
+        createdAt: Joi.date().iso().required(),
+        editedAt: Joi.date().iso().optional(),
+      }).unknown(true),
+    )
+    .unique("ref")
+    .default([]),
+  files: Joi.array()
+    .items(
+      Joi.object({
+        task: ref.optional(),
+        fileName: Joi.string().min(1).max(255).required(),
+        contentType: Joi.string().max(255).required(),
+        size: Joi.number().integer().min(0).required(),
+        key: Joi.string().min(1).required(),
+        uploadedBy: email.optional(),
+        createdAt: Joi.date().iso().optional(),
+      }).unknown(true),
+    )
+    .default([]),
+}).unknown(true);
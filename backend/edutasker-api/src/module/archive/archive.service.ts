@@ -0,0 +1,709 @@
+import { randomUUID } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { recordStatusChanges } from "../analytics/status-history.service.js";
+import {
+  allocateAttachmentKey,
+  copyAttachmentObject,
+  deleteObjectsByKey,
+  isProjectAttachmentKey,
+} from "../attachment/attachment.service.js";
+import { renderMarkdown } from "../markdown/markdown.service.js";
+import { applyDefaultPermissions } from "../project/project.service.js";
+import { ProjectRole } from "../project/project.type.js";
+import { projectArchiveSchema } from "./archive.schema.js";
+import {
+  PROJECT_ARCHIVE_VERSION,
+  type ArchivedTask,
+  type CloneProjectDTO,
+  type ImportProjectDTO,
+  type ProjectArchive,
+  type ProjectImportResult,
+} from "./archive.type.js";
+
+/**
+ * Upgrades from each older archive version to the next one, keyed by the version they read.
+ * An archive is passed through every step from its own version up to the current one.
+ */
+const ARCHIVE_UPGRADES: Record<number, (archive: any) => any> = {};
+
+const TASK_REFERENCE_PATTERN =
+  /#([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?![\w-])/gi;
+
+const toIsoString = (date: Date | null | undefined): string | undefined =>
+  date ? date.toISOString() : undefined;
+
+const assertCanExport = async (projectId: string, userId: string): Promise<void> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const member = project.members[0];
+  const isMentor = project.ProjectMentor.length > 0;
+  if (!isMentor && member?.role.toUpperCase() !== ProjectRole.LEADER) {
+    throw new Error("Only project leaders and mentors can export a project");
+  }
+};
+
+export const exportProject = async (
+  projectId: string,
+  userId: string,
+): Promise<{ archive: ProjectArchive; filename: string }> => {
+  await assertCanExport(projectId, userId);
+
+  const emailSelect = { select: { email: true } } as const;
+  const [project, comments] = await Promise.all([
+    prisma.project.findUniqueOrThrow({
+      where: { id: projectId },
+      include: {
+        members: { include: { user: emailSelect }, orderBy: { joinedAt: "asc" } },
+        ProjectMentor: { include: { user: emailSelect }, orderBy: { joinedAt: "asc" } },
+        workflowStatuses: { orderBy: [{ order: "asc" }, { createdAt: "asc" }] },
+        Board: { include: { outgoingTransitions: true }, orderBy: { order: "asc" } },
+        milestones: { orderBy: [{ startDate: "asc" }, { createdAt: "asc" }] },
+        rubricCriteria: { orderBy: [{ order: "asc" }, { createdAt: "asc" }] },
+        tasks: {
+          include: {
+            createdBy: emailSelect,
+            assignees: { include: { user: emailSelect } },
+            checklistItems: { include: { assignee: emailSelect }, orderBy: { order: "asc" } },
+            blockedBy: true,
+          },
+          orderBy: [{ boardId: "asc" }, { order: "asc" }],
+        },
+        files: { include: { uploadedBy: emailSelect }, orderBy: { createdAt: "asc" } },
+      },
+    }),
+    prisma.comment.findMany({
+      where: { task: { projectId } },
+      include: { user: emailSelect },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const statusKeyById = new Map(project.workflowStatuses.map((status) => [status.id, status.key]));
+
+  const archive: ProjectArchive = {
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      ref: project.id,
+      name: project.name,
+      description: project.description ?? undefined,
+      status: project.status,
+      deadline: toIsoString(project.deadline),
+    },
+    members: project.members.map((member) => ({ email: member.user.email, role: member.role })),
+    mentors: project.ProjectMentor.map((mentor) => ({
+      email: mentor.user.email,
+      role: mentor.role,
+    })),
+    workflowStatuses: project.workflowStatuses.map((status) => ({
+      key: status.key,
+      name: status.name,
+      order: status.order,
+      isFinal: status.isFinal,
+    })),
+    boards: project.Board.map((board) => ({
+      ref: board.id,
+      name: board.name,
+      order: board.order,
+      wipLimit: board.wipLimit ?? undefined,
+      statusKey: board.statusId ? statusKeyById.get(board.statusId) : undefined,
+    })),
+    boardTransitions: project.Board.flatMap((board) =>
+      board.outgoingTransitions.map((transition) => ({
+        fromBoard: transition.fromBoardId,
+        toBoard: transition.toBoardId,
+      })),
+    ),
+    milestones: project.milestones.map((milestone) => ({
+      ref: milestone.id,
+      name: milestone.name,
+      goal: milestone.goal ?? undefined,
+      startDate: milestone.startDate.toISOString(),
+      endDate: milestone.endDate.toISOString(),
+    })),
+    rubricCriteria: project.rubricCriteria.map((criterion) => ({
+      name: criterion.name,
+      description: criterion.description ?? undefined,
+      maxScore: criterion.maxScore,
+      order: criterion.order,
+    })),
+    tasks: project.tasks.map((task) => ({
+      ref: task.id,
+      title: task.title,
+      description: task.description ?? undefined,
+      status: task.status,
+      priority: task.priority,
+      dueDate: toIsoString(task.dueDate),
+      board: task.boardId,
+      order: task.order,
+      parentTask: task.parentTaskId ?? undefined,
+      milestone: task.milestoneId ?? undefined,
+      createdBy: task.createdBy?.email,
+      assignees: task.assignees.map((assignee) => assignee.user.email),
+      checklist: task.checklistItems.map((item) => ({
+        title: item.title,
+        isDone: item.isDone,
+        order: item.order,
+        assignee: item.assignee?.email,
+      })),
+      createdAt: task.createdAt.toISOString(),
+    })),
+    dependencies: project.tasks.flatMap((task) =>
+      task.blockedBy.map((dependency) => ({
+        task: dependency.taskId,
+        blockingTask: dependency.blockingTaskId,
+      })),
+    ),
+    comments: comments.map((comment) => ({
+      ref: comment.id,
+      task: comment.taskId,
+      parent: comment.parentId ?? undefined,
+      author: comment.user.email,
+      // Deleted thread roots keep their place so the replies still have a parent
+      content: comment.deletedAt ? "*Comment deleted*" : comment.content,
+      createdAt: comment.createdAt.toISOString(),
+      editedAt: toIsoString(comment.editedAt),
+    })),
+    files: project.files.map((file) => ({
+      task: file.taskId ?? undefined,
+      fileName: file.fileName,
+      contentType: file.contentType,
+      size: file.size,
+      key: file.key,
+      uploadedBy: file.uploadedBy?.email,
+      createdAt: file.createdAt.toISOString(),
+    })),
+  };
+
+  const slug = project.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return { archive, filename: `${slug || "project"}-export.json` };
+};
+
+/**
+ * Brings an archive of any supported version up to the current layout and validates it.
+ */
+const upgradeArchive = (raw: any): ProjectArchive => {
+  if (!raw || typeof raw !== "object" || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error("Invalid archive: missing or invalid version");
+  }
+
+  if (raw.version > PROJECT_ARCHIVE_VERSION) {
+    throw new Error(
+      `Archive version ${raw.version} is newer than the supported version ${PROJECT_ARCHIVE_VERSION}`,
+    );
+  }
+
+  let archive = raw;
+  for (let version = raw.version; version < PROJECT_ARCHIVE_VERSION; version++) {
+    const upgrade = ARCHIVE_UPGRADES[version];
+    if (!upgrade) {
+      throw new Error(`Archive version ${raw.version} is no longer supported`);
+    }
+    archive = { ...upgrade(archive), version: version + 1 };
+  }
+
+  const { value, error } = projectArchiveSchema.validate(archive);
+  if (error) {
+    throw new Error(`Invalid archive: ${error.message}`);
+  }
+
+  return value as ProjectArchive;
+};
+
+const assertArchiveReferences = (archive: ProjectArchive): void => {
+  const statusKeys = new Set(archive.workflowStatuses.map((status) => status.key));
+  const boardRefs = new Set(archive.boards.map((board) => board.ref));
+  const milestoneRefs = new Set(archive.milestones.map((milestone) => milestone.ref));
+  const taskRefs = new Set(archive.tasks.map((task) => task.ref));
+  const commentRefs = new Set(archive.comments.map((comment) => comment.ref));
+
+  const requireRef = (refs: Set<string>, ref: string | undefined, description: string) => {
+    if (ref !== undefined && !refs.has(ref)) {
+      throw new Error(`Invalid archive: ${description} "${ref}" does not exist`);
+    }
+  };
+
+  archive.boards.forEach((board) => requireRef(statusKeys, board.statusKey, "status"));
+  archive.boardTransitions.forEach((transition) => {
+    requireRef(boardRefs, transition.fromBoard, "board");
+    requireRef(boardRefs, transition.toBoard, "board");
+  });
+
+  const boardPositions = new Set<string>();
+  archive.tasks.forEach((task) => {
+    requireRef(statusKeys, task.status, "status");
+    requireRef(boardRefs, task.board, "board");
+    requireRef(taskRefs, task.parentTask, "parent task");
+    requireRef(milestoneRefs, task.milestone, "milestone");
+
+    const position = `${task.board}:${task.order}`;
+    if (boardPositions.has(position)) {
+      throw new Error(`Invalid archive: two tasks share position ${task.order} on one board`);
+    }
+    boardPositions.add(position);
+  });
+
+  archive.dependencies.forEach((dependency) => {
+    requireRef(taskRefs, dependency.task, "task");
+    requireRef(taskRefs, dependency.blockingTask, "task");
+  });
+  archive.comments.forEach((comment) => {
+    requireRef(taskRefs, comment.task, "task");
+    requireRef(commentRefs, comment.parent, "comment");
+  });
+  archive.files.forEach((file) => requireRef(taskRefs, file.task, "task"));
+};
+
+const collectEmails = (archive: ProjectArchive): string[] => {
+  const emails = new Set<string>([
+    ...archive.members.map((member) => member.email),
+    ...archive.mentors.map((mentor) => mentor.email),
+    ...archive.comments.map((comment) => comment.author),
+  ]);
+
+  archive.tasks.forEach((task) => {
+    if (task.createdBy) emails.add(task.createdBy);
+    task.assignees.forEach((email) => emails.add(email));
+    task.checklist.forEach((item) => item.assignee && emails.add(item.assignee));
+  });
+  archive.files.forEach((file) => file.uploadedBy && emails.add(file.uploadedBy));
+
+  return [...emails];
+};
+
+/**
+ * Returns the archive's source project when it exists here and the importing user could export it.
+ * Only then are its attachment objects copied and its people matched by email; any other archive
+ * is just a file someone uploaded, so its emails and keys are not trusted.
+ */
+const findTrustedSourceProject = async (
+  archive: ProjectArchive,
+  userId: string,
+): Promise<string | null> => {
+  const sourceProjectId = archive.project.ref;
+  if (!sourceProjectId) {
+    return null;
+  }
+
+  const project = await prisma.project.findFirst({
+    where: {
+      id: sourceProjectId,
+      OR: [
+        {
+          members: { some: { userId, role: { equals: ProjectRole.LEADER, mode: "insensitive" } } },
+        },
+        { ProjectMentor: { some: { userId } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  return project?.id ?? null;
+};
+
+/**
+ * Maps archive emails to users. Apart from the importing user, only members and mentors of a
+ * trusted source project are matched, so an uploaded archive cannot speak for anyone else.
+ */
+const matchArchiveUsers = async (
+  emails: string[],
+  sourceProjectId: string | null,
+  userId: string,
+): Promise<Map<string, string>> => {
+  const users = await prisma.user.findMany({
+    where: {
+      email: { in: emails },
+      OR: [
+        { id: userId },
+        ...(sourceProjectId
+          ? [
+              { projectMembers: { some: { projectId: sourceProjectId } } },
+              { ProjectMentor: { some: { projectId: sourceProjectId } } },
+            ]
+          : []),
+      ],
+    },
+    select: { id: true, email: true },
+  });
+
+  return new Map(users.map((user) => [user.email, user.id]));
+};
+
+const populateProject = async (
+  projectId: string,
+  archive: ProjectArchive,
+  userIdByEmail: Map<string, string>,
+  userId: string,
+  source: { projectId: string | null; copiedKeys: string[] },
+) => {
+  // Members
+  const roleByUserId = new Map<string, string>([[userId, ProjectRole.LEADER]]);
+  archive.members.forEach((member) => {
+    const memberId = userIdByEmail.get(member.email);
+    if (memberId && !roleByUserId.has(memberId)) {
+      const role = member.role.toUpperCase();
+      roleByUserId.set(memberId, role === ProjectRole.LEADER ? role : ProjectRole.MEMBER);
+    }
+  });
+
+  await prisma.projectMember.createMany({
+    data: [...roleByUserId].map(([memberId, role]) => ({ projectId, userId: memberId, role })),
+  });
+  for (const [memberId, role] of roleByUserId) {
+    await applyDefaultPermissions(projectId, memberId, role);
+  }
+
+  const mentorIds = new Map<string, string>();
+  archive.mentors.forEach((mentor) => {
+    const mentorId = userIdByEmail.get(mentor.email);
+    if (mentorId) {
+      mentorIds.set(mentorId, mentor.role);
+    }
+  });
+  await prisma.projectMentor.createMany({
+    data: [...mentorIds].map(([mentorId, role]) => ({ projectId, userId: mentorId, role })),
+  });
+
+  // Assignments only make sense for members of the new project
+  const memberIdOf = (email: string | undefined): string | undefined => {
+    const id = email ? userIdByEmail.get(email) : undefined;
+    return id && roleByUserId.has(id) ? id : undefined;
+  };
+
+  // Workflow, boards and milestones
+  const statusIdByKey = new Map(
+    archive.workflowStatuses.map((status) => [status.key, randomUUID()]),
+  );
+  await prisma.workflowStatus.createMany({
+    data: archive.workflowStatuses.map((status) => ({
+      id: statusIdByKey.get(status.key)!,
+      projectId,
+      key: status.key,
+      name: status.name,
+      order: status.order,
+      isFinal: status.isFinal,
+    })),
+  });
+
+  const boardIdByRef = new Map(archive.boards.map((board) => [board.ref, randomUUID()]));
+  await prisma.board.createMany({
+    data: archive.boards.map((board) => ({
+      id: boardIdByRef.get(board.ref)!,
+      projectId,
+      name: board.name,
+      order: board.order,
+      wipLimit: board.wipLimit,
+      statusId: board.statusKey ? statusIdByKey.get(board.statusKey) : undefined,
+    })),
+  });
+  await prisma.boardTransition.createMany({
+    data: archive.boardTransitions.map((transition) => ({
+      fromBoardId: boardIdByRef.get(transition.fromBoard)!,
+      toBoardId: boardIdByRef.get(transition.toBoard)!,
+    })),
+    skipDuplicates: true,
+  });
+
+  const milestoneIdByRef = new Map(
+    archive.milestones.map((milestone) => [milestone.ref, randomUUID()]),
+  );
+  await prisma.milestone.createMany({
+    data: archive.milestones.map((milestone) => ({
+      id: milestoneIdByRef.get(milestone.ref)!,
+      projectId,
+      name: milestone.name,
+      goal: milestone.goal || undefined,
+      startDate: milestone.startDate,
+      endDate: milestone.endDate,
+    })),
+  });
+
+  await prisma.rubricCriterion.createMany({
+    data: archive.rubricCriteria.map((criterion) => ({
+      projectId,
+      name: criterion.name,
+      description: criterion.description || undefined,
+      maxScore: criterion.maxScore,
+      order: criterion.order,
+    })),
+  });
+
+  // Tasks
+  const taskIdByRef = new Map(archive.tasks.map((task) => [task.ref, randomUUID()]));
+  const rewriteTaskReferences = (source: string): string =>
+    source.replace(TASK_REFERENCE_PATTERN, (match, ref: string) => {
+      const taskId = taskIdByRef.get(ref) ?? taskIdByRef.get(ref.toLowerCase());
+      return taskId ? `#${taskId}` : match;
+    });
+
+  // Tasks of creators who are not matched are credited to the importing user
+  const creatorIdOf = (task: ArchivedTask) =>
+    (task.createdBy && userIdByEmail.get(task.createdBy)) || userId;
+  const descriptionOf = (task: ArchivedTask): string | undefined => {
+    const description =
+      task.createdBy && !userIdByEmail.has(task.createdBy)
+        ? `*Originally created by ${task.createdBy}*\n\n${task.description ?? ""}`.trim()
+        : task.description;
+    return description ? rewriteTaskReferences(description) : undefined;
+  };
+
+  await prisma.task.createMany({
+    data: archive.tasks.map((task) => ({
+      id: taskIdByRef.get(task.ref)!,
+      projectId,
+      title: task.title,
+      description: descriptionOf(task),
+      status: task.status,
+      priority: task.priority,
+      dueDate: task.dueDate,
+      boardId: boardIdByRef.get(task.board)!,
+      order: task.order,
+      parentTaskId: task.parentTask ? taskIdByRef.get(task.parentTask) : undefined,
+      milestoneId: task.milestone ? milestoneIdByRef.get(task.milestone) : undefined,
+      createdById: creatorIdOf(task),
+    })),
+  });
+
+  await prisma.taskAssignee.createMany({
+    data: archive.tasks.flatMap((task) =>
+      task.assignees
+        .map(memberIdOf)
+        .filter((assigneeId): assigneeId is string => !!assigneeId)
+        .map((assigneeId) => ({ taskId: taskIdByRef.get(task.ref)!, userId: assigneeId })),
+    ),
+    skipDuplicates: true,
+  });
+
+  const now = new Date();
+  await prisma.checklistItem.createMany({
+    data: archive.tasks.flatMap((task) =>
+      task.checklist.map((item) => ({
+        taskId: taskIdByRef.get(task.ref)!,
+        title: item.title,
+        isDone: item.isDone,
+        order: item.order,
+        completedAt: item.isDone ? now : undefined,
+        assigneeId: memberIdOf(item.assignee),
+      })),
+    ),
+  });
+
+  await prisma.taskDependency.createMany({
+    data: archive.dependencies
+      .filter((dependency) => dependency.task !== dependency.blockingTask)
+      .map((dependency) => ({
+        taskId: taskIdByRef.get(dependency.task)!,
+        blockingTaskId: taskIdByRef.get(dependency.blockingTask)!,
+        createdById: userId,
+      })),
+    skipDuplicates: true,
+  });
+
+  await recordStatusChanges(
+    archive.tasks.map((task) => ({
+      projectId,
+      taskId: taskIdByRef.get(task.ref)!,
+      fromStatus: null,
+      toStatus: task.status,
+    })),
+  );
+
+  // References resolve against the imported tasks and members, so render once they exist
+  for (const task of archive.tasks) {
+    const description = descriptionOf(task);
+    if (description) {
+      const { html, references } = await renderMarkdown(projectId, description);
+      await prisma.task.update({
+        where: { id: taskIdByRef.get(task.ref)! },
+        data: {
+          descriptionHtml: html,
+          descriptionReferences: references as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+  }
+
+  // Comments
+  const commentIdByRef = new Map(archive.comments.map((comment) => [comment.ref, randomUUID()]));
+  const comments: Prisma.CommentCreateManyInput[] = [];
+  for (const comment of archive.comments) {
+    const authorId = userIdByEmail.get(comment.author);
+    const content = rewriteTaskReferences(
+      authorId ? comment.content : `*Originally posted by ${comment.author}*\n\n${comment.content}`,
+    );
+    const { html, references } = await renderMarkdown(projectId, content);
+
+    comments.push({
+      id: commentIdByRef.get(comment.ref)!,
+      taskId: taskIdByRef.get(comment.task)!,
+      parentId: comment.parent ? commentIdByRef.get(comment.parent) : undefined,
+      userId: authorId ?? userId,
+      content,
+      contentHtml: html,
+      contentReferences: references as unknown as Prisma.InputJsonValue,
+      createdAt: comment.createdAt,
+      editedAt: comment.editedAt,
+    });
+  }
+  await prisma.comment.createMany({ data: comments });
+
+  // Attachments
+  const files: Prisma.FileCreateManyInput[] = [];
+  const skippedFiles: string[] = [];
+  const metadataOnlyFiles: string[] = [];
+  for (const file of archive.files) {
+    const taskId = file.task ? taskIdByRef.get(file.task) : undefined;
+    try {
+      // Keys come from the uploaded file, so only objects of a project the user can see are copied
+      const canCopy =
+        source.projectId !== null && isProjectAttachmentKey(file.key, source.projectId);
+      const { key, fileUrl } = canCopy
+        ? await copyAttachmentObject(file.key, projectId, taskId, file.fileName)
+        : allocateAttachmentKey(projectId, taskId, file.fileName);
+      if (canCopy) {
+        source.copiedKeys.push(key);
+      } else {
+        metadataOnlyFiles.push(file.fileName);
+      }
+      files.push({
+        projectId,
+        taskId,
+        fileName: file.fileName,
+        fileUrl,
+        key,
+        contentType: file.contentType,
+        size: file.size,
+        uploadedById: (file.uploadedBy && userIdByEmail.get(file.uploadedBy)) || userId,
+      });
+    } catch (error) {
+      console.error(`Failed to copy attachment ${file.key}:`, error);
+      skippedFiles.push(file.fileName);
+    }
+  }
+  await prisma.file.createMany({ data: files });
+
+  return {
+    imported: {
+      boards: archive.boards.length,
+      milestones: archive.milestones.length,
+      tasks: archive.tasks.length,
+      comments: comments.length,
+      files: files.length,
+    },
+    skippedFiles,
+    metadataOnlyFiles,
+  };
+};
+
+/**
+ * Imports a project archive under new IDs. People are matched by email, but only for an archive
+ * of a project the importing user could export; assignments of unmatched users (or users who are
+ * not members of the imported project) are dropped, and their tasks, comments and files are
+ * credited to the importing user with the original email kept as text where there is any.
+ * Attachment objects are copied from that same trusted project while the storage still holds
+ * them; otherwise only the attachment metadata is imported. The importing user becomes the
+ * project leader.
+ */
+export const importProject = async (
+  file: Buffer,
+  data: ImportProjectDTO,
+  userId: string,
+): Promise<ProjectImportResult> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(file.toString("utf8"));
+  } catch {
+    throw new Error("Invalid archive: the file is not valid JSON");
+  }
+
+  const archiveVersion = (raw as any)?.version;
+  const archive = upgradeArchive(raw);
+  assertArchiveReferences(archive);
+
+  return {
+    ...(await createProjectFromArchive(archive, data.name, userId)),
+    archiveVersion,
+  };
+};
+
+/**
+ * Copies a project, optionally with its tasks and members. Comments and attachments stay with
+ * the original project.
+ */
+export const cloneProject = async (
+  projectId: string,
+  data: CloneProjectDTO,
+  userId: string,
+): Promise<ProjectImportResult> => {
+  const { archive } = await exportProject(projectId, userId);
+
+  const clone: ProjectArchive = {
+    ...archive,
+    members: data.includeMembers ? archive.members : [],
+    mentors: data.includeMembers ? archive.mentors : [],
+    tasks: data.includeTasks ? archive.tasks : [],
+    dependencies: data.includeTasks ? archive.dependencies : [],
+    comments: [],
+    files: [],
+  };
+
+  return {
+    ...(await createProjectFromArchive(clone, data.name, userId)),
+    archiveVersion: PROJECT_ARCHIVE_VERSION,
+  };
+};
+
+const createProjectFromArchive = async (
+  archive: ProjectArchive,
+  name: string | undefined,
+  userId: string,
+): Promise<Omit<ProjectImportResult, "archiveVersion">> => {
+  const source = {
+    projectId: await findTrustedSourceProject(archive, userId),
+    copiedKeys: [] as string[],
+  };
+  const emails = collectEmails(archive);
+  const userIdByEmail = await matchArchiveUsers(emails, source.projectId, userId);
+  const unmatchedUsers = emails.filter((email) => !userIdByEmail.has(email)).sort();
+
+  const project = await prisma.project.create({
+    data: {
+      name: name || archive.project.name,
+      description: archive.project.description || undefined,
+      status: archive.project.status,
+      deadline: archive.project.deadline,
+      createdById: userId,
+    },
+  });
+
+  try {
+    const result = await populateProject(project.id, archive, userIdByEmail, userId, source);
+
+    return {
+      project: { id: project.id, name: project.name },
+      imported: result.imported,
+      unmatchedUsers,
+      skippedFiles: result.skippedFiles,
+      metadataOnlyFiles: result.metadataOnlyFiles,
+    };
+  } catch (error) {
+    // Leave nothing half-imported behind, including objects already copied
+    await deleteObjectsByKey(source.copiedKeys);
+    await prisma.project.delete({ where: { id: project.id } });
+    throw error;
+  }
+};
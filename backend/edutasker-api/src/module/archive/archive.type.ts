@@ -0,0 +1,151 @@
+import type { TaskPriority } from "@prisma/client";
+
+/**
+ * Archive layout version. Bump it whenever the layout changes and register an upgrade from the
+ * previous version in `archive.service.ts`, so archives exported by older servers still load.
+ */
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+// Records reference each other by `ref`, which is the record's ID on the exporting server.
+// Users are referenced by email.
+
+export interface ArchivedMember {
+  email: string;
+  role: string;
+}
+
+export interface ArchivedWorkflowStatus {
+  key: string;
+  name: string;
+  order: number;
+  isFinal: boolean;
+}
+
+export interface ArchivedBoard {
+  ref: string;
+  name: string;
+  order: number;
+  wipLimit?: number | null;
+  statusKey?: string;
+}
+
+export interface ArchivedBoardTransition {
+  fromBoard: string;
+  toBoard: string;
+}
+
+export interface ArchivedMilestone {
+  ref: string;
+  name: string;
+  goal?: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ArchivedRubricCriterion {
+  name: string;
+  description?: string;
+  maxScore: number;
+  order: number;
+}
+
+export interface ArchivedChecklistItem {
+  title: string;
+  isDone: boolean;
+  order: number;
+  assignee?: string;
+}
+
+export interface ArchivedTask {
+  ref: string;
+  title: string;
+  description?: string;
+  status: string;
+  priority: TaskPriority;
+  dueDate?: string;
+  board: string;
+  order: number;
+  parentTask?: string;
+  milestone?: string;
+  createdBy?: string;
+  assignees: string[];
+  checklist: ArchivedChecklistItem[];
+  createdAt: string;
+}
+
+export interface ArchivedTaskDependency {
+  task: string;
+  blockingTask: string;
+}
+
+export interface ArchivedComment {
+  ref: string;
+  task: string;
+  parent?: string;
+  author: string;
+  content: string;
+  createdAt: string;
+  editedAt?: string;
+}
+
+export interface ArchivedFile {
+  task?: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  key: string;
+  uploadedBy?: string;
+  createdAt: string;
+}
+
+export interface ProjectArchive {
+  version: number;
+  exportedAt: string;
+  project: {
+    // Attachment objects are only copied from under this project's prefix
+    ref?: string;
+    name: string;
+    description?: string;
+    status: string;
+    deadline?: string;
+  };
+  members: ArchivedMember[];
+  mentors: ArchivedMember[];
+  workflowStatuses: ArchivedWorkflowStatus[];
+  boards: ArchivedBoard[];
+  boardTransitions: ArchivedBoardTransition[];
+  milestones: ArchivedMilestone[];
+  rubricCriteria: ArchivedRubricCriterion[];
+  tasks: ArchivedTask[];
+  dependencies: ArchivedTaskDependency[];
+  comments: ArchivedComment[];
+  files: ArchivedFile[];
+}
+
+export interface ImportProjectDTO {
+  name?: string;
+}
+
+export interface CloneProjectDTO {
+  name?: string;
+  includeTasks: boolean;
+  includeMembers: boolean;
+}
+
+export interface ProjectImportResult {
+  project: {
+    id: string;
+    name: string;
+  };
+  archiveVersion: number;
+  imported: {
+    boards: number;
+    milestones: number;
+    tasks: number;
+    comments: number;
+    files: number;
+  };
+  unmatchedUsers: string[];
+  skippedFiles: string[];
+  metadataOnlyFiles: string[];
+}
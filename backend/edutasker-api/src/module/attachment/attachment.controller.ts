@@ -0,0 +1,85 @@
+import type { Request, Response } from "express";
+import * as AttachmentService from "./attachment.service.js";
+import type {
+  AttachmentListQuery,
+  ConfirmUploadDTO,
+  CreateUploadUrlDTO,
+} from "./attachment.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const createUploadUrlHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  const data: CreateUploadUrlDTO = req.body;
+  return await AttachmentService.createUploadUrl(projectId, data, userId);
+};
+
+const confirmUploadHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  const data: ConfirmUploadDTO = req.body;
+  return await AttachmentService.confirmUpload(projectId, data, userId);
+};
+
+const listAttachmentsHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  const query: AttachmentListQuery = {
+    page: req.query.page ? Number(req.query.page) : undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    taskId: req.query.taskId as string,
+  };
+  return await AttachmentService.getAttachments(projectId, query, userId);
+};
+
+const getDownloadUrlHandler = async (req: Request, res: Response) => {
+  const { projectId, attachmentId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!attachmentId) {
+    throw new Error("Attachment ID is required");
+  }
+  return await AttachmentService.getAttachmentDownloadUrl(projectId, attachmentId, userId);
+};
+
+const deleteAttachmentHandler = async (req: Request, res: Response) => {
+  const { projectId, attachmentId } = req.params;
+  const userId = (req as any).user.id;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!attachmentId) {
+    throw new Error("Attachment ID is required");
+  }
+  await AttachmentService.deleteAttachment(projectId, attachmentId, userId);
+  return { message: "Attachment deleted successfully" };
+};
+
+export const createUploadUrl = serviceWrapper(
+  createUploadUrlHandler,
+  "Upload URL generated successfully",
+);
+export const confirmUpload = serviceWrapper(confirmUploadHandler, "Attachment saved successfully");
+export const listAttachments = serviceWrapper(
+  listAttachmentsHandler,
+  "Attachments retrieved successfully",
+);
+export const getDownloadUrl = serviceWrapper(
+  getDownloadUrlHandler,
+  "Download URL generated successfully",
+);
+export const deleteAttachment = serviceWrapper(
+  deleteAttachmentHandler,
+  "Attachment deleted successfully",
+);
@@ -0,0 +1,428 @@
+import { Router } from "express";
+import { authGuard, rateLimit, RateLimitBudgets, validate } from "../../middleware/index.js";
+import * as AttachmentController from "./attachment.controller.js";
+import {
+  attachmentIdParamSchema,
+  attachmentListQuerySchema,
+  confirmUploadSchema,
+  createUploadUrlSchema,
+  projectAttachmentParamSchema,
+} from "./attachment.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Attachment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           description: Attachment unique identifier
+ *         fileName:
+ *           type: string
+ *           description: Original file name
+ *         contentType:
+ *           type: string
+ *           description: MIME type of the file
+ *         size:
+ *           type: number
+ *           description: File size in bytes
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         taskId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Task the file is attached to, empty for project-level attachments
+ *         uploadedBy:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/attachments/upload-url:
+ *   post:
+ *     tags:
+ *       - Attachments
+ *     summary: Reserve an attachment upload
+ *     description: |
+ *       Validates the file's content type and size against the configured limits, reserves a project-scoped S3 key
+ *       and returns a presigned PUT URL. Upload the file to `uploadUrl`, then confirm it with `POST /projects/{projectId}/attachments`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fileName
+ *               - contentType
+ *               - size
+ *             properties:
+ *               fileName:
+ *                 type: string
+ *                 example: "requirements.pdf"
+ *               contentType:
+ *                 type: string
+ *                 example: "application/pdf"
+ *               size:
+ *                 type: number
+ *                 description: File size in bytes
+ *                 example: 204800
+ *               taskId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Attach the file to this task instead of the project
+ *                 example: "789e0123-e89b-12d3-a456-426614174002"
+ *     responses:
+ *       200:
+ *         description: Upload URL generated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         uploadUrl:
+ *                           type: string
+ *                         key:
+ *                           type: string
+ *                         expiresIn:
+ *                           type: number
+ *             example:
+ *               message: "Upload URL generated successfully"
+ *               content:
+ *                 uploadUrl: "https://edutasker-bucket.s3.amazonaws.com/projects/123e4567-e89b-12d3-a456-426614174000/tasks/789e0123-e89b-12d3-a456-426614174002/5f0c7b2e-requirements.pdf?X-Amz-Algorithm=..."
+ *                 key: "projects/123e4567-e89b-12d3-a456-426614174000/tasks/789e0123-e89b-12d3-a456-426614174002/5f0c7b2e-requirements.pdf"
+ *                 expiresIn: 300
+ *               messages: ["Upload URL generated successfully"]
+ *               code: "200"
+ *               success: true
+ *       400:
+ *         description: Bad request - Content type not allowed, file too large, or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/:projectId/attachments/upload-url",
+  authGuard,
+  rateLimit(RateLimitBudgets.PRESIGNED_URL),
+  validate({ params: projectAttachmentParamSchema, body: createUploadUrlSchema }),
+  AttachmentController.createUploadUrl,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/attachments:
+ *   post:
+ *     tags:
+ *       - Attachments
+ *     summary: Confirm an attachment upload
+ *     description: Checks that the reserved object exists in S3 and records it as an attachment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 description: Key returned by the upload-url endpoint
+ *     responses:
+ *       200:
+ *         description: Attachment saved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Attachment'
+ *       400:
+ *         description: Bad request - Reservation expired or file not uploaded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/attachments",
+  authGuard,
+  validate({ params: projectAttachmentParamSchema, body: confirmUploadSchema }),
+  AttachmentController.confirmUpload,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/attachments:
+ *   get:
+ *     tags:
+ *       - Attachments
+ *     summary: List attachments
+ *     description: Lists the project's attachments, newest first. Pass `taskId` to only list one task's files.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: taskId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by task
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Attachments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         attachments:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/Attachment'
+ *                         total:
+ *                           type: number
+ *                         page:
+ *                           type: number
+ *                         limit:
+ *                           type: number
+ *                         totalPages:
+ *                           type: number
+ *       400:
+ *         description: Bad request - Not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/attachments",
+  authGuard,
+  validate({ params: projectAttachmentParamSchema, query: attachmentListQuerySchema }),
+  AttachmentController.listAttachments,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/attachments/{attachmentId}/download:
+ *   get:
+ *     tags:
+ *       - Attachments
+ *     summary: Get a download URL
+ *     description: Returns a short-lived presigned URL for downloading the attachment
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Attachment ID
+ *     responses:
+ *       200:
+ *         description: Download URL generated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         url:
+ *                           type: string
+ *                         fileName:
+ *                           type: string
+ *                         expiresIn:
+ *                           type: number
+ *       400:
+ *         description: Bad request - Attachment not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.get(
+  "/:projectId/attachments/:attachmentId/download",
+  authGuard,
+  rateLimit(RateLimitBudgets.PRESIGNED_URL),
+  validate({ params: attachmentIdParamSchema }),
+  AttachmentController.getDownloadUrl,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/attachments/{attachmentId}:
+ *   delete:
+ *     tags:
+ *       - Attachments
+ *     summary: Delete an attachment
+ *     description: Deletes the S3 object and its record. Only the uploader, project leaders and mentors can delete.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: attachmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Attachment ID
+ *     responses:
+ *       200:
+ *         description: Attachment deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Bad request - Attachment not found or not allowed to delete it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:projectId/attachments/:attachmentId",
+  authGuard,
+  validate({ params: attachmentIdParamSchema }),
+  AttachmentController.deleteAttachment,
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import Joi from "joi";
+
+export const createUploadUrlSchema = Joi.object({
+  fileName: Joi.string().min(1).max(255).required(),
+  contentType: Joi.string().min(1).max(255).required(),
+  size: Joi.number().integer().min(1).required(),
+  taskId: Joi.string().uuid().optional(),
+});
+
+export const confirmUploadSchema = Joi.object({
+  key: Joi.string().min(1).required(),
+});
+
+export const attachmentListQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  taskId: Joi.string().uuid().optional(),
+});
+
+export const projectAttachmentParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const attachmentIdParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  attachmentId: Joi.string().uuid().required(),
+});
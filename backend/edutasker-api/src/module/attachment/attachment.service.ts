@@ -0,0 +1,335 @@
+import { randomUUID } from "crypto";
+import { prisma } from "../../config/database.js";
+import redis from "../../config/redis.js";
+import { config } from "../../config/env.js";
+import {
+  copyObject,
+  deleteObject,
+  generateDownloadUrl,
+  generateUploadUrl,
+  getObjectMetadata,
+} from "../file/s3.util.js";
+import type {
+  AttachmentListQuery,
+  AttachmentListResponse,
+  AttachmentReservation,
+  AttachmentResponse,
+  ConfirmUploadDTO,
+  CreateUploadUrlDTO,
+  DownloadUrlResponse,
+  UploadUrlResponse,
+} from "./attachment.type.js";
+
+// Reservations outlive the upload URL so a slow upload can still be confirmed
+const RESERVATION_GRACE_SECONDS = 60 * 60;
+
+const reservationKey = (key: string) => `attachment:upload:${key}`;
+
+const attachmentInclude = {
+  uploadedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+const mapToAttachmentResponse = (file: any): AttachmentResponse => ({
+  id: file.id,
+  fileName: file.fileName,
+  contentType: file.contentType,
+  size: file.size,
+  createdAt: file.createdAt,
+  projectId: file.projectId,
+  taskId: file.taskId ?? undefined,
+  uploadedBy: file.uploadedBy
+    ? {
+        id: file.uploadedBy.id,
+        name: file.uploadedBy.name,
+        email: file.uploadedBy.email,
+      }
+    : undefined,
+});
+
+const isContentTypeAllowed = (contentType: string): boolean => {
+  const allowed = config.ATTACHMENT_ALLOWED_TYPES.split(",")
+    .map((type) => type.trim().toLowerCase())
+    .filter(Boolean);
+  const normalized = contentType.toLowerCase();
+
+  return allowed.some((pattern) =>
+    pattern.endsWith("*") ? normalized.startsWith(pattern.slice(0, -1)) : normalized === pattern,
+  );
+};
+
+const sanitizeFileName = (fileName: string): string => {
+  return fileName.replace(/[^a-zA-Z0-9._-]+/g, "_").slice(-100);
+};
+
+const buildAttachmentKey = (projectId: string, taskId: string | undefined, fileName: string) => {
+  const scope = taskId ? `tasks/${taskId}/` : "";
+  return `projects/${projectId}/${scope}${randomUUID()}-${sanitizeFileName(fileName)}`;
+};
+
+/**
+ * Whether the key lies under the project's attachment prefix.
+ */
+export const isProjectAttachmentKey = (key: string, projectId: string): boolean =>
+  key.startsWith(`projects/${projectId}/`) && !key.split("/").includes("..");
+
+const buildFileUrl = (key: string): string =>
+  `${config.S3_ENDPOINT.replace(/\/$/, "")}/${config.S3_BUCKET_NAME}/${key}`;
+
+const getProjectAccess = async (projectId: string, userId: string) => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const member = project.members[0];
+  const isMentor = project.ProjectMentor.length > 0;
+  if (!member && !isMentor) {
+    throw new Error("You are not a member of this project");
+  }
+
+  return {
+    canManage: isMentor || member?.role.toUpperCase() === "LEADER",
+  };
+};
+
+const ensureTaskInProject = async (projectId: string, taskId: string): Promise<void> => {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, projectId },
+    select: { id: true },
+  });
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+};
+
+export const createUploadUrl = async (
+  projectId: string,
+  data: CreateUploadUrlDTO,
+  userId: string,
+): Promise<UploadUrlResponse> => {
+  await getProjectAccess(projectId, userId);
+
+  if (data.taskId) {
+    await ensureTaskInProject(projectId, data.taskId);
+  }
+
+  if (!isContentTypeAllowed(data.contentType)) {
+    throw new Error(`Content type ${data.contentType} is not allowed`);
+  }
+
+  if (data.size > config.ATTACHMENT_MAX_SIZE) {
+    throw new Error(`File exceeds the maximum size of ${config.ATTACHMENT_MAX_SIZE} bytes`);
+  }
+
+  const key = buildAttachmentKey(projectId, data.taskId, data.fileName);
+  const expiresIn = config.ATTACHMENT_URL_EXPIRES_IN;
+
+  const reservation: AttachmentReservation = {
+    projectId,
+    taskId: data.taskId,
+    userId,
+    fileName: data.fileName,
+    contentType: data.contentType,
+    size: data.size,
+  };
+  await redis.set(reservationKey(key), JSON.stringify(reservation), {
+    expiration: { type: "EX", value: expiresIn + RESERVATION_GRACE_SECONDS },
+  });
+
+  const uploadUrl = await generateUploadUrl(key, expiresIn, data.contentType);
+
+  return { uploadUrl, key, expiresIn };
+};
+
+export const confirmUpload = async (
+  projectId: string,
+  data: ConfirmUploadDTO,
+  userId: string,
+): Promise<AttachmentResponse> => {
+  const raw = await redis.get(reservationKey(data.key));
+  const reservation = raw ? (JSON.parse(raw) as AttachmentReservation) : null;
+
+  if (!reservation || reservation.projectId !== projectId || reservation.userId !== userId) {
+    throw new Error("Upload reservation not found or expired");
+  }
+
+  let uploadedSize: number;
+  try {
+    const metadata = await getObjectMetadata(data.key);
+    uploadedSize = metadata.ContentLength ?? reservation.size;
+  } catch {
+    throw new Error("Uploaded file not found. Upload the file before confirming");
+  }
+
+  if (uploadedSize > config.ATTACHMENT_MAX_SIZE) {
+    await deleteObject(data.key);
+    await redis.del(reservationKey(data.key));
+    throw new Error(`File exceeds the maximum size of ${config.ATTACHMENT_MAX_SIZE} bytes`);
+  }
+
+  const file = await prisma.file.create({
+    data: {
+      fileName: reservation.fileName,
+      fileUrl: buildFileUrl(data.key),
+      key: data.key,
+      contentType: reservation.contentType,
+      size: uploadedSize,
+      projectId,
+      taskId: reservation.taskId,
+      uploadedById: userId,
+    },
+    include: attachmentInclude,
+  });
+
+  await redis.del(reservationKey(data.key));
+
+  return mapToAttachmentResponse(file);
+};
+
+export const getAttachments = async (
+  projectId: string,
+  query: AttachmentListQuery,
+  userId: string,
+): Promise<AttachmentListResponse> => {
+  await getProjectAccess(projectId, userId);
+
+  const page = query.page || 1;
+  const limit = query.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const where = {
+    projectId,
+    ...(query.taskId && { taskId: query.taskId }),
+  };
+
+  const [files, total] = await Promise.all([
+    prisma.file.findMany({
+      where,
+      include: attachmentInclude,
+      orderBy: { createdAt: "desc" },
+      skip,
+      take: limit,
+    }),
+    prisma.file.count({ where }),
+  ]);
+
+  return {
+    attachments: files.map(mapToAttachmentResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+export const getAttachmentDownloadUrl = async (
+  projectId: string,
+  attachmentId: string,
+  userId: string,
+): Promise<DownloadUrlResponse> => {
+  await getProjectAccess(projectId, userId);
+
+  const file = await prisma.file.findFirst({
+    where: { id: attachmentId, projectId },
+  });
+
+  if (!file) {
+    throw new Error("Attachment not found");
+  }
+
+  const expiresIn = config.ATTACHMENT_URL_EXPIRES_IN;
+  const url = await generateDownloadUrl(file.key, expiresIn, file.fileName);
+
+  return { url, fileName: file.fileName, expiresIn };
+};
+
+export const deleteAttachment = async (
+  projectId: string,
+  attachmentId: string,
+  userId: string,
+): Promise<void> => {
+  const { canManage } = await getProjectAccess(projectId, userId);
+
+  const file = await prisma.file.findFirst({
+    where: { id: attachmentId, projectId },
+  });
+
+  if (!file) {
+    throw new Error("Attachment not found");
+  }
+
+  if (file.uploadedById !== userId && !canManage) {
+    throw new Error("Only the uploader or a project leader can delete this attachment");
+  }
+
+  await deleteObject(file.key);
+  await prisma.file.delete({
+    where: { id: attachmentId },
+  });
+};
+
+// A leftover object must not block whatever removes the rows
+export const deleteObjectsByKey = async (keys: string[]): Promise<void> => {
+  const results = await Promise.allSettled(keys.map((key) => deleteObject(key)));
+  results.forEach((result) => {
+    if (result.status === "rejected") {
+      console.error("Failed to delete attachment object:", result.reason);
+    }
+  });
+};
+
+export const deleteAttachmentObjects = async (filter: {
+  projectId?: string;
+  taskId?: string;
+}): Promise<void> => {
+  const files = await prisma.file.findMany({
+    where: filter,
+    select: { key: true },
+  });
+
+  // Rows are removed by the cascading delete
+  await deleteObjectsByKey(files.map((file) => file.key));
+};
+
+/**
+ * Picks a fresh key of the project for an attachment without storing an object there, e.g. for
+ * imported attachment metadata whose file is not copied.
+ */
+export const allocateAttachmentKey = (
+  projectId: string,
+  taskId: string | undefined,
+  fileName: string,
+): { key: string; fileUrl: string } => {
+  const key = buildAttachmentKey(projectId, taskId, fileName);
+  return { key, fileUrl: buildFileUrl(key) };
+};
+
+/**
+ * Copies an attachment's object to a fresh key of another project, e.g. when a project is
+ * imported from an archive. The caller creates the `File` row.
+ */
+export const copyAttachmentObject = async (
+  sourceKey: string,
+  projectId: string,
+  taskId: string | undefined,
+  fileName: string,
+): Promise<{ key: string; fileUrl: string }> => {
+  const target = allocateAttachmentKey(projectId, taskId, fileName);
+  await copyObject(sourceKey, target.key);
+
+  return target;
+};
@@ -0,0 +1,60 @@
+export interface AttachmentResponse {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: Date;
+  projectId: string;
+  taskId?: string;
+  uploadedBy?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface CreateUploadUrlDTO {
+  fileName: string;
+  contentType: string;
+  size: number;
+  taskId?: string;
+}
+
+export interface UploadUrlResponse {
+  uploadUrl: string;
+  key: string;
+  expiresIn: number;
+}
+
+export interface ConfirmUploadDTO {
+  key: string;
+}
+
+export interface AttachmentReservation {
+  projectId: string;
+  taskId?: string;
+  userId: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+}
+
+export interface AttachmentListQuery {
+  page?: number;
+  limit?: number;
+  taskId?: string;
+}
+
+export interface AttachmentListResponse {
+  attachments: AttachmentResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface DownloadUrlResponse {
+  url: string;
+  fileName: string;
+  expiresIn: number;
+}
@@ -1,24 +1,185 @@
 import type { Request, Response } from "express";
 import * as AuthService from "./auth.service.js";
+import * as MfaService from "./mfa.service.js";
+import * as OidcService from "./oidc.service.js";
+import { config } from "../../config/env.js";
+import { createResponseObject } from "../../helper/response-object.js";
 import { serviceWrapper } from "../../helper/service-wrapper.js";
 
+// Only sent back to the callback, and over HTTPS whenever the callback is
+const getLoginStateCookieOptions = () => {
+  const redirectUri = new URL(config.OIDC_REDIRECT_URI);
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: redirectUri.protocol === "https:",
+    path: redirectUri.pathname,
+  };
+};
+
+// There is no cookie parser in the app; this is the only cookie the API reads
+const readCookie = (req: Request, name: string): string | undefined => {
+  const cookie = (req.headers.cookie ?? "")
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+// Where the client picks up the result of a single sign-on login
+const buildSsoResultUrl = (params: Record<string, string>) => {
+  const url = new URL("/auth/sso/callback", config.APP_URL);
+  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.href;
+};
+
 const registerHandler = async (req: Request, res: Response) => {
   return await AuthService.register(req.body);
 };
 
 const loginHandler = async (req: Request, res: Response) => {
-  return await AuthService.login(req.body);
+  return await AuthService.login(req.body, req.ip ?? "unknown");
 };
 
 const logoutHandler = async (req: Request, res: Response) => {
   return await AuthService.logout(req.body.refreshToken);
 };
 
+const logoutAllHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await AuthService.logoutAll(userId);
+};
+
 const refreshTokenHandler = async (req: Request, res: Response) => {
   return await AuthService.refreshToken(req.body.refreshToken);
 };
 
+const forgotPasswordHandler = async (req: Request, res: Response) => {
+  return await AuthService.forgotPassword(req.body);
+};
+
+const resetPasswordHandler = async (req: Request, res: Response) => {
+  return await AuthService.resetPassword(req.body);
+};
+
+const verifyEmailHandler = async (req: Request, res: Response) => {
+  return await AuthService.verifyEmail(req.body);
+};
+
+const resendVerificationEmailHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await AuthService.resendVerificationEmail(userId);
+};
+
+const verifyMfaChallengeHandler = async (req: Request, res: Response) => {
+  return await AuthService.verifyMfaChallenge(req.body);
+};
+
+const setupTwoFactorHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await MfaService.setupTwoFactor(userId);
+};
+
+const enableTwoFactorHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await MfaService.enableTwoFactor(userId, req.body);
+};
+
+const disableTwoFactorHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await MfaService.disableTwoFactor(userId, req.body);
+};
+
+const regenerateRecoveryCodesHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await MfaService.regenerateRecoveryCodes(userId, req.body);
+};
+
+const exchangeSsoLoginCodeHandler = async (req: Request, res: Response) => {
+  return await AuthService.exchangeSsoLoginCode(req.body);
+};
+
+const getLoginMethodsHandler = async (req: Request, res: Response) => {
+  return AuthService.getLoginMethods(req.query.email as string);
+};
+
+export const startOidcLogin = async (req: Request, res: Response) => {
+  try {
+    const { url, stateCookie } = await OidcService.startOidcLogin();
+    res.cookie(OidcService.LOGIN_STATE_COOKIE, stateCookie, {
+      ...getLoginStateCookieOptions(),
+      maxAge: OidcService.LOGIN_STATE_TTL_SECONDS * 1000,
+    });
+    res.redirect(url);
+  } catch (error: any) {
+    res.status(400).json(
+      createResponseObject({
+        content: null,
+        messages: error?.message || "Unable to start single sign-on",
+        code: "400",
+        success: false,
+      }),
+    );
+  }
+};
+
+export const completeOidcLogin = async (req: Request, res: Response) => {
+  // Parsed against the configured redirect URI so proxies in front of the API do not matter
+  const callbackUrl = new URL(config.OIDC_REDIRECT_URI);
+  callbackUrl.search = new URL(req.originalUrl, callbackUrl).search;
+
+  const stateCookie = readCookie(req, OidcService.LOGIN_STATE_COOKIE);
+  res.clearCookie(OidcService.LOGIN_STATE_COOKIE, getLoginStateCookieOptions());
+
+  try {
+    const code = await OidcService.completeOidcLogin(callbackUrl, stateCookie);
+    res.redirect(buildSsoResultUrl({ code }));
+  } catch (error: any) {
+    console.error("Single sign-on failed:", error);
+    res.redirect(buildSsoResultUrl({ error: error?.message || "Single sign-on failed" }));
+  }
+};
+
 export const register = serviceWrapper(registerHandler, "User registered successfully");
 export const login = serviceWrapper(loginHandler, "User logged in successfully");
 export const logout = serviceWrapper(logoutHandler, "User logged out successfully");
+export const logoutAll = serviceWrapper(logoutAllHandler, "User logged out of all devices");
 export const refreshToken = serviceWrapper(refreshTokenHandler, "Token refreshed successfully");
+export const forgotPassword = serviceWrapper(
+  forgotPasswordHandler,
+  "Password reset requested successfully",
+);
+export const resetPassword = serviceWrapper(resetPasswordHandler, "Password reset successfully");
+export const verifyEmail = serviceWrapper(verifyEmailHandler, "Email verified successfully");
+export const resendVerificationEmail = serviceWrapper(
+  resendVerificationEmailHandler,
+  "Verification email sent successfully",
+);
+export const verifyMfaChallenge = serviceWrapper(
+  verifyMfaChallengeHandler,
+  "User logged in successfully",
+);
+export const setupTwoFactor = serviceWrapper(
+  setupTwoFactorHandler,
+  "Two-factor setup started successfully",
+);
+export const enableTwoFactor = serviceWrapper(
+  enableTwoFactorHandler,
+  "Two-factor authentication enabled successfully",
+);
+export const disableTwoFactor = serviceWrapper(
+  disableTwoFactorHandler,
+  "Two-factor authentication disabled successfully",
+);
+export const regenerateRecoveryCodes = serviceWrapper(
+  regenerateRecoveryCodesHandler,
+  "Recovery codes regenerated successfully",
+);
+export const exchangeSsoLoginCode = serviceWrapper(
+  exchangeSsoLoginCodeHandler,
+  "User logged in successfully",
+);
+export const getLoginMethods = serviceWrapper(
+  getLoginMethodsHandler,
+  "Login methods retrieved successfully",
+);
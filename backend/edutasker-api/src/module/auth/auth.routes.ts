@@ -1,7 +1,21 @@
 import { Router } from "express";
-import { validate } from "../../middleware/validate.middleware.js";
+import { authGuard, rateLimit, RateLimitBudgets, validate } from "../../middleware/index.js";
 import * as AuthController from "./auth.controller.js";
-import { loginSchema, registerSchema, refreshTokenSchema, logoutSchema } from "./auth.schema.js";
+import {
+  disableTwoFactorSchema,
+  enableTwoFactorSchema,
+  exchangeSsoLoginCodeSchema,
+  forgotPasswordSchema,
+  loginMethodsQuerySchema,
+  loginSchema,
+  logoutSchema,
+  refreshTokenSchema,
+  regenerateRecoveryCodesSchema,
+  registerSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  verifyMfaChallengeSchema,
+} from "./auth.schema.js";
 
 const router = Router();
 
@@ -25,7 +39,7 @@ const router = Router();
  *           description: Array of messages
  *         code:
  *           type: string
- *           description: Response code
+ *           description: Response code. Failed requests use "400" or, for specific rule violations, a named code such as `WIP_LIMIT_EXCEEDED`
  *         success:
  *           type: boolean
  *           description: Success status
@@ -64,6 +78,37 @@ const router = Router();
  *                   items:
  *                     type: string
  *                   description: User roles
+ *     MfaChallengeResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *         - type: object
+ *           properties:
+ *             content:
+ *               type: object
+ *               properties:
+ *                 mfaRequired:
+ *                   type: boolean
+ *                   example: true
+ *                 challengeToken:
+ *                   type: string
+ *                   description: Short-lived token to pass to /auth/2fa/verify
+ *                 expiresIn:
+ *                   type: integer
+ *                   description: Seconds until the challenge token expires
+ *     RecoveryCodesResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *         - type: object
+ *           properties:
+ *             content:
+ *               type: object
+ *               properties:
+ *                 recoveryCodes:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: One-time codes, shown only once
+ *                   example: ["A1B2C-3D4E5"]
  *     RegisterResponse:
  *       allOf:
  *         - $ref: '#/components/schemas/ServiceWrapperResponse'
@@ -104,7 +149,9 @@ const router = Router();
  *     tags:
  *       - Authentication
  *     summary: Register a new user
- *     description: Creates a new user account with username and password
+ *     description: |
+ *       Creates a new user account with username and password and sends a link to verify the
+ *       email address. The account can be used before the address is verified.
  *     requestBody:
  *       required: true
  *       content:
@@ -164,9 +211,12 @@ const router = Router();
  *               messages: ["Username already exists"]
  *               code: "400"
  *               success: false
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
 router.post(
   "/register",
+  rateLimit(RateLimitBudgets.AUTH),
   [
     validate({
       body: registerSchema,
@@ -182,7 +232,14 @@ router.post(
  *     tags:
  *       - Authentication
  *     summary: Login a user
- *     description: Authenticates user and returns JWT tokens
+ *     description: |
+ *       Authenticates user and returns JWT tokens. When the account has two-factor authentication
+ *       enabled, the response holds a short-lived challenge token instead, to be completed at
+ *       `/auth/2fa/verify`.
+ *
+ *       Unknown emails and wrong passwords get the same error. After `LOGIN_MAX_FAILED_ATTEMPTS`
+ *       failures for an email, or `LOGIN_MAX_FAILED_ATTEMPTS_PER_IP` from one address, logins are
+ *       refused with code `LOGIN_LOCKED` for `LOGIN_LOCKOUT_DURATION` seconds.
  *     requestBody:
  *       required: true
  *       content:
@@ -203,11 +260,13 @@ router.post(
  *                 example: "securePassword123"
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: Login successful, or a second factor is required
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/AuthResponse'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthResponse'
+ *                 - $ref: '#/components/schemas/MfaChallengeResponse'
  *             example:
  *               message: "User logged in successfully"
  *               content:
@@ -218,20 +277,23 @@ router.post(
  *               code: "200"
  *               success: true
  *       400:
- *         description: Invalid credentials
+ *         description: Invalid credentials, or `LOGIN_LOCKED` with `content.retryAfter` in seconds
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *             example:
- *               message: "Invalid username or password"
+ *               message: "Invalid email or password"
  *               content: null
- *               messages: ["Invalid username or password"]
+ *               messages: ["Invalid email or password"]
  *               code: "400"
  *               success: false
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
 router.post(
   "/login",
+  rateLimit(RateLimitBudgets.AUTH),
   validate({
     body: loginSchema,
   }),
@@ -245,7 +307,9 @@ router.post(
  *     tags:
  *       - Authentication
  *     summary: Refresh authentication token
- *     description: Generates new access token using refresh token
+ *     description: |
+ *       Generates a new access token and rotates the refresh token. The presented refresh token is
+ *       single-use; replaying an already rotated token revokes the whole session.
  *     requestBody:
  *       required: true
  *       content:
@@ -281,7 +345,7 @@ router.post(
  *               content:
  *                 accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  *                 refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
- *                 roles: ["Student", "Mentor"]
+ *                 roles: ["STUDENT", "MENTOR"]
  *               messages: ["Token refreshed successfully"]
  *               code: "200"
  *               success: true
@@ -291,9 +355,12 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
 router.post(
   "/refresh",
+  rateLimit(RateLimitBudgets.AUTH),
   validate({
     body: refreshTokenSchema,
   }),
@@ -307,7 +374,7 @@ router.post(
  *     tags:
  *       - Authentication
  *     summary: Logout user
- *     description: Invalidates user session and tokens
+ *     description: Revokes the session the refresh token belongs to
  *     requestBody:
  *       required: true
  *       content:
@@ -356,4 +423,661 @@ router.post(
   AuthController.logout,
 );
 
+/**
+ * @openapi
+ * /auth/logout-all:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Logout from all devices
+ *     description: |
+ *       Revokes every session of the authenticated user. Refresh tokens stop working immediately and
+ *       access tokens issued before the call are rejected.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: User logged out of all devices
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *                         revokedSessions:
+ *                           type: number
+ *             example:
+ *               message: "User logged out of all devices"
+ *               content:
+ *                 message: "All sessions terminated"
+ *                 revokedSessions: 3
+ *               messages: ["User logged out of all devices"]
+ *               code: "200"
+ *               success: true
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/logout-all", authGuard, AuthController.logoutAll);
+
+/**
+ * @openapi
+ * /auth/forgot-password:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Request a password reset link
+ *     description: |
+ *       Mails a single-use link to reset the password. The response is the same whether or not an
+ *       account exists for the email. Requesting a new link invalidates the previous one.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "student@example.com"
+ *     responses:
+ *       200:
+ *         description: Password reset requested successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Validation error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/forgot-password",
+  rateLimit(RateLimitBudgets.AUTH_MAIL),
+  validate({
+    body: forgotPasswordSchema,
+  }),
+  AuthController.forgotPassword,
+);
+
+/**
+ * @openapi
+ * /auth/reset-password:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Reset the password with a reset token
+ *     description: |
+ *       Sets a new password using the token from the reset link. The token works once and expires
+ *       after `PASSWORD_RESET_TOKEN_TTL` seconds. All sessions of the user are signed out.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *               - rePassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 6
+ *               rePassword:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Password reset successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Invalid or expired token, or passwords do not match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/reset-password",
+  rateLimit(RateLimitBudgets.AUTH),
+  validate({
+    body: resetPasswordSchema,
+  }),
+  AuthController.resetPassword,
+);
+
+/**
+ * @openapi
+ * /auth/verify-email:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Verify the email address
+ *     description: Confirms the address with the token from the verification link. The token works once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Invalid or expired token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/verify-email",
+  rateLimit(RateLimitBudgets.AUTH),
+  validate({
+    body: verifyEmailSchema,
+  }),
+  AuthController.verifyEmail,
+);
+
+/**
+ * @openapi
+ * /auth/verify-email/resend:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Send a new verification link
+ *     description: Mails a new verification link to the authenticated user and invalidates the previous one.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Email address is already verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/verify-email/resend",
+  authGuard,
+  rateLimit(RateLimitBudgets.AUTH_MAIL),
+  AuthController.resendVerificationEmail,
+);
+
+/**
+ * @openapi
+ * /auth/2fa/verify:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Complete a two-factor login
+ *     description: |
+ *       Exchanges the challenge token from `/auth/login` and a code from the authenticator app,
+ *       or one of the recovery codes, for JWT tokens. A challenge allows five attempts and can
+ *       only be completed once.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit TOTP code. Required unless recoveryCode is given
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Unused recovery code. Required unless code is given
+ *                 example: "A1B2C-3D4E5"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AuthResponse'
+ *       400:
+ *         description: Invalid code, expired challenge or too many attempts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/2fa/verify",
+  rateLimit(RateLimitBudgets.AUTH),
+  validate({
+    body: verifyMfaChallengeSchema,
+  }),
+  AuthController.verifyMfaChallenge,
+);
+
+/**
+ * @openapi
+ * /auth/2fa/setup:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Start two-factor enrolment
+ *     description: |
+ *       Generates a new TOTP secret and the `otpauth://` provisioning URI to render as a QR code.
+ *       Two-factor authentication stays off until a code is confirmed at `/auth/2fa/enable`;
+ *       calling this again replaces the pending secret.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Two-factor setup started successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         secret:
+ *                           type: string
+ *                           description: Base32 secret for manual entry
+ *                         otpauthUrl:
+ *                           type: string
+ *                           example: "otpauth://totp/EduTasker%3Ajohn%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=EduTasker&algorithm=SHA1&digits=6&period=30"
+ *       400:
+ *         description: Two-factor authentication is already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/2fa/setup", authGuard, AuthController.setupTwoFactor);
+
+/**
+ * @openapi
+ * /auth/2fa/enable:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Confirm two-factor enrolment
+ *     description: |
+ *       Turns on two-factor authentication once a code from the pending secret checks out, and
+ *       returns ten recovery codes. Only hashes of the codes are stored, so they cannot be shown
+ *       again.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication enabled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodesResponse'
+ *       400:
+ *         description: Invalid code, no pending setup or already enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  "/2fa/enable",
+  authGuard,
+  validate({
+    body: enableTwoFactorSchema,
+  }),
+  AuthController.enableTwoFactor,
+);
+
+/**
+ * @openapi
+ * /auth/2fa/disable:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Turn off two-factor authentication
+ *     description: |
+ *       Requires the password and either a current TOTP code or a recovery code. Removes the
+ *       secret and all recovery codes. Not allowed for roles listed in `MFA_REQUIRED_ROLES`.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Required unless recoveryCode is given
+ *               recoveryCode:
+ *                 type: string
+ *                 description: Required unless code is given
+ *     responses:
+ *       200:
+ *         description: Two-factor authentication disabled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Wrong password or code, not enabled, or required for the user's role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  "/2fa/disable",
+  authGuard,
+  validate({
+    body: disableTwoFactorSchema,
+  }),
+  AuthController.disableTwoFactor,
+);
+
+/**
+ * @openapi
+ * /auth/2fa/recovery-codes:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes, used or not, with ten new ones.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 description: Current TOTP code
+ *     responses:
+ *       200:
+ *         description: Recovery codes regenerated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodesResponse'
+ *       400:
+ *         description: Invalid code or two-factor authentication not enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authGuard,
+  validate({
+    body: regenerateRecoveryCodesSchema,
+  }),
+  AuthController.regenerateRecoveryCodes,
+);
+
+/**
+ * @openapi
+ * /auth/login-methods:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Get the sign-in options for an email
+ *     description: |
+ *       Tells the client whether to show the password form, the single sign-on button or both.
+ *       Only depends on the email domain, so it does not reveal whether an account exists.
+ *     parameters:
+ *       - in: query
+ *         name: email
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: email
+ *     responses:
+ *       200:
+ *         description: Login methods retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         password:
+ *                           type: boolean
+ *                         sso:
+ *                           type: boolean
+ */
+router.get(
+  "/login-methods",
+  validate({
+    query: loginMethodsQuerySchema,
+  }),
+  AuthController.getLoginMethods,
+);
+
+/**
+ * @openapi
+ * /auth/oidc/login:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Start a single sign-on login
+ *     description: |
+ *       Redirects the browser to the OpenID Connect provider using the authorization code flow
+ *       with PKCE. Open this URL in the browser rather than calling it with fetch. Sets a signed,
+ *       httpOnly state cookie that the callback requires, so the login can only be completed in
+ *       the browser that started it.
+ *     responses:
+ *       302:
+ *         description: Redirect to the identity provider
+ *       400:
+ *         description: Single sign-on is not enabled or the provider cannot be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.get("/oidc/login", rateLimit(RateLimitBudgets.AUTH), AuthController.startOidcLogin);
+
+/**
+ * @openapi
+ * /auth/oidc/callback:
+ *   get:
+ *     tags:
+ *       - Authentication
+ *     summary: Single sign-on redirect URI
+ *     description: |
+ *       The identity provider sends the browser here (`OIDC_REDIRECT_URI`). The user is looked up
+ *       by email, or created, and their roles are synced from the `OIDC_ROLE_CLAIM` claim. The
+ *       browser then goes on to `{APP_URL}/auth/sso/callback` with either `?code=` for
+ *       `/auth/oidc/exchange` or `?error=`.
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *     responses:
+ *       302:
+ *         description: Redirect to the client with a login code or an error
+ */
+router.get("/oidc/callback", rateLimit(RateLimitBudgets.AUTH), AuthController.completeOidcLogin);
+
+/**
+ * @openapi
+ * /auth/oidc/exchange:
+ *   post:
+ *     tags:
+ *       - Authentication
+ *     summary: Finish a single sign-on login
+ *     description: |
+ *       Trades the login code from the callback redirect for JWT tokens. The code works once and
+ *       expires after a minute. Accounts with two-factor authentication get a challenge, as with
+ *       `/auth/login`.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful, or a second factor is required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/AuthResponse'
+ *                 - $ref: '#/components/schemas/MfaChallengeResponse'
+ *       400:
+ *         description: Invalid or expired login code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/oidc/exchange",
+  rateLimit(RateLimitBudgets.AUTH),
+  validate({
+    body: exchangeSsoLoginCodeSchema,
+  }),
+  AuthController.exchangeSsoLoginCode,
+);
+
 export default router;
@@ -19,3 +19,49 @@ export const refreshTokenSchema = Joi.object({
 export const logoutSchema = Joi.object({
   refreshToken: Joi.string().required(),
 });
+
+export const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  password: Joi.string().min(6).required(),
+  rePassword: Joi.string().min(6).required(),
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+const totpCode = Joi.string()
+  .pattern(/^\d{6}$/)
+  .messages({ "string.pattern.base": "Code must be 6 digits" });
+
+export const verifyMfaChallengeSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: totpCode,
+  recoveryCode: Joi.string().trim().max(32),
+}).xor("code", "recoveryCode");
+
+export const enableTwoFactorSchema = Joi.object({
+  code: totpCode.required(),
+});
+
+export const disableTwoFactorSchema = Joi.object({
+  password: Joi.string().required(),
+  code: totpCode,
+  recoveryCode: Joi.string().trim().max(32),
+}).xor("code", "recoveryCode");
+
+export const regenerateRecoveryCodesSchema = Joi.object({
+  code: totpCode.required(),
+});
+
+export const exchangeSsoLoginCodeSchema = Joi.object({
+  code: Joi.string().required(),
+});
+
+export const loginMethodsQuerySchema = Joi.object({
+  email: Joi.string().email().required(),
+});
@@ -1,10 +1,115 @@
 import bcrypt from "bcryptjs";
 import { prisma } from "../../config/database.js";
-import type { AuthenticationResponse, LoginDTO, RegisterDTO } from "./auth.type.ts";
+import { config } from "../../config/env.js";
+import { ServiceError } from "../../helper/service-error.js";
+import { revokeAllAccessTokens } from "../access-token/access-token.service.js";
+import * as MailService from "../mail/mail.service.js";
+import { getUserRoleCodes } from "../role/role.service.js";
+import type {
+  AuthenticationResponse,
+  ExchangeSsoLoginCodeDTO,
+  ForgotPasswordDTO,
+  LoginDTO,
+  LoginMethodsResponse,
+  MfaChallengeResponse,
+  RegisterDTO,
+  ResetPasswordDTO,
+  VerifyEmailDTO,
+  VerifyMfaChallengeDTO,
+} from "./auth.type.ts";
 import tokenService, { TokenType } from "./token.service.js";
+import * as LoginAttemptService from "./login-attempt.service.js";
+import * as MfaService from "./mfa.service.js";
+import { isPasswordLoginDisabled } from "./oidc.service.js";
+import * as SessionService from "./session.service.js";
+import {
+  consumeOneTimeToken,
+  issueOneTimeToken,
+  OneTimeTokenPurpose,
+} from "./one-time-token.service.js";
+
+const INVALID_CREDENTIALS = "Invalid email or password";
+
+// Compared against when the account does not exist, so both failures take about as long
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("edutasker-dummy-password", 10);
+
+const issueTokens = async (
+  user: { id: string; email: string },
+  roles: string[],
+  sid: string,
+  jti: string,
+  mfa: boolean,
+) => {
+  // The session id lets a token minted in the same second as a revocation prove it is newer
+  const accessToken = await tokenService.generateToken(TokenType.ACCESS, {
+    id: user.id,
+    email: user.email,
+    sid,
+    roles,
+    mfa,
+  });
+  // Carried along so refreshed sessions keep their second-factor status
+  const refreshToken = await tokenService.generateToken(TokenType.REFRESH, {
+    id: user.id,
+    email: user.email,
+    sid,
+    jti,
+    mfa,
+  });
+
+  return { accessToken, refreshToken };
+};
+
+const verifyRefreshToken = async (token: string) => {
+  let decoded;
+  try {
+    decoded = await tokenService.verifyToken(TokenType.REFRESH, token);
+  } catch {
+    throw new Error("Invalid refresh token");
+  }
+
+  if (!decoded.sid || !decoded.jti) {
+    throw new Error("Invalid refresh token");
+  }
+
+  return { ...decoded, sid: decoded.sid, jti: decoded.jti };
+};
+
+const startSession = async (user: { id: string; email: string }, mfa: boolean) => {
+  const roles = await getUserRoleCodes(user.id);
+  const session = await SessionService.createSession(user.id);
+  const tokens = await issueTokens(user, roles, session.sid, session.jti, mfa);
+
+  return { ...tokens, roles };
+};
+
+// Accounts with two-factor authentication get a challenge instead of a session
+const completeLogin = async (user: {
+  id: string;
+  email: string;
+  totpEnabledAt: Date | null;
+}): Promise<AuthenticationResponse | MfaChallengeResponse> => {
+  if (user.totpEnabledAt) {
+    return MfaService.createMfaChallenge(user);
+  }
+
+  return startSession(user, false);
+};
+
+const sendVerificationMail = async (user: { id: string; name: string; email: string }) => {
+  const token = await issueOneTimeToken(
+    OneTimeTokenPurpose.EMAIL_VERIFICATION,
+    user.id,
+    config.EMAIL_VERIFICATION_TOKEN_TTL,
+  );
+  await MailService.sendEmailVerificationMail(user, token);
+};
 
 export const register = async (dto: RegisterDTO) => {
   if (dto.password !== dto.rePassword) throw new Error("Passwords do not match");
+  if (isPasswordLoginDisabled(dto.email)) {
+    throw new Error("Accounts for this email domain are created through single sign-on");
+  }
   const hashed = await bcrypt.hash(dto.password, 10);
   const user = await prisma.user.create({
     data: {
@@ -22,50 +127,80 @@ export const register = async (dto: RegisterDTO) => {
       },
     },
   });
+
+  // The account is usable either way; the user can ask for another mail later
+  try {
+    await sendVerificationMail(user);
+  } catch (error) {
+    console.error("Failed to send verification email:", error);
+  }
+
   return { user };
 };
 
-export const login = async (dto: LoginDTO): Promise<AuthenticationResponse> => {
-  const user = await prisma.user.findUnique({
-    where: { email: dto.email },
-    include: {
-      roles: {
-        include: {
-          role: {
-            select: {
-              name: true,
-              code: true,
-            },
-          },
-        },
-      },
-    },
-  });
-  if (!user) throw new Error("Account not found");
+/**
+ * Signs the user in. Accounts with two-factor authentication get a challenge token instead of a
+ * session, which is exchanged for one via `verifyMfaChallenge`. Unknown emails and wrong
+ * passwords get the same error and both count towards the lockout. Email domains listed in
+ * PASSWORD_LOGIN_DISABLED_DOMAINS must use single sign-on.
+ */
+export const login = async (
+  dto: LoginDTO,
+  ip: string,
+): Promise<AuthenticationResponse | MfaChallengeResponse> => {
+  await LoginAttemptService.assertLoginAllowed(dto.email, ip);
+  if (isPasswordLoginDisabled(dto.email)) {
+    throw new ServiceError(
+      "Password login is disabled for this email domain. Sign in with single sign-on",
+      "SSO_REQUIRED",
+    );
+  }
 
-  const valid = await bcrypt.compare(dto.password, user.passwordHash);
-  if (!valid) throw new Error("Password is incorrect");
+  const user = await prisma.user.findUnique({ where: { email: dto.email } });
+  const valid = await bcrypt.compare(dto.password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  if (!user || !valid) {
+    await LoginAttemptService.recordFailedLogin(dto.email, ip);
+    throw new Error(INVALID_CREDENTIALS);
+  }
 
-  const accessToken = await tokenService.generateToken(TokenType.ACCESS, {
-    id: user.id,
-    email: user.email,
-  });
-  const refreshToken = await tokenService.generateToken(TokenType.REFRESH, {
-    id: user.id,
-    email: user.email,
-  });
+  await LoginAttemptService.clearFailedLogins(dto.email);
 
-  const roles = user.roles.map((userRole) => userRole.role.code);
+  return completeLogin(user);
+};
 
-  return {
-    accessToken,
-    refreshToken,
-    roles,
-  };
+/**
+ * Trades the login code from the single sign-on callback for tokens, or for a two-factor
+ * challenge like a password login.
+ */
+export const exchangeSsoLoginCode = async (
+  dto: ExchangeSsoLoginCodeDTO,
+): Promise<AuthenticationResponse | MfaChallengeResponse> => {
+  const userId = await consumeOneTimeToken(OneTimeTokenPurpose.SSO_LOGIN, dto.code);
+  if (!userId) throw new Error("Invalid or expired login code");
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new Error("User not found");
+
+  return completeLogin(user);
+};
+
+export const getLoginMethods = (email: string): LoginMethodsResponse => ({
+  password: !isPasswordLoginDisabled(email),
+  sso: config.OIDC_ENABLED,
+});
+
+export const verifyMfaChallenge = async (
+  dto: VerifyMfaChallengeDTO,
+): Promise<AuthenticationResponse> => {
+  const userId = await MfaService.completeMfaChallenge(dto);
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new Error("User not found");
+
+  return startSession(user, true);
 };
 
 export const refreshToken = async (token: string): Promise<AuthenticationResponse> => {
-  const decoded = await tokenService.verifyToken(TokenType.ACCESS, token);
+  const decoded = await verifyRefreshToken(token);
   const user = await prisma.user.findUnique({
     where: { id: decoded.id },
     include: {
@@ -83,25 +218,94 @@ export const refreshToken = async (token: string): Promise<AuthenticationRespons
   });
   if (!user) throw new Error("User not found");
 
-  const accessToken = await tokenService.generateToken(TokenType.ACCESS, {
-    id: user.id,
-    email: user.email,
-  });
-  const newRefreshToken = await tokenService.generateToken(TokenType.REFRESH, {
-    id: user.id,
-    email: user.email,
-  });
-  const roles = user.roles.map((userRole) => userRole.role.name);
+  const jti = await SessionService.rotateSession(user.id, decoded.sid, decoded.jti);
+  const roles = user.roles.map((userRole) => userRole.role.code);
+  const tokens = await issueTokens(user, roles, decoded.sid, jti, decoded.mfa ?? false);
 
   return {
-    accessToken,
-    refreshToken: newRefreshToken,
+    ...tokens,
     roles,
   };
 };
 
 export const logout = async (token: string) => {
-  const decoded = await tokenService.verifyToken(TokenType.ACCESS, token);
-  const user = await prisma.user.findUnique({ where: { id: decoded.id } });
+  const decoded = await verifyRefreshToken(token);
+  await SessionService.revokeSession(decoded.id, decoded.sid);
+  return { message: "Session terminated" };
+};
+
+export const logoutAll = async (userId: string) => {
+  const revokedSessions = await SessionService.revokeAllSessions(userId);
+  return { message: "All sessions terminated", revokedSessions };
+};
+
+const sendPasswordResetMail = async (user: { id: string; name: string; email: string }) => {
+  const token = await issueOneTimeToken(
+    OneTimeTokenPurpose.PASSWORD_RESET,
+    user.id,
+    config.PASSWORD_RESET_TOKEN_TTL,
+  );
+  await MailService.sendPasswordResetMail(user, token);
+};
+
+export const forgotPassword = async (dto: ForgotPasswordDTO) => {
+  const user = await prisma.user.findUnique({ where: { email: dto.email } });
+
+  // Accounts that must use single sign-on have no password to reset. The mail is not awaited, so
+  // the response takes as long whether or not the account exists
+  if (user && !isPasswordLoginDisabled(user.email)) {
+    sendPasswordResetMail(user).catch((error) => {
+      console.error("Failed to send password reset email:", error);
+    });
+  }
+
+  // Same answer for unknown emails, so the endpoint cannot be used to find accounts
+  return { message: "If an account exists for this email, a reset link has been sent" };
+};
+
+export const resetPassword = async (dto: ResetPasswordDTO) => {
+  if (dto.password !== dto.rePassword) throw new Error("Passwords do not match");
+
+  const userId = await consumeOneTimeToken(OneTimeTokenPurpose.PASSWORD_RESET, dto.token);
+  if (!userId) throw new Error("Invalid or expired reset token");
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
   if (!user) throw new Error("User not found");
+
+  const hashed = await bcrypt.hash(dto.password, 10);
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      passwordHash: hashed,
+      // The reset link was delivered to the address, which proves the user owns it
+      ...(!user.emailVerifiedAt && { emailVerifiedAt: new Date() }),
+    },
+  });
+
+  // Whoever knew the old password must not stay signed in, including through tokens they created
+  await SessionService.revokeAllSessions(userId);
+  await revokeAllAccessTokens(userId);
+
+  return { message: "Password has been reset" };
+};
+
+export const verifyEmail = async (dto: VerifyEmailDTO) => {
+  const userId = await consumeOneTimeToken(OneTimeTokenPurpose.EMAIL_VERIFICATION, dto.token);
+  if (!userId) throw new Error("Invalid or expired verification token");
+
+  await prisma.user.updateMany({
+    where: { id: userId, emailVerifiedAt: null },
+    data: { emailVerifiedAt: new Date() },
+  });
+
+  return { message: "Email address verified" };
+};
+
+export const resendVerificationEmail = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new Error("User not found");
+  if (user.emailVerifiedAt) throw new Error("Email address is already verified");
+
+  await sendVerificationMail(user);
+  return { message: "Verification email sent" };
 };
@@ -12,9 +12,27 @@ export interface RegisterDTO {
   rePassword: string;
 }
 
+export interface ForgotPasswordDTO {
+  email: string;
+}
+
+export interface ResetPasswordDTO {
+  token: string;
+  password: string;
+  rePassword: string;
+}
+
+export interface VerifyEmailDTO {
+  token: string;
+}
+
 export interface TokenPayload extends JwtPayload {
   id: string;
   email: string;
+  sid?: string;
+  roles?: string[];
+  // Whether the session was signed in with a second factor
+  mfa?: boolean;
 }
 
 export interface AuthenticationResponse {
@@ -22,3 +40,47 @@ export interface AuthenticationResponse {
   refreshToken: string;
   roles: string[];
 }
+
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+export interface VerifyMfaChallengeDTO {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface EnableTwoFactorDTO {
+  code: string;
+}
+
+export interface DisableTwoFactorDTO {
+  password: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface RegenerateRecoveryCodesDTO {
+  code: string;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface ExchangeSsoLoginCodeDTO {
+  code: string;
+}
+
+export interface LoginMethodsResponse {
+  password: boolean;
+  sso: boolean;
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
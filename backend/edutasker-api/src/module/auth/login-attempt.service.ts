@@ -0,0 +1,58 @@
+import { config } from "../../config/env.js";
+import redis from "../../config/redis.js";
+import { ServiceError } from "../../helper/service-error.js";
+
+type AttemptScope = "account" | "ip";
+
+// Failures are counted per email whether or not an account exists, so lockouts reveal nothing
+const failuresKey = (scope: AttemptScope, subject: string) =>
+  `auth:login-failures:${scope}:${subject}`;
+const lockKey = (scope: AttemptScope, subject: string) => `auth:login-lock:${scope}:${subject}`;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const recordFailure = async (scope: AttemptScope, subject: string, maxAttempts: number) => {
+  const key = failuresKey(scope, subject);
+  const failures = await redis.incr(key);
+  if (failures === 1) {
+    await redis.expire(key, config.LOGIN_ATTEMPT_WINDOW);
+  }
+
+  if (failures >= maxAttempts) {
+    await redis.set(lockKey(scope, subject), "1", {
+      expiration: { type: "EX", value: config.LOGIN_LOCKOUT_DURATION },
+    });
+    await redis.del(key);
+  }
+};
+
+/**
+ * Rejects the login while the account or the client IP is locked out after too many failures.
+ */
+export const assertLoginAllowed = async (email: string, ip: string): Promise<void> => {
+  const [accountTtl, ipTtl] = await Promise.all([
+    redis.ttl(lockKey("account", normalizeEmail(email))),
+    redis.ttl(lockKey("ip", ip)),
+  ]);
+
+  const retryAfter = Math.max(accountTtl, ipTtl);
+  if (retryAfter > 0) {
+    throw new ServiceError(
+      `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s)`,
+      "LOGIN_LOCKED",
+      { retryAfter },
+    );
+  }
+};
+
+export const recordFailedLogin = async (email: string, ip: string): Promise<void> => {
+  await Promise.all([
+    recordFailure("account", normalizeEmail(email), config.LOGIN_MAX_FAILED_ATTEMPTS),
+    recordFailure("ip", ip, config.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP),
+  ]);
+};
+
+// The IP counter is left alone so one valid account cannot be used to reset it
+export const clearFailedLogins = async (email: string): Promise<void> => {
+  await redis.del(failuresKey("account", normalizeEmail(email)));
+};
@@ -0,0 +1,217 @@
+import bcrypt from "bcryptjs";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { prisma } from "../../config/database.js";
+import { config } from "../../config/env.js";
+import redis from "../../config/redis.js";
+import { getUserRoleCodes } from "../role/role.service.js";
+import type {
+  DisableTwoFactorDTO,
+  EnableTwoFactorDTO,
+  MfaChallengeResponse,
+  RecoveryCodesResponse,
+  RegenerateRecoveryCodesDTO,
+  TwoFactorSetupResponse,
+  VerifyMfaChallengeDTO,
+} from "./auth.type.js";
+import tokenService, { TokenType } from "./token.service.js";
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from "./totp.util.js";
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+// Long enough to outlive the verification window of the matched step
+const USED_STEP_TTL_SECONDS = 120;
+
+const challengeAttemptsKey = (jti: string) => `auth:mfa-challenge:${jti}`;
+const lastTotpStepKey = (userId: string) => `auth:totp:last-step:${userId}`;
+
+// Dashes and case are only there for readability
+const hashRecoveryCode = (code: string) =>
+  createHash("sha256").update(code.replace(/-/g, "").toUpperCase()).digest("hex");
+
+const generateRecoveryCode = (): string => {
+  const raw = randomBytes(5).toString("hex").toUpperCase();
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+/**
+ * Roles whose members must sign in with a second factor, from MFA_REQUIRED_ROLES.
+ */
+export const getMfaRequiredRoles = (): string[] =>
+  config.MFA_REQUIRED_ROLES.split(",")
+    .map((role) => role.trim().toUpperCase())
+    .filter(Boolean);
+
+const findUser = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) throw new Error("User not found");
+  return user;
+};
+
+const replaceRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+};
+
+/**
+ * Accepts a TOTP code at most once: a code from a step at or before the last accepted one is
+ * rejected even while it is still inside the time window.
+ */
+const acceptTotpCode = async (userId: string, secret: string, code: string): Promise<boolean> => {
+  const step = verifyTotp(secret, code);
+  if (step === null) return false;
+
+  const lastStep = await redis.get(lastTotpStepKey(userId));
+  if (lastStep && step <= Number(lastStep)) return false;
+
+  await redis.set(lastTotpStepKey(userId), step.toString(), {
+    expiration: { type: "EX", value: USED_STEP_TTL_SECONDS },
+  });
+  return true;
+};
+
+const useRecoveryCode = async (userId: string, code: string): Promise<boolean> => {
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count > 0;
+};
+
+const verifySecondFactor = async (
+  user: { id: string; totpSecret: string | null },
+  input: { code?: string; recoveryCode?: string },
+): Promise<boolean> => {
+  if (!user.totpSecret) return false;
+  if (input.code) return acceptTotpCode(user.id, user.totpSecret, input.code);
+  if (input.recoveryCode) return useRecoveryCode(user.id, input.recoveryCode);
+  return false;
+};
+
+export const setupTwoFactor = async (userId: string): Promise<TwoFactorSetupResponse> => {
+  const user = await findUser(userId);
+  if (user.totpEnabledAt) throw new Error("Two-factor authentication is already enabled");
+
+  // The secret stays pending until a code from it is confirmed
+  const secret = generateTotpSecret();
+  await prisma.user.update({ where: { id: userId }, data: { totpSecret: secret } });
+
+  return { secret, otpauthUrl: buildOtpauthUrl(secret, user.email, config.MFA_ISSUER) };
+};
+
+export const enableTwoFactor = async (
+  userId: string,
+  dto: EnableTwoFactorDTO,
+): Promise<RecoveryCodesResponse> => {
+  const user = await findUser(userId);
+  if (user.totpEnabledAt) throw new Error("Two-factor authentication is already enabled");
+  if (!user.totpSecret) throw new Error("Start the two-factor setup first");
+
+  if (!(await acceptTotpCode(userId, user.totpSecret, dto.code))) {
+    throw new Error("Invalid verification code");
+  }
+
+  await prisma.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date() } });
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+
+  return { recoveryCodes };
+};
+
+export const disableTwoFactor = async (userId: string, dto: DisableTwoFactorDTO) => {
+  const user = await findUser(userId);
+  if (!user.totpEnabledAt) throw new Error("Two-factor authentication is not enabled");
+
+  const requiredRoles = getMfaRequiredRoles();
+  const roles = await getUserRoleCodes(userId);
+  if (roles.some((role) => requiredRoles.includes(role))) {
+    throw new Error("Two-factor authentication is required for your role");
+  }
+
+  const valid = await bcrypt.compare(dto.password, user.passwordHash);
+  if (!valid) throw new Error("Password is incorrect");
+
+  if (!(await verifySecondFactor(user, dto))) {
+    throw new Error("Invalid verification code");
+  }
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null },
+    }),
+  ]);
+
+  return { message: "Two-factor authentication disabled" };
+};
+
+export const regenerateRecoveryCodes = async (
+  userId: string,
+  dto: RegenerateRecoveryCodesDTO,
+): Promise<RecoveryCodesResponse> => {
+  const user = await findUser(userId);
+  if (!user.totpEnabledAt || !user.totpSecret) {
+    throw new Error("Two-factor authentication is not enabled");
+  }
+
+  if (!(await acceptTotpCode(userId, user.totpSecret, dto.code))) {
+    throw new Error("Invalid verification code");
+  }
+
+  return { recoveryCodes: await replaceRecoveryCodes(userId) };
+};
+
+export const createMfaChallenge = async (user: {
+  id: string;
+  email: string;
+}): Promise<MfaChallengeResponse> => {
+  const challengeToken = await tokenService.generateToken(TokenType.MFA_CHALLENGE, {
+    id: user.id,
+    email: user.email,
+    jti: randomUUID(),
+  });
+
+  return { mfaRequired: true, challengeToken, expiresIn: config.MFA_CHALLENGE_EXPIRES_IN };
+};
+
+/**
+ * Checks the second factor for a login challenge and returns the user it was issued to. A
+ * challenge allows a few attempts and can only be completed once.
+ */
+export const completeMfaChallenge = async (dto: VerifyMfaChallengeDTO): Promise<string> => {
+  let decoded;
+  try {
+    decoded = await tokenService.verifyToken(TokenType.MFA_CHALLENGE, dto.challengeToken);
+  } catch {
+    throw new Error("Invalid or expired challenge token");
+  }
+  if (!decoded.jti) throw new Error("Invalid or expired challenge token");
+
+  const attemptsKey = challengeAttemptsKey(decoded.jti);
+  const attempts = await redis.incr(attemptsKey);
+  if (attempts === 1) {
+    await redis.expire(attemptsKey, config.MFA_CHALLENGE_EXPIRES_IN);
+  }
+  if (attempts > MAX_CHALLENGE_ATTEMPTS) {
+    throw new Error("Too many attempts. Please sign in again");
+  }
+
+  const user = await findUser(decoded.id);
+  if (!user.totpEnabledAt || !(await verifySecondFactor(user, dto))) {
+    throw new Error("Invalid verification code");
+  }
+
+  // Use up the remaining attempts so the same challenge cannot sign in twice
+  await redis.set(attemptsKey, MAX_CHALLENGE_ATTEMPTS.toString(), {
+    expiration: { type: "EX", value: config.MFA_CHALLENGE_EXPIRES_IN },
+  });
+
+  return user.id;
+};
@@ -0,0 +1,251 @@
+import bcrypt from "bcryptjs";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import * as client from "openid-client";
+import { prisma } from "../../config/database.js";
+import { config } from "../../config/env.js";
+import redis from "../../config/redis.js";
+import { getUserRoleCodes } from "../role/role.service.js";
+import { issueOneTimeToken, OneTimeTokenPurpose } from "./one-time-token.service.js";
+
+// Time the user has to finish signing in at the identity provider
+export const LOGIN_STATE_TTL_SECONDS = 10 * 60;
+// Ties the login to the browser that started it
+export const LOGIN_STATE_COOKIE = "edutasker_oidc_state";
+// The login code only travels from the callback redirect to the client's exchange request
+const LOGIN_CODE_TTL_SECONDS = 60;
+
+const loginStateKey = (state: string) => `auth:oidc-state:${state}`;
+
+let oidcConfiguration: Promise<client.Configuration> | null = null;
+
+const signLoginState = (state: string) =>
+  createHmac("sha256", config.JWT_SECRET).update(`oidc-state:${state}`).digest("base64url");
+
+/**
+ * Checks that the state cookie was issued for this state by this API. Without it, a login started
+ * in one browser could be completed in another.
+ */
+const assertLoginStateCookie = (state: string, stateCookie: string | undefined) => {
+  const [cookieState, signature = ""] = (stateCookie ?? "").split(".");
+  const expected = Buffer.from(signLoginState(state));
+  const actual = Buffer.from(signature);
+  if (
+    cookieState !== state ||
+    actual.length !== expected.length ||
+    !timingSafeEqual(actual, expected)
+  ) {
+    throw new Error("This login was started in another browser. Please sign in again");
+  }
+};
+
+const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const isDomainListed = (domains: string, email: string): boolean => {
+  const domain = email.split("@").pop()?.trim().toLowerCase() ?? "";
+  return splitList(domains)
+    .map((item) => item.toLowerCase())
+    .includes(domain);
+};
+
+/**
+ * Whether users with this email must sign in through single sign-on, from
+ * PASSWORD_LOGIN_DISABLED_DOMAINS.
+ */
+export const isPasswordLoginDisabled = (email: string): boolean =>
+  isDomainListed(config.PASSWORD_LOGIN_DISABLED_DOMAINS, email);
+
+/**
+ * Parses OIDC_ROLE_MAPPING, e.g. `students=STUDENT,teachers=MENTOR`, into claim value -> role codes.
+ */
+const getRoleMapping = (): Map<string, string[]> => {
+  const mapping = new Map<string, string[]>();
+  splitList(config.OIDC_ROLE_MAPPING).forEach((entry) => {
+    const [claimValue, roleCode] = entry.split("=").map((part) => part.trim());
+    if (claimValue && roleCode) {
+      mapping.set(claimValue, [...(mapping.get(claimValue) ?? []), roleCode.toUpperCase()]);
+    }
+  });
+  return mapping;
+};
+
+const mapClaimToRoles = (claim: unknown): string[] => {
+  const values = Array.isArray(claim)
+    ? claim.filter((value): value is string => typeof value === "string")
+    : typeof claim === "string"
+      ? claim.split(/[\s,]+/)
+      : [];
+
+  const mapping = getRoleMapping();
+  return [...new Set(values.flatMap((value) => mapping.get(value) ?? []))];
+};
+
+const getOidcConfiguration = (): Promise<client.Configuration> => {
+  if (!config.OIDC_ENABLED) {
+    throw new Error("Single sign-on is not enabled");
+  }
+
+  // Discovery runs once; a failed attempt is retried on the next login
+  if (!oidcConfiguration) {
+    oidcConfiguration = client
+      .discovery(
+        new URL(config.OIDC_ISSUER_URL),
+        config.OIDC_CLIENT_ID,
+        undefined,
+        config.OIDC_CLIENT_SECRET
+          ? client.ClientSecretBasic(config.OIDC_CLIENT_SECRET)
+          : client.None(),
+        // Plain HTTP is only meant for a local mock identity provider
+        { execute: config.OIDC_ALLOW_INSECURE ? [client.allowInsecureRequests] : [] },
+      )
+      .catch((error) => {
+        oidcConfiguration = null;
+        throw error;
+      });
+  }
+
+  return oidcConfiguration;
+};
+
+/**
+ * Gives the user exactly the roles their claims map to, among the roles OIDC_ROLE_MAPPING manages.
+ * Roles outside the mapping, such as ADMIN granted by hand, are left alone. A user left without
+ * any role gets OIDC_DEFAULT_ROLE.
+ */
+const syncRolesFromClaims = async (userId: string, claimRoles: string[]) => {
+  const managedRoles = [...new Set([...getRoleMapping().values()].flat())];
+  const currentRoles = await getUserRoleCodes(userId);
+
+  const rolesToRemove = currentRoles.filter(
+    (role) => managedRoles.includes(role) && !claimRoles.includes(role),
+  );
+  const rolesToAdd = claimRoles.filter((role) => !currentRoles.includes(role));
+  const remainingRoles = currentRoles.filter((role) => !rolesToRemove.includes(role));
+  if (remainingRoles.length === 0 && rolesToAdd.length === 0) {
+    rolesToAdd.push(config.OIDC_DEFAULT_ROLE.toUpperCase());
+  }
+
+  const roles = await prisma.role.findMany({ where: { code: { in: rolesToAdd } } });
+  const missingRoles = rolesToAdd.filter((code) => !roles.some((role) => role.code === code));
+  if (missingRoles.length > 0) {
+    console.warn(`OIDC role mapping refers to unknown roles: ${missingRoles.join(", ")}`);
+  }
+
+  await prisma.$transaction([
+    prisma.userRole.deleteMany({ where: { userId, role: { code: { in: rolesToRemove } } } }),
+    prisma.userRole.createMany({
+      data: roles.map((role) => ({ userId, roleId: role.id })),
+      skipDuplicates: true,
+    }),
+  ]);
+};
+
+const findOrCreateUser = async (claims: Record<string, unknown>) => {
+  if (typeof claims.email !== "string" || !claims.email.includes("@")) {
+    throw new Error("The identity provider did not return an email address");
+  }
+  // Linking by email is only safe when the provider vouches for the address
+  if (claims.email_verified !== true) {
+    throw new Error("The identity provider has not verified this email address");
+  }
+
+  const email = claims.email.trim().toLowerCase();
+  // The provider is only trusted for the domains it is the authority for
+  if (!isDomainListed(config.OIDC_ALLOWED_DOMAINS, email)) {
+    throw new Error("Single sign-on is not available for this email domain");
+  }
+  let user = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" } },
+  });
+
+  if (!user) {
+    const name =
+      (typeof claims.name === "string" && claims.name) ||
+      (typeof claims.preferred_username === "string" && claims.preferred_username) ||
+      email.split("@")[0]!;
+    // The account signs in through the provider; nobody knows this password
+    const passwordHash = await bcrypt.hash(randomBytes(32).toString("hex"), 10);
+    user = await prisma.user.create({
+      data: { email, name, passwordHash, emailVerifiedAt: new Date() },
+    });
+  } else if (!user.emailVerifiedAt) {
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerifiedAt: new Date() },
+    });
+  }
+
+  await syncRolesFromClaims(user.id, mapClaimToRoles(claims[config.OIDC_ROLE_CLAIM]));
+
+  return user;
+};
+
+/**
+ * Starts an authorization code + PKCE login. Returns the identity provider URL to redirect to and
+ * the value of the `LOGIN_STATE_COOKIE` the browser must bring back to the callback.
+ */
+export const startOidcLogin = async (): Promise<{ url: string; stateCookie: string }> => {
+  const oidc = await getOidcConfiguration();
+
+  const state = client.randomState();
+  const nonce = client.randomNonce();
+  const codeVerifier = client.randomPKCECodeVerifier();
+  await redis.set(loginStateKey(state), JSON.stringify({ codeVerifier, nonce }), {
+    expiration: { type: "EX", value: LOGIN_STATE_TTL_SECONDS },
+  });
+
+  const authorizationUrl = client.buildAuthorizationUrl(oidc, {
+    redirect_uri: config.OIDC_REDIRECT_URI,
+    scope: config.OIDC_SCOPES,
+    state,
+    nonce,
+    code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+    code_challenge_method: "S256",
+  });
+
+  return { url: authorizationUrl.href, stateCookie: `${state}.${signLoginState(state)}` };
+};
+
+/**
+ * Completes the login at the redirect URI: exchanges the code, finds or creates the user and
+ * returns a short-lived login code for `exchangeSsoLoginCode`, so tokens never appear in a URL.
+ */
+export const completeOidcLogin = async (
+  callbackUrl: URL,
+  stateCookie: string | undefined,
+): Promise<string> => {
+  const oidc = await getOidcConfiguration();
+
+  const state = callbackUrl.searchParams.get("state");
+  if (!state) {
+    throw new Error("Invalid or expired login state. Please sign in again");
+  }
+  assertLoginStateCookie(state, stateCookie);
+
+  const storedState = await redis.getDel(loginStateKey(state));
+  if (!storedState) {
+    throw new Error("Invalid or expired login state. Please sign in again");
+  }
+  const { codeVerifier, nonce } = JSON.parse(storedState);
+
+  const tokens = await client.authorizationCodeGrant(oidc, callbackUrl, {
+    pkceCodeVerifier: codeVerifier,
+    expectedState: state,
+    expectedNonce: nonce,
+    idTokenExpected: true,
+  });
+
+  const idTokenClaims = tokens.claims()!;
+  let claims: Record<string, unknown> = { ...idTokenClaims };
+  // Many providers only put the email and group claims in the userinfo response
+  if (claims.email === undefined || claims[config.OIDC_ROLE_CLAIM] === undefined) {
+    const userInfo = await client.fetchUserInfo(oidc, tokens.access_token, idTokenClaims.sub);
+    claims = { ...userInfo, ...claims };
+  }
+
+  const user = await findOrCreateUser(claims);
+  return issueOneTimeToken(OneTimeTokenPurpose.SSO_LOGIN, user.id, LOGIN_CODE_TTL_SECONDS);
+};
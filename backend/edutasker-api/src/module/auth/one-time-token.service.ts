@@ -0,0 +1,63 @@
+import { createHash, randomBytes } from "crypto";
+import redis from "../../config/redis.js";
+
+export enum OneTimeTokenPurpose {
+  PASSWORD_RESET = "password-reset",
+  EMAIL_VERIFICATION = "email-verification",
+  SSO_LOGIN = "sso-login",
+}
+
+// Only a hash of the token is stored, so a leaked Redis dump cannot be replayed
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+const tokenKey = (purpose: OneTimeTokenPurpose, hash: string) => `auth:${purpose}:${hash}`;
+const userTokenKey = (purpose: OneTimeTokenPurpose, userId: string) =>
+  `auth:${purpose}:user:${userId}`;
+
+/**
+ * Issues a random token that resolves to the user until it is consumed or expires. Issuing a new
+ * token for the same purpose invalidates the previous one.
+ */
+export const issueOneTimeToken = async (
+  purpose: OneTimeTokenPurpose,
+  userId: string,
+  ttlSeconds: number,
+): Promise<string> => {
+  const token = randomBytes(32).toString("base64url");
+  const hash = hashToken(token);
+
+  const previousHash = await redis.set(userTokenKey(purpose, userId), hash, {
+    GET: true,
+    expiration: { type: "EX", value: ttlSeconds },
+  });
+  if (previousHash) {
+    await redis.del(tokenKey(purpose, previousHash));
+  }
+
+  await redis.set(tokenKey(purpose, hash), userId, {
+    expiration: { type: "EX", value: ttlSeconds },
+  });
+
+  return token;
+};
+
+/**
+ * Returns the user the token was issued to and invalidates it, or null when the token is unknown,
+ * expired or already used.
+ */
+export const consumeOneTimeToken = async (
+  purpose: OneTimeTokenPurpose,
+  token: string,
+): Promise<string | null> => {
+  const hash = hashToken(token);
+  const userId = await redis.getDel(tokenKey(purpose, hash));
+  if (!userId) {
+    return null;
+  }
+
+  const currentHash = await redis.get(userTokenKey(purpose, userId));
+  if (currentHash === hash) {
+    await redis.del(userTokenKey(purpose, userId));
+  }
+
+  return userId;
+};
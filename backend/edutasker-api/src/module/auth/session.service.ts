@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto";
+import redis from "../../config/redis.js";
+import { config } from "../../config/env.js";
+
+// A session is one refresh-token family: every rotation replaces the family's current jti
+const sessionKey = (sessionId: string) => `auth:session:${sessionId}`;
+const userSessionsKey = (userId: string) => `auth:sessions:user:${userId}`;
+const revokedBeforeKey = (userId: string) => `auth:revoked-before:${userId}`;
+
+export const createSession = async (userId: string): Promise<{ sid: string; jti: string }> => {
+  const sid = randomUUID();
+  const jti = randomUUID();
+
+  await redis.set(sessionKey(sid), jti, {
+    expiration: { type: "EX", value: config.JWT_REFRESH_EXPIRES_IN },
+  });
+  await redis.sAdd(userSessionsKey(userId), sid);
+  await redis.expire(userSessionsKey(userId), config.JWT_REFRESH_EXPIRES_IN);
+
+  return { sid, jti };
+};
+
+/**
+ * Swaps the session's current jti for a new one. Presenting a jti that is not the current one
+ * means an already rotated token was replayed, so the whole session is revoked.
+ */
+export const rotateSession = async (userId: string, sid: string, jti: string): Promise<string> => {
+  const nextJti = randomUUID();
+  const currentJti = await redis.set(sessionKey(sid), nextJti, {
+    GET: true,
+    expiration: { type: "EX", value: config.JWT_REFRESH_EXPIRES_IN },
+  });
+
+  if (currentJti === null) {
+    await revokeSession(userId, sid);
+    throw new Error("Session has been revoked");
+  }
+
+  if (currentJti !== jti) {
+    await revokeSession(userId, sid);
+    throw new Error("Refresh token reuse detected. Session has been revoked");
+  }
+
+  await redis.expire(userSessionsKey(userId), config.JWT_REFRESH_EXPIRES_IN);
+  return nextJti;
+};
+
+export const revokeSession = async (userId: string, sid: string): Promise<void> => {
+  await Promise.all([redis.del(sessionKey(sid)), redis.sRem(userSessionsKey(userId), sid)]);
+};
+
+export const revokeAllSessions = async (userId: string): Promise<number> => {
+  const sessionIds = await redis.sMembers(userSessionsKey(userId));
+
+  await redis.del([...sessionIds.map(sessionKey), userSessionsKey(userId)]);
+
+  // Access tokens are stateless, so reject any issued before this moment until they expire
+  await redis.set(revokedBeforeKey(userId), Date.now().toString(), {
+    expiration: { type: "EX", value: config.JWT_EXPIRES_IN },
+  });
+
+  return sessionIds.length;
+};
+
+/**
+ * `iat` only has whole-second precision, so a token issued in the same second as the revocation
+ * cannot be ordered by time alone. It stays valid only if its session still exists, which means
+ * the session was started after the revocation removed all earlier ones.
+ */
+export const isAccessTokenRevoked = async (
+  userId: string,
+  issuedAt?: number,
+  sid?: string,
+): Promise<boolean> => {
+  const revokedBefore = await redis.get(revokedBeforeKey(userId));
+  if (!revokedBefore) {
+    return false;
+  }
+
+  if (issuedAt === undefined) {
+    return true;
+  }
+
+  const issuedAtMs = issuedAt * 1000;
+  // Values written before the switch to milliseconds are still around until they expire
+  const revokedAtMs =
+    Number(revokedBefore) < 1e12 ? Number(revokedBefore) * 1000 : Number(revokedBefore);
+  if (issuedAtMs + 1000 <= revokedAtMs) {
+    return true;
+  }
+  if (issuedAtMs > revokedAtMs) {
+    return false;
+  }
+
+  return !sid || !(await redis.exists(sessionKey(sid)));
+};
@@ -1,3 +1,4 @@
+import { createHmac } from "crypto";
 import type { TokenPayload } from "./auth.type.js";
 import jwt, { type SignOptions } from "jsonwebtoken";
 import { config } from "../../config/env.js";
@@ -5,8 +6,14 @@ import { config } from "../../config/env.js";
 export enum TokenType {
   ACCESS = "access",
   REFRESH = "refresh",
+  MFA_CHALLENGE = "mfa-challenge",
 }
 
+// Challenge tokens get their own key so they can never pass as access tokens
+const mfaChallengeSecret = createHmac("sha256", config.JWT_SECRET)
+  .update("mfa-challenge")
+  .digest("hex");
+
 const tokenService = {
   async generateToken(type: TokenType = TokenType.ACCESS, payload: TokenPayload): Promise<string> {
     switch (type) {
@@ -16,6 +23,9 @@ const tokenService = {
       case TokenType.REFRESH:
         const refreshOptions: SignOptions = { expiresIn: config.JWT_REFRESH_EXPIRES_IN };
         return jwt.sign(payload, config.JWT_REFRESH_SECRET, refreshOptions);
+      case TokenType.MFA_CHALLENGE:
+        const challengeOptions: SignOptions = { expiresIn: config.MFA_CHALLENGE_EXPIRES_IN };
+        return jwt.sign(payload, mfaChallengeSecret, challengeOptions);
     }
   },
 
@@ -25,6 +35,8 @@ const tokenService = {
         return jwt.verify(token, config.JWT_SECRET as string) as TokenPayload;
       case TokenType.REFRESH:
         return jwt.verify(token, config.JWT_REFRESH_SECRET) as TokenPayload;
+      case TokenType.MFA_CHALLENGE:
+        return jwt.verify(token, mfaChallengeSecret) as TokenPayload;
     }
   },
 };
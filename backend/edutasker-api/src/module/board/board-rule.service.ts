@@ -0,0 +1,135 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { ServiceError } from "../../helper/service-error.js";
+import { ProjectRole } from "../project/project.type.js";
+import { BoardRuleErrorCode } from "./board.type.js";
+import type { BoardRuleCheck, BoardWipUsage } from "./board.type.js";
+
+// Boards at or above this share of their limit are reported as "near"
+const WIP_NEAR_THRESHOLD = 0.8;
+
+export const isProjectLeader = async (projectId: string, userId: string): Promise<boolean> => {
+  const [member, mentor] = await Promise.all([
+    prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+    }),
+    prisma.projectMentor.findFirst({
+      where: { projectId, userId },
+    }),
+  ]);
+
+  return !!mentor || member?.role.toUpperCase() === ProjectRole.LEADER;
+};
+
+export const assertProjectLeader = async (projectId: string, userId: string): Promise<void> => {
+  if (!(await isProjectLeader(projectId, userId))) {
+    throw new Error("Only project leaders can change board rules");
+  }
+};
+
+export const calculateWipUsage = (wipLimit: number, taskCount: number): BoardWipUsage => {
+  const utilization = wipLimit === 0 ? 100 : Math.round((taskCount / wipLimit) * 100);
+
+  let state: BoardWipUsage["state"] = "ok";
+  if (taskCount > wipLimit) {
+    state = "exceeded";
+  } else if (taskCount === wipLimit) {
+    state = "reached";
+  } else if (taskCount >= wipLimit * WIP_NEAR_THRESHOLD) {
+    state = "near";
+  }
+
+  return {
+    limit: wipLimit,
+    taskCount,
+    remaining: Math.max(wipLimit - taskCount, 0),
+    utilization,
+    state,
+  };
+};
+
+/**
+ * Checks that a task may enter `toBoardId`: the source board must allow the transition (boards
+ * without configured transitions allow any target) and the target must be below its WIP limit.
+ * Project leaders can pass `override` to skip both checks. On its own the WIP check can race with
+ * other moves; use `withBoardRules` for the write that puts the task on the board.
+ */
+export const assertBoardRules = async (
+  check: BoardRuleCheck,
+  db: Prisma.TransactionClient = prisma,
+): Promise<void> => {
+  const { projectId, fromBoardId, toBoardId, userId, override } = check;
+
+  if (fromBoardId === toBoardId) {
+    return;
+  }
+
+  if (override) {
+    if (!(await isProjectLeader(projectId, userId))) {
+      throw new Error("Only project leaders can override board rules");
+    }
+    return;
+  }
+
+  const targetBoard = await db.board.findUnique({
+    where: { id: toBoardId },
+    select: {
+      name: true,
+      wipLimit: true,
+      _count: { select: { tasks: true } },
+    },
+  });
+
+  if (!targetBoard) {
+    throw new Error("Board not found");
+  }
+
+  if (fromBoardId) {
+    const transitions = await db.boardTransition.findMany({
+      where: { fromBoardId },
+      select: { toBoardId: true, fromBoard: { select: { name: true } } },
+    });
+
+    if (
+      transitions.length > 0 &&
+      !transitions.some((transition) => transition.toBoardId === toBoardId)
+    ) {
+      throw new ServiceError(
+        `Tasks cannot move from "${transitions[0]!.fromBoard.name}" to "${targetBoard.name}"`,
+        BoardRuleErrorCode.TRANSITION_NOT_ALLOWED,
+        {
+          fromBoardId,
+          toBoardId,
+          allowedTargetBoardIds: transitions.map((transition) => transition.toBoardId),
+        },
+      );
+    }
+  }
+
+  if (targetBoard.wipLimit !== null && targetBoard._count.tasks >= targetBoard.wipLimit) {
+    throw new ServiceError(
+      `Board "${targetBoard.name}" has reached its WIP limit of ${targetBoard.wipLimit} tasks`,
+      BoardRuleErrorCode.WIP_LIMIT_EXCEEDED,
+      {
+        boardId: toBoardId,
+        wipLimit: targetBoard.wipLimit,
+        taskCount: targetBoard._count.tasks,
+      },
+    );
+  }
+};
+
+/**
+ * Checks the board rules and runs `write` in one transaction that holds a row lock on the target
+ * board, so concurrent moves onto the same board cannot both pass the WIP check.
+ */
+export const withBoardRules = async <T>(
+  check: BoardRuleCheck,
+  write: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> => {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "public"."boards" WHERE id = ${check.toBoardId} FOR UPDATE`;
+    await assertBoardRules(check, tx);
+    return write(tx);
+  });
+};
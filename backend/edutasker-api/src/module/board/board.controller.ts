@@ -1,6 +1,12 @@
 import type { Request, Response } from "express";
 import * as BoardService from "./board.service.js";
-import type { CreateBoardDTO, UpdateBoardDTO, ReorderBoardDTO, BoardQuery } from "./board.type.js";
+import type {
+  CreateBoardDTO,
+  UpdateBoardDTO,
+  ReorderBoardDTO,
+  BoardQuery,
+  SetBoardTransitionsDTO,
+} from "./board.type.js";
 import { serviceWrapper } from "../../helper/service-wrapper.js";
 
 const createBoardHandler = async (req: Request, res: Response) => {
@@ -84,6 +90,18 @@ const reorderBoardsHandler = async (req: Request, res: Response) => {
   return await BoardService.reorderBoards(projectId, reorderData, userId);
 };
 
+const setBoardTransitionsHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = (req as any).user.id;
+
+  if (!id) {
+    throw new Error("Board ID is required");
+  }
+
+  const data: SetBoardTransitionsDTO = req.body;
+  return await BoardService.setBoardTransitions(id, data, userId);
+};
+
 const getBoardStatsHandler = async (req: Request, res: Response) => {
   const { id } = req.params;
   const userId = (req as any).user.id;
@@ -104,6 +122,10 @@ export const getProjectBoards = serviceWrapper(
 export const updateBoard = serviceWrapper(updateBoardHandler, "Board updated successfully");
 export const deleteBoard = serviceWrapper(deleteBoardHandler, "Board deleted successfully");
 export const reorderBoards = serviceWrapper(reorderBoardsHandler, "Boards reordered successfully");
+export const setBoardTransitions = serviceWrapper(
+  setBoardTransitionsHandler,
+  "Board transitions updated successfully",
+);
 export const getBoardStats = serviceWrapper(
   getBoardStatsHandler,
   "Board stats retrieved successfully",
@@ -7,6 +7,7 @@ import {
   getProjectBoardsSchema,
   projectIdParamSchema,
   reorderBoardsSchema,
+  setBoardTransitionsSchema,
   updateBoardSchema,
 } from "./board.schema.js";
 import { authGuard, validate } from "../../middleware/index.js";
@@ -50,6 +51,15 @@ router.use(authGuard);
  *                 minimum: 0
  *                 description: Board position order (optional, auto-assigned if not provided)
  *                 example: 0
+ *               statusId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Workflow status given to tasks on this board
+ *               wipLimit:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Maximum number of tasks on this board. Only project leaders can set it.
+ *                 example: 5
  *     responses:
  *       201:
  *         description: Board created successfully
@@ -331,6 +341,16 @@ router.get(
  *                 minimum: 0
  *                 description: Updated board position
  *                 example: 2
+ *               statusId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Map the board to another workflow status. Its tasks take the new status; null unmaps it. Only project leaders and mentors can change it.
+ *               wipLimit:
+ *                 type: integer
+ *                 minimum: 0
+ *                 nullable: true
+ *                 description: Maximum number of tasks on this board, null removes the limit. Only project leaders can change it.
  *           example:
  *             name: "In Progress"
  *             order: 1
@@ -471,6 +491,75 @@ router.delete("/:id", validate({ params: boardIdParamSchema }), BoardController.
  */
 router.get("/:id/stats", validate({ params: boardIdParamSchema }), BoardController.getBoardStats);
 
+/**
+ * @swagger
+ * /boards/{id}/transitions:
+ *   put:
+ *     summary: Set allowed board transitions
+ *     description: |
+ *       Replaces the boards that tasks may move to from this board. A board without transitions allows moves
+ *       to any board; send an empty list to remove the rules. Only project leaders and mentors can change them.
+ *       Moves that break a rule fail with the `TRANSITION_NOT_ALLOWED` code unless a leader passes `overrideRules`.
+ *     tags: [Boards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - name: id
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Board ID
+ *         example: "123e4567-e89b-12d3-a456-426614174001"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - toBoardIds
+ *             properties:
+ *               toBoardIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *                 description: Boards of the same project that tasks may move to
+ *           example:
+ *             toBoardIds: ["123e4567-e89b-12d3-a456-426614174002"]
+ *     responses:
+ *       200:
+ *         description: Board transitions updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Board transitions updated successfully"
+ *                 data:
+ *                   $ref: '#/components/schemas/BoardResponse'
+ *       400:
+ *         description: Target board outside the project, or the board itself
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ *       403:
+ *         description: Access denied - Only project leaders can change board rules
+ *       404:
+ *         description: Board not found
+ */
+router.put(
+  "/:id/transitions",
+  validate({ params: boardIdParamSchema, body: setBoardTransitionsSchema }),
+  BoardController.setBoardTransitions,
+);
+
 /**
  * @swagger
  * components:
@@ -496,6 +585,55 @@ router.get("/:id/stats", validate({ params: boardIdParamSchema }), BoardControll
  *           format: uuid
  *           description: Project ID this board belongs to
  *           example: "123e4567-e89b-12d3-a456-426614174000"
+ *         status:
+ *           type: object
+ *           nullable: true
+ *           description: Workflow status the board is mapped to
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             key:
+ *               type: string
+ *               example: "todo"
+ *             name:
+ *               type: string
+ *               example: "To Do"
+ *             isFinal:
+ *               type: boolean
+ *         wipLimit:
+ *           type: integer
+ *           nullable: true
+ *           description: Maximum number of tasks on this board
+ *           example: 5
+ *         wip:
+ *           type: object
+ *           nullable: true
+ *           description: How close the board is to its WIP limit, only present when a limit is set
+ *           properties:
+ *             limit:
+ *               type: integer
+ *               example: 5
+ *             taskCount:
+ *               type: integer
+ *               example: 4
+ *             remaining:
+ *               type: integer
+ *               example: 1
+ *             utilization:
+ *               type: integer
+ *               description: Task count as a percentage of the limit
+ *               example: 80
+ *             state:
+ *               type: string
+ *               enum: [ok, near, reached, exceeded]
+ *               example: "near"
+ *         allowedTargetBoardIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *           description: Boards tasks may move to from this board. Empty means any board.
  *         tasks:
  *           type: array
  *           description: Tasks in this board (only included if requested)
@@ -570,14 +708,18 @@ router.get("/:id/stats", validate({ params: boardIdParamSchema }), BoardControll
  *           type: integer
  *           description: Total number of tasks in this board
  *           example: 10
+ *         completedTasks:
+ *           type: integer
+ *           description: Tasks in one of the workflow's final statuses
+ *           example: 2
  *         tasksByStatus:
  *           type: object
- *           description: Task count grouped by status
+ *           description: Task count for every status of the project's workflow
  *           additionalProperties:
  *             type: integer
  *           example:
  *             todo: 5
- *             in-progress: 3
+ *             doing: 3
  *             done: 2
  *         tasksByPriority:
  *           type: object
@@ -595,6 +737,24 @@ router.get("/:id/stats", validate({ params: boardIdParamSchema }), BoardControll
  *             CRITICAL:
  *               type: integer
  *               example: 1
+ *         checklist:
+ *           type: object
+ *           description: Checklist items across all tasks on the board
+ *           properties:
+ *             totalItems:
+ *               type: integer
+ *               example: 24
+ *             completedItems:
+ *               type: integer
+ *               example: 18
+ *             completionRate:
+ *               type: integer
+ *               description: Percentage of checklist items that are done
+ *               example: 75
+ *         averageProgress:
+ *           type: integer
+ *           description: Average task progress percentage, counting checklist items and subtasks
+ *           example: 62
  *
  *     TaskSummary:
  *       type: object
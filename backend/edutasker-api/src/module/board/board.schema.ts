@@ -14,6 +14,13 @@ export const createBoardSchema = Joi.object({
     "string.guid": "Invalid project ID format",
     "any.required": "Project ID is required",
   }),
+  statusId: Joi.string().guid({ version: "uuidv4" }).optional().messages({
+    "string.guid": "Invalid status ID format",
+  }),
+  wipLimit: Joi.number().integer().min(0).optional().messages({
+    "number.min": "WIP limit must be a non-negative integer",
+    "number.integer": "WIP limit must be an integer",
+  }),
 });
 
 export const updateBoardSchema = Joi.object({
@@ -25,6 +32,13 @@ export const updateBoardSchema = Joi.object({
     "number.min": "Order must be a non-negative integer",
     "number.integer": "Order must be an integer",
   }),
+  statusId: Joi.string().guid({ version: "uuidv4" }).optional().allow(null).messages({
+    "string.guid": "Invalid status ID format",
+  }),
+  wipLimit: Joi.number().integer().min(0).optional().allow(null).messages({
+    "number.min": "WIP limit must be a non-negative integer",
+    "number.integer": "WIP limit must be an integer",
+  }),
 })
   .min(1)
   .messages({
@@ -87,3 +101,16 @@ export const reorderBoardsSchema = Joi.object({
       "any.required": "Boards array is required",
     }),
 });
+
+export const setBoardTransitionsSchema = Joi.object({
+  toBoardIds: Joi.array()
+    .items(
+      Joi.string().guid({ version: "uuidv4" }).messages({
+        "string.guid": "Invalid board ID format",
+      }),
+    )
+    .required()
+    .messages({
+      "any.required": "Target board IDs are required",
+    }),
+});
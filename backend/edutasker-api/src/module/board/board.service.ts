@@ -6,6 +6,12 @@ import {
   reorderMultipleItems,
   reorderSingleItem,
 } from "../../helper/reorder.util.js";
+import { recordActivities } from "../activity/activity.service.js";
+import { TaskActivityAction } from "../activity/activity.type.js";
+import { recordStatusChanges } from "../analytics/status-history.service.js";
+import { calculateTaskProgress } from "../task/task.service.js";
+import { getWorkflowStatuses } from "../workflow/workflow.service.js";
+import { assertProjectLeader, calculateWipUsage } from "./board-rule.service.js";
 import type {
   BoardListResponse,
   BoardPermissions,
@@ -14,8 +20,25 @@ import type {
   BoardWithPermissions,
   CreateBoardDTO,
   ReorderBoardDTO,
+  SetBoardTransitionsDTO,
   UpdateBoardDTO,
 } from "./board.type.js";
+import { publishProjectEvent } from "../realtime/realtime.service.js";
+import { ProjectEventType } from "../realtime/realtime.type.js";
+
+const boardStatusInclude = {
+  status: {
+    select: {
+      id: true,
+      key: true,
+      name: true,
+      isFinal: true,
+    },
+  },
+  outgoingTransitions: {
+    select: { toBoardId: true },
+  },
+} as const;
 
 const mapToBoardResponse = (board: any): BoardResponse => {
   return {
@@ -23,6 +46,22 @@ const mapToBoardResponse = (board: any): BoardResponse => {
     name: board.name,
     order: board.order,
     projectId: board.projectId,
+    status: board.status
+      ? {
+          id: board.status.id,
+          key: board.status.key,
+          name: board.status.name,
+          isFinal: board.status.isFinal,
+        }
+      : undefined,
+    wipLimit: board.wipLimit ?? undefined,
+    wip:
+      board.wipLimit !== null && board.wipLimit !== undefined && board.taskCount !== undefined
+        ? calculateWipUsage(board.wipLimit, board.taskCount)
+        : undefined,
+    allowedTargetBoardIds: board.outgoingTransitions?.map(
+      (transition: { toBoardId: string }) => transition.toBoardId,
+    ),
     tasks: board.tasks?.map((task: any) => ({
       id: task.id,
       title: task.title,
@@ -57,6 +96,16 @@ const checkProjectAccess = async (projectId: string, userId: string): Promise<bo
   return !!access;
 };
 
+const ensureStatusInProject = async (projectId: string, statusId: string): Promise<void> => {
+  const status = await prisma.workflowStatus.findFirst({
+    where: { id: statusId, projectId },
+  });
+
+  if (!status) {
+    throw new Error("Workflow status not found in this project");
+  }
+};
+
 const checkBoardAccess = async (boardId: string, userId: string): Promise<boolean> => {
   const board = await prisma.board.findFirst({
     where: {
@@ -121,6 +170,14 @@ export const createBoard = async (data: CreateBoardDTO, userId: string): Promise
   if (!project) {
     throw new Error("Project not found");
   }
+  if (data.statusId) {
+    await ensureStatusInProject(data.projectId, data.statusId);
+  }
+
+  if (data.wipLimit !== undefined) {
+    await assertProjectLeader(data.projectId, userId);
+  }
+
   let boardOrder = data.order;
   if (boardOrder === undefined) {
     boardOrder = await getNextOrderNumber(data.projectId, "board");
@@ -133,8 +190,11 @@ export const createBoard = async (data: CreateBoardDTO, userId: string): Promise
       name: data.name,
       order: boardOrder,
       projectId: data.projectId,
+      statusId: data.statusId,
+      wipLimit: data.wipLimit,
     },
     include: {
+      ...boardStatusInclude,
       _count: {
         select: {
           tasks: true,
@@ -159,6 +219,7 @@ export const getBoardById = async (
   const board = await prisma.board.findUnique({
     where: { id: boardId },
     include: {
+      ...boardStatusInclude,
       ...(query?.includeTasks && {
         tasks: {
           orderBy: { order: "asc" },
@@ -191,10 +252,13 @@ export const getBoardById = async (
     throw new Error("Board not found");
   }
 
-  const permissions = await getBoardPermissions(boardId, userId);
+  const [permissions, taskCount] = await Promise.all([
+    getBoardPermissions(boardId, userId),
+    prisma.task.count({ where: { boardId } }),
+  ]);
 
   return {
-    ...mapToBoardResponse(board),
+    ...mapToBoardResponse({ ...board, taskCount }),
     permissions,
   };
 };
@@ -213,6 +277,7 @@ export const getProjectBoards = async (
     where: { projectId },
     orderBy: { order: "asc" },
     include: {
+      ...boardStatusInclude,
       ...(query?.includeTasks && {
         tasks: {
           orderBy: { order: "asc" },
@@ -241,7 +306,17 @@ export const getProjectBoards = async (
     },
   });
 
-  const mappedBoards = boards.map(mapToBoardResponse);
+  // Task counts are always needed to report how close each board is to its WIP limit
+  const taskCounts = await prisma.task.groupBy({
+    by: ["boardId"],
+    where: { projectId },
+    _count: { _all: true },
+  });
+  const countByBoard = new Map(taskCounts.map((count) => [count.boardId, count._count._all]));
+
+  const mappedBoards = boards.map((board) =>
+    mapToBoardResponse({ ...board, taskCount: countByBoard.get(board.id) ?? 0 }),
+  );
 
   return {
     boards: mappedBoards,
@@ -268,6 +343,16 @@ export const updateBoard = async (
     throw new Error("Board not found");
   }
 
+  if (data.statusId) {
+    await ensureStatusInProject(board.projectId, data.statusId);
+  }
+
+  // Remapping rewrites the status of every task on the board, so it is managed like the workflow
+  const statusChanged = data.statusId !== undefined && data.statusId !== board.statusId;
+  if (data.wipLimit !== undefined || statusChanged) {
+    await assertProjectLeader(board.projectId, userId);
+  }
+
   if (data.order !== undefined && data.order !== board.order) {
     await reorderSingleItem({
       itemId: boardId,
@@ -282,8 +367,11 @@ export const updateBoard = async (
     data: {
       ...(data.name && { name: data.name }),
       ...(data.order !== undefined && { order: data.order }),
+      ...(data.statusId !== undefined && { statusId: data.statusId }),
+      ...(data.wipLimit !== undefined && { wipLimit: data.wipLimit }),
     },
     include: {
+      ...boardStatusInclude,
       _count: {
         select: {
           tasks: true,
@@ -292,7 +380,42 @@ export const updateBoard = async (
     },
   });
 
-  return mapToBoardResponse(updatedBoard);
+  // Tasks follow their board, so remapping a board moves its tasks to the new status
+  if (updatedBoard.status && statusChanged) {
+    const newStatus = updatedBoard.status.key;
+    const tasks = await prisma.task.findMany({
+      where: { boardId, status: { not: newStatus } },
+      select: { id: true, title: true, status: true },
+    });
+    await prisma.task.updateMany({
+      where: { id: { in: tasks.map((task) => task.id) } },
+      data: { status: newStatus },
+    });
+    await recordActivities(
+      tasks.map((task) => ({
+        projectId: board.projectId,
+        taskId: task.id,
+        taskTitle: task.title,
+        actorId: userId,
+        action: TaskActivityAction.STATUS_CHANGED,
+        field: "status",
+        oldValue: task.status,
+        newValue: newStatus,
+      })),
+    );
+    await recordStatusChanges(
+      tasks.map((task) => ({
+        projectId: board.projectId,
+        taskId: task.id,
+        fromStatus: task.status,
+        toStatus: newStatus,
+      })),
+    );
+  }
+
+  const response = mapToBoardResponse(updatedBoard);
+  await publishProjectEvent(board.projectId, ProjectEventType.BOARD_UPDATED, response, userId);
+  return response;
 };
 
 export const deleteBoard = async (boardId: string, userId: string): Promise<void> => {
@@ -361,7 +484,61 @@ export const reorderBoards = async (
     tableName: "board",
   });
 
-  return getProjectBoards(projectId, userId);
+  const result = await getProjectBoards(projectId, userId);
+  await publishProjectEvent(projectId, ProjectEventType.BOARD_REORDERED, result, userId);
+
+  return result;
+};
+
+/**
+ * Replaces the boards tasks may move to from `boardId`. An empty list removes every rule, which
+ * lets tasks move to any board again.
+ */
+export const setBoardTransitions = async (
+  boardId: string,
+  data: SetBoardTransitionsDTO,
+  userId: string,
+): Promise<BoardResponse> => {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    select: { id: true, projectId: true },
+  });
+
+  if (!board) {
+    throw new Error("Board not found");
+  }
+
+  await assertProjectLeader(board.projectId, userId);
+
+  const toBoardIds = [...new Set(data.toBoardIds)];
+  if (toBoardIds.includes(boardId)) {
+    throw new Error("A board cannot be a transition target of itself");
+  }
+
+  const targetCount = await prisma.board.count({
+    where: { id: { in: toBoardIds }, projectId: board.projectId },
+  });
+
+  if (targetCount !== toBoardIds.length) {
+    throw new Error("All target boards must belong to the same project");
+  }
+
+  await prisma.$transaction([
+    prisma.boardTransition.deleteMany({ where: { fromBoardId: boardId } }),
+    prisma.boardTransition.createMany({
+      data: toBoardIds.map((toBoardId) => ({ fromBoardId: boardId, toBoardId })),
+    }),
+  ]);
+
+  const [updatedBoard, taskCount] = await Promise.all([
+    prisma.board.findUniqueOrThrow({
+      where: { id: boardId },
+      include: boardStatusInclude,
+    }),
+    prisma.task.count({ where: { boardId } }),
+  ]);
+
+  return mapToBoardResponse({ ...updatedBoard, taskCount });
 };
 
 export const getBoardStats = async (boardId: string, userId: string) => {
@@ -382,6 +559,8 @@ export const getBoardStats = async (boardId: string, userId: string) => {
         select: {
           status: true,
           priority: true,
+          checklistItems: { select: { isDone: true } },
+          subtasks: { select: { status: true } },
         },
       },
     },
@@ -391,12 +570,23 @@ export const getBoardStats = async (boardId: string, userId: string) => {
     throw new Error("Board not found");
   }
 
+  const statuses = await getWorkflowStatuses(stats.projectId);
+  const finalStatuses = statuses.filter((status) => status.isFinal).map((status) => status.key);
+
+  const checklistItems = stats.tasks.flatMap((task) => task.checklistItems);
+  const completedChecklistItems = checklistItems.filter((item) => item.isDone).length;
+  const totalProgress = stats.tasks.reduce(
+    (sum, task) => sum + calculateTaskProgress(task, finalStatuses).percentage,
+    0,
+  );
+
+  // Every workflow status is listed, including the ones without tasks on this board
   const tasksByStatus = stats.tasks.reduce(
     (acc, task) => {
       acc[task.status] = (acc[task.status] || 0) + 1;
       return acc;
     },
-    {} as Record<string, number>,
+    Object.fromEntries(statuses.map((status) => [status.key, 0])) as Record<string, number>,
   );
 
   const tasksByPriority = stats.tasks.reduce(
@@ -411,7 +601,17 @@ export const getBoardStats = async (boardId: string, userId: string) => {
     id: stats.id,
     name: stats.name,
     totalTasks: stats._count.tasks,
+    completedTasks: stats.tasks.filter((task) => finalStatuses.includes(task.status)).length,
     tasksByStatus,
     tasksByPriority,
+    checklist: {
+      totalItems: checklistItems.length,
+      completedItems: completedChecklistItems,
+      completionRate:
+        checklistItems.length === 0
+          ? 0
+          : Math.round((completedChecklistItems / checklistItems.length) * 100),
+    },
+    averageProgress: stats.tasks.length === 0 ? 0 : Math.round(totalProgress / stats.tasks.length),
   };
 };
@@ -3,12 +3,48 @@ export interface BoardResponse {
   name: string;
   order: number;
   projectId: string;
+  status?: BoardStatus;
+  wipLimit?: number;
+  wip?: BoardWipUsage;
+  allowedTargetBoardIds?: string[];
   tasks?: TaskSummary[];
   _count?: {
     tasks: number;
   };
 }
 
+export interface BoardStatus {
+  id: string;
+  key: string;
+  name: string;
+  isFinal: boolean;
+}
+
+export interface BoardWipUsage {
+  limit: number;
+  taskCount: number;
+  remaining: number;
+  utilization: number;
+  state: "ok" | "near" | "reached" | "exceeded";
+}
+
+export enum BoardRuleErrorCode {
+  WIP_LIMIT_EXCEEDED = "WIP_LIMIT_EXCEEDED",
+  TRANSITION_NOT_ALLOWED = "TRANSITION_NOT_ALLOWED",
+}
+
+export interface BoardRuleCheck {
+  projectId: string;
+  fromBoardId?: string;
+  toBoardId: string;
+  userId: string;
+  override?: boolean;
+}
+
+export interface SetBoardTransitionsDTO {
+  toBoardIds: string[];
+}
+
 export interface TaskSummary {
   id: string;
   title: string;
@@ -36,11 +72,15 @@ export interface CreateBoardDTO {
   name: string;
   order?: number;
   projectId: string;
+  statusId?: string;
+  wipLimit?: number;
 }
 
 export interface UpdateBoardDTO {
   name?: string;
   order?: number;
+  statusId?: string | null;
+  wipLimit?: number | null;
 }
 
 export interface ReorderBoardDTO {
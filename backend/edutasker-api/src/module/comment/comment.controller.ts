@@ -1,6 +1,11 @@
 import type { Request, Response } from "express";
 import * as CommentService from "./comment.service.js";
-import type { CreateCommentDTO, CommentListQuery } from "./comment.type.js";
+import type {
+  CreateCommentDTO,
+  CommentListQuery,
+  CommentReactionDTO,
+  UpdateCommentDTO,
+} from "./comment.type.js";
 import { serviceWrapper } from "../../helper/service-wrapper.js";
 
 const createCommentHandler = async (req: Request, res: Response) => {
@@ -48,6 +53,85 @@ const deleteCommentHandler = async (req: Request, res: Response) => {
   return { message: "Comment deleted successfully" };
 };
 
+const updateCommentHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, commentId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!commentId) {
+    throw new Error("Comment ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: UpdateCommentDTO = req.body;
+  return await CommentService.updateComment(projectId, taskId, commentId, data, userId);
+};
+
+const getCommentHistoryHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, commentId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!commentId) {
+    throw new Error("Comment ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await CommentService.getCommentHistory(projectId, taskId, commentId, userId);
+};
+
+const addReactionHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, commentId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!commentId) {
+    throw new Error("Comment ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CommentReactionDTO = req.body;
+  return await CommentService.addReaction(projectId, taskId, commentId, data, userId);
+};
+
+const removeReactionHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, commentId, emoji } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!commentId) {
+    throw new Error("Comment ID is required");
+  }
+  if (!emoji) {
+    throw new Error("Emoji is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await CommentService.removeReaction(projectId, taskId, commentId, emoji, userId);
+};
+
 export const createComment = serviceWrapper(createCommentHandler, "Comment created successfully");
 export const listComments = serviceWrapper(listCommentsHandler, "Comments retrieved successfully");
 export const deleteComment = serviceWrapper(deleteCommentHandler, "Comment deleted successfully");
+export const updateComment = serviceWrapper(updateCommentHandler, "Comment updated successfully");
+export const getCommentHistory = serviceWrapper(
+  getCommentHistoryHandler,
+  "Comment history retrieved successfully",
+);
+export const addReaction = serviceWrapper(addReactionHandler, "Reaction added successfully");
+export const removeReaction = serviceWrapper(
+  removeReactionHandler,
+  "Reaction removed successfully",
+);
@@ -7,6 +7,9 @@ import {
   commentListQuerySchema,
   taskCommentParamSchema,
   deleteCommentParamSchema,
+  updateCommentSchema,
+  commentReactionSchema,
+  commentReactionParamSchema,
 } from "./comment.schema.js";
 
 const router = Router();
@@ -24,7 +27,14 @@ const router = Router();
  *           description: Comment unique identifier
  *         content:
  *           type: string
- *           description: Comment text content
+ *           description: Comment text content as Markdown source
+ *         contentHtml:
+ *           type: string
+ *           description: Sanitised HTML rendering of the content
+ *         contentReferences:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/MarkdownReference'
  *         taskId:
  *           type: string
  *           format: uuid
@@ -49,6 +59,55 @@ const router = Router();
  *           type: string
  *           format: date-time
  *           description: Last update timestamp
+ *         editedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the comment was last edited, empty if it never was
+ *         parentId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Thread root this comment replies to
+ *         mentions:
+ *           type: array
+ *           description: Project members mentioned with `@name` (email local part) or `@email`
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *         reactions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/CommentReaction'
+ *         replyCount:
+ *           type: integer
+ *           description: Number of replies in the thread
+ *         replies:
+ *           type: array
+ *           description: Replies, oldest first. Only included on thread roots when listing comments.
+ *           items:
+ *             $ref: '#/components/schemas/Comment'
+ *     CommentReaction:
+ *       type: object
+ *       properties:
+ *         emoji:
+ *           type: string
+ *           example: "👍"
+ *         count:
+ *           type: integer
+ *           example: 2
+ *         userIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
  *     CommentResponse:
  *       allOf:
  *         - $ref: '#/components/schemas/ServiceWrapperResponse'
@@ -122,8 +181,12 @@ const router = Router();
  *                 type: string
  *                 minLength: 1
  *                 maxLength: 2000
- *                 description: Comment text content
- *                 example: "This task is progressing well. Need to add more tests."
+ *                 description: Comment text content. `@name` or `@email` mentions notify project members.
+ *                 example: "This task is progressing well. @jane.doe can you add more tests?"
+ *               parentId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Reply to this comment. Replies to a reply join the root comment's thread.
  *     responses:
  *       200:
  *         description: Comment created successfully
@@ -186,7 +249,7 @@ router.post(
  *     tags:
  *       - Comments
  *     summary: List comments for task
- *     description: Retrieves a paginated list of comments for the specified task
+ *     description: Retrieves a paginated list of comment threads for the specified task. Each thread root includes its replies.
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -291,7 +354,7 @@ router.get(
  *     tags:
  *       - Comments
  *     summary: Delete comment
- *     description: Permanently deletes a comment (only comment author can delete)
+ *     description: Deletes a comment (comment author or project admin). A thread root with replies is kept as "Comment deleted" so the replies stay in place
  *     security:
  *       - bearerAuth: []
  *     parameters:
@@ -373,4 +436,313 @@ router.delete(
   CommentController.deleteComment,
 );
 
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/comments/{commentId}:
+ *   put:
+ *     tags:
+ *       - Comments
+ *     summary: Edit comment
+ *     description: |
+ *       Replaces the comment's content (only the comment author can edit). The previous content is kept in the edit
+ *       history, `editedAt` is set, and members newly mentioned by the edit are notified.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Comment ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - content
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 minLength: 1
+ *                 maxLength: 2000
+ *     responses:
+ *       200:
+ *         description: Comment updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommentResponse'
+ *       400:
+ *         description: Bad request - Comment not found or not the comment author
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:projectId/tasks/:taskId/comments/:commentId",
+  authGuard,
+  validate({ params: deleteCommentParamSchema, body: updateCommentSchema }),
+  CommentController.updateComment,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/comments/{commentId}/history:
+ *   get:
+ *     tags:
+ *       - Comments
+ *     summary: Get comment edit history
+ *     description: Returns the comment's current content and its previous versions, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Comment ID
+ *     responses:
+ *       200:
+ *         description: Comment history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         commentId:
+ *                           type: string
+ *                           format: uuid
+ *                         content:
+ *                           type: string
+ *                         editedAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                         edits:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               content:
+ *                                 type: string
+ *                                 description: Content before this edit
+ *                               editedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                               editedBy:
+ *                                 type: object
+ *                                 properties:
+ *                                   id:
+ *                                     type: string
+ *                                     format: uuid
+ *                                   name:
+ *                                     type: string
+ *                                   email:
+ *                                     type: string
+ *       400:
+ *         description: Bad request - Comment not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/tasks/:taskId/comments/:commentId/history",
+  authGuard,
+  validate({ params: deleteCommentParamSchema }),
+  CommentController.getCommentHistory,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/comments/{commentId}/reactions:
+ *   post:
+ *     tags:
+ *       - Comments
+ *     summary: React to comment
+ *     description: Adds an emoji reaction from the current user. Adding the same reaction twice has no effect.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Comment ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - emoji
+ *             properties:
+ *               emoji:
+ *                 type: string
+ *                 example: "👍"
+ *     responses:
+ *       200:
+ *         description: Reaction added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommentResponse'
+ *       400:
+ *         description: Bad request - Not an emoji, comment not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/tasks/:taskId/comments/:commentId/reactions",
+  authGuard,
+  validate({ params: deleteCommentParamSchema, body: commentReactionSchema }),
+  CommentController.addReaction,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/comments/{commentId}/reactions/{emoji}:
+ *   delete:
+ *     tags:
+ *       - Comments
+ *     summary: Remove reaction
+ *     description: Removes the current user's reaction with the given emoji
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *       - in: path
+ *         name: commentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Comment ID
+ *       - in: path
+ *         name: emoji
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: URL-encoded emoji to remove
+ *         example: "%F0%9F%91%8D"
+ *     responses:
+ *       200:
+ *         description: Reaction removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CommentResponse'
+ *       400:
+ *         description: Bad request - Reaction or comment not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:projectId/tasks/:taskId/comments/:commentId/reactions/:emoji",
+  authGuard,
+  validate({ params: commentReactionParamSchema }),
+  CommentController.removeReaction,
+);
+
 export default router;
@@ -1,7 +1,22 @@
 import Joi from "joi";
 
+// One or more emoji, including skin tone modifiers and zero-width-joined sequences
+const EMOJI_PATTERN =
+  /^(?=.*\p{Extended_Pictographic})[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]+$/u;
+
 export const createCommentSchema = Joi.object({
   content: Joi.string().min(1).max(2000).required(),
+  parentId: Joi.string().uuid().optional(),
+});
+
+export const updateCommentSchema = Joi.object({
+  content: Joi.string().min(1).max(2000).required(),
+});
+
+export const commentReactionSchema = Joi.object({
+  emoji: Joi.string().max(32).pattern(EMOJI_PATTERN).required().messages({
+    "string.pattern.base": "Reaction must be an emoji",
+  }),
 });
 
 export const commentListQuerySchema = Joi.object({
@@ -20,3 +35,12 @@ export const deleteCommentParamSchema = Joi.object({
   taskId: Joi.string().uuid().required(),
   commentId: Joi.string().uuid().required(),
 });
+
+export const commentReactionParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  taskId: Joi.string().uuid().required(),
+  commentId: Joi.string().uuid().required(),
+  emoji: Joi.string().max(32).pattern(EMOJI_PATTERN).required().messages({
+    "string.pattern.base": "Reaction must be an emoji",
+  }),
+});
@@ -1,33 +1,101 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../../config/database.js";
+import { recordActivity } from "../activity/activity.service.js";
+import { TaskActivityAction } from "../activity/activity.type.js";
+import { renderMarkdown } from "../markdown/markdown.service.js";
+import { notifyUsers } from "../notification/notification.service.js";
+import { NotificationType } from "../notification/notification.type.js";
+import { publishProjectEvent } from "../realtime/realtime.service.js";
+import { ProjectEventType } from "../realtime/realtime.type.js";
 import type {
+  CommentEditResponse,
+  CommentHistoryResponse,
   CommentListQuery,
   CommentListResponse,
+  CommentReactionDTO,
+  CommentReactionSummary,
   CommentResponse,
+  CommentUserSummary,
   CreateCommentDTO,
+  UpdateCommentDTO,
 } from "./comment.type.js";
 
+const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+  avatarUrl: true,
+} as const;
+
+const commentInclude = {
+  task: {
+    select: {
+      id: true,
+      title: true,
+    },
+  },
+  user: { select: userSummarySelect },
+  mentions: {
+    include: { user: { select: userSummarySelect } },
+    orderBy: { createdAt: "asc" },
+  },
+  reactions: {
+    select: { emoji: true, userId: true },
+    orderBy: { createdAt: "asc" },
+  },
+  _count: { select: { replies: true } },
+} as const;
+
+const mapToUserSummary = (user: any): CommentUserSummary => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  avatarUrl: user.avatarUrl ?? undefined,
+});
+
+const summarizeReactions = (
+  reactions: Array<{ emoji: string; userId: string }>,
+): CommentReactionSummary[] => {
+  const byEmoji = new Map<string, string[]>();
+  reactions.forEach((reaction) => {
+    byEmoji.set(reaction.emoji, [...(byEmoji.get(reaction.emoji) ?? []), reaction.userId]);
+  });
+
+  return [...byEmoji.entries()].map(([emoji, userIds]) => ({
+    emoji,
+    count: userIds.length,
+    userIds,
+  }));
+};
+
 const mapToCommentResponse = (comment: any): CommentResponse => ({
   id: comment.id,
   content: comment.content,
+  contentHtml: comment.contentHtml ?? undefined,
+  contentReferences: comment.contentReferences ?? [],
   createdAt: comment.createdAt,
+  editedAt: comment.editedAt ?? undefined,
+  deletedAt: comment.deletedAt ?? undefined,
+  parentId: comment.parentId ?? undefined,
   task: {
     id: comment.task.id,
     title: comment.task.title,
   },
-  user: {
-    id: comment.user.id,
-    name: comment.user.name,
-    email: comment.user.email,
-    avatarUrl: comment.user.avatarUrl ?? undefined,
-  },
+  user: mapToUserSummary(comment.user),
+  mentions: comment.mentions?.map((mention: any) => mapToUserSummary(mention.user)) ?? [],
+  reactions: summarizeReactions(comment.reactions ?? []),
+  replyCount: comment._count?.replies,
+  replies: comment.replies?.map(mapToCommentResponse),
 });
 
-export const createComment = async (
-  projectId: string,
-  taskId: string,
-  data: CreateCommentDTO,
-  userId: string,
-): Promise<CommentResponse> => {
+const mapToCommentEditResponse = (edit: any): CommentEditResponse => ({
+  id: edit.id,
+  content: edit.content,
+  editedAt: edit.editedAt,
+  editedBy: edit.editedBy ? mapToUserSummary(edit.editedBy) : undefined,
+});
+
+const ensureProjectMember = async (projectId: string, userId: string): Promise<void> => {
   const project = await prisma.project.findUnique({
     where: { id: projectId },
     include: {
@@ -44,103 +112,169 @@ export const createComment = async (
   if (project.members.length === 0) {
     throw new Error("You are not a member of this project");
   }
+};
 
+const findTaskInProject = async (projectId: string, taskId: string) => {
   const task = await prisma.task.findUnique({
     where: {
       id: taskId,
       projectId,
     },
+    include: {
+      assignees: {
+        select: { userId: true },
+      },
+    },
   });
 
   if (!task) {
     throw new Error("Task not found");
   }
 
-  const comment = await prisma.comment.create({
-    data: {
-      content: data.content,
+  return task;
+};
+
+const findCommentOnTask = async (taskId: string, commentId: string) => {
+  const comment = await prisma.comment.findUnique({
+    where: {
+      id: commentId,
       taskId,
-      userId,
-    },
-    include: {
-      task: {
-        select: {
-          id: true,
-          title: true,
-        },
-      },
-      user: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          avatarUrl: true,
-        },
-      },
     },
   });
 
+  if (!comment) {
+    throw new Error("Comment not found");
+  }
+
+  return comment;
+};
+
+const assertNotDeleted = (comment: { deletedAt: Date | null }) => {
+  if (comment.deletedAt) {
+    throw new Error("This comment has been deleted");
+  }
+};
+
+/**
+ * Renders the comment's Markdown and picks the mentioned users from its resolved references, so
+ * mentions inside code spans or blocks do not notify anyone.
+ */
+const renderContent = async (projectId: string, content: string) => {
+  const { html, references } = await renderMarkdown(projectId, content);
+
+  return {
+    contentHtml: html,
+    contentReferences: references as unknown as Prisma.InputJsonValue,
+    mentionedUserIds: references
+      .filter((reference) => reference.type === "user")
+      .map((reference) => reference.id),
+  };
+};
+
+const getCommentResponse = async (commentId: string): Promise<CommentResponse> => {
+  const comment = await prisma.comment.findUniqueOrThrow({
+    where: { id: commentId },
+    include: commentInclude,
+  });
+
   return mapToCommentResponse(comment);
 };
 
-export const getCommentsByTask = async (
+export const createComment = async (
   projectId: string,
   taskId: string,
-  query: CommentListQuery,
+  data: CreateCommentDTO,
   userId: string,
-): Promise<CommentListResponse> => {
-  const project = await prisma.project.findUnique({
-    where: { id: projectId },
-    include: {
-      members: {
-        where: { userId },
+): Promise<CommentResponse> => {
+  await ensureProjectMember(projectId, userId);
+  const task = await findTaskInProject(projectId, taskId);
+
+  // Threads are one level deep, so a reply to a reply joins the thread of its root comment
+  let parent: { id: string; userId: string } | null = null;
+  if (data.parentId) {
+    const parentComment = await findCommentOnTask(taskId, data.parentId);
+    parent = parentComment.parentId
+      ? await findCommentOnTask(taskId, parentComment.parentId)
+      : parentComment;
+  }
+
+  const { mentionedUserIds, ...rendered } = await renderContent(projectId, data.content);
+
+  const comment = await prisma.comment.create({
+    data: {
+      content: data.content,
+      ...rendered,
+      taskId,
+      userId,
+      parentId: parent?.id,
+      mentions: {
+        create: mentionedUserIds.map((mentionedUserId) => ({ userId: mentionedUserId })),
       },
     },
+    include: commentInclude,
   });
 
-  if (!project) {
-    throw new Error("Project not found");
-  }
-
-  if (project.members.length === 0) {
-    throw new Error("You are not a member of this project");
-  }
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: task.title,
+    actorId: userId,
+    action: TaskActivityAction.COMMENT_ADDED,
+    newValue: { commentId: comment.id, content: comment.content, parentId: parent?.id },
+  });
 
-  const task = await prisma.task.findUnique({
-    where: {
-      id: taskId,
-      projectId,
+  await notifyUsers(
+    mentionedUserIds.filter((mentionedUserId) => mentionedUserId !== userId),
+    {
+      message: `${comment.user.name} mentioned you in a comment on "${task.title}"`,
+      type: NotificationType.COMMENT_MENTION,
     },
+  );
+
+  const recipientIds = [
+    ...task.assignees.map((assignee) => assignee.userId),
+    ...(task.createdById ? [task.createdById] : []),
+    ...(parent ? [parent.userId] : []),
+  ].filter((recipientId) => recipientId !== userId && !mentionedUserIds.includes(recipientId));
+
+  await notifyUsers(recipientIds, {
+    message: parent
+      ? `${comment.user.name} replied to a comment on "${task.title}"`
+      : `${comment.user.name} commented on "${task.title}"`,
+    type: NotificationType.COMMENT_ADDED,
   });
 
-  if (!task) {
-    throw new Error("Task not found");
-  }
+  const response = mapToCommentResponse(comment);
+  await publishProjectEvent(projectId, ProjectEventType.COMMENT_ADDED, response, userId);
+
+  return response;
+};
+
+export const getCommentsByTask = async (
+  projectId: string,
+  taskId: string,
+  query: CommentListQuery,
+  userId: string,
+): Promise<CommentListResponse> => {
+  await ensureProjectMember(projectId, userId);
+  await findTaskInProject(projectId, taskId);
 
   const page = query.page || 1;
   const limit = query.limit || 20;
   const skip = (page - 1) * limit;
   const sortOrder = query.sortOrder || "asc";
 
-  const where = { taskId };
+  // Pagination applies to threads; each thread carries all of its replies, oldest first
+  const where = { taskId, parentId: null };
 
   const [comments, total] = await Promise.all([
     prisma.comment.findMany({
       where,
       include: {
-        task: {
-          select: {
-            id: true,
-            title: true,
-          },
-        },
-        user: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatarUrl: true,
-          },
+        ...commentInclude,
+        replies: {
+          include: commentInclude,
+          orderBy: { createdAt: "asc" },
         },
       },
       skip,
@@ -159,52 +293,173 @@ export const getCommentsByTask = async (
   };
 };
 
-export const deleteComment = async (
+/**
+ * Replaces a comment's content. The previous content is kept as an edit history entry and only
+ * users newly mentioned by the edit are notified.
+ */
+export const updateComment = async (
   projectId: string,
   taskId: string,
   commentId: string,
+  data: UpdateCommentDTO,
   userId: string,
-): Promise<void> => {
-  // Verify project exists and user has access
-  const project = await prisma.project.findUnique({
-    where: { id: projectId },
-    include: {
-      members: {
-        where: { userId },
-      },
-    },
-  });
+): Promise<CommentResponse> => {
+  await ensureProjectMember(projectId, userId);
+  const task = await findTaskInProject(projectId, taskId);
+  const comment = await findCommentOnTask(taskId, commentId);
 
-  if (!project) {
-    throw new Error("Project not found");
+  if (comment.userId !== userId) {
+    throw new Error("You can only edit your own comments");
   }
+  assertNotDeleted(comment);
 
-  if (project.members.length === 0) {
-    throw new Error("You are not a member of this project");
+  if (comment.content === data.content) {
+    return getCommentResponse(commentId);
   }
 
-  const task = await prisma.task.findUnique({
-    where: {
-      id: taskId,
-      projectId,
-    },
+  const [previousMentions, { mentionedUserIds, ...rendered }] = await Promise.all([
+    prisma.commentMention.findMany({
+      where: { commentId },
+      select: { userId: true },
+    }),
+    renderContent(projectId, data.content),
+  ]);
+
+  await prisma.$transaction([
+    prisma.commentEdit.create({
+      data: {
+        commentId,
+        content: comment.content,
+        editedById: userId,
+      },
+    }),
+    prisma.commentMention.deleteMany({ where: { commentId } }),
+    prisma.commentMention.createMany({
+      data: mentionedUserIds.map((mentionedUserId) => ({ commentId, userId: mentionedUserId })),
+    }),
+    prisma.comment.update({
+      where: { id: commentId },
+      data: {
+        content: data.content,
+        ...rendered,
+        editedAt: new Date(),
+      },
+    }),
+  ]);
+
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: task.title,
+    actorId: userId,
+    action: TaskActivityAction.COMMENT_EDITED,
+    field: "content",
+    oldValue: { commentId, content: comment.content },
+    newValue: { commentId, content: data.content },
   });
 
-  if (!task) {
-    throw new Error("Task not found");
-  }
+  const previouslyMentioned = new Set(previousMentions.map((mention) => mention.userId));
+  const response = await getCommentResponse(commentId);
 
-  const comment = await prisma.comment.findUnique({
-    where: {
-      id: commentId,
-      taskId,
+  await notifyUsers(
+    mentionedUserIds.filter(
+      (mentionedUserId) => mentionedUserId !== userId && !previouslyMentioned.has(mentionedUserId),
+    ),
+    {
+      message: `${response.user.name} mentioned you in a comment on "${task.title}"`,
+      type: NotificationType.COMMENT_MENTION,
     },
+  );
+
+  await publishProjectEvent(projectId, ProjectEventType.COMMENT_UPDATED, response, userId);
+
+  return response;
+};
+
+export const getCommentHistory = async (
+  projectId: string,
+  taskId: string,
+  commentId: string,
+  userId: string,
+): Promise<CommentHistoryResponse> => {
+  await ensureProjectMember(projectId, userId);
+  await findTaskInProject(projectId, taskId);
+  const comment = await findCommentOnTask(taskId, commentId);
+
+  const edits = await prisma.commentEdit.findMany({
+    where: { commentId },
+    include: { editedBy: { select: userSummarySelect } },
+    orderBy: { editedAt: "desc" },
   });
 
-  if (!comment) {
-    throw new Error("Comment not found");
+  return {
+    commentId,
+    content: comment.content,
+    editedAt: comment.editedAt ?? undefined,
+    edits: edits.map(mapToCommentEditResponse),
+  };
+};
+
+export const addReaction = async (
+  projectId: string,
+  taskId: string,
+  commentId: string,
+  data: CommentReactionDTO,
+  userId: string,
+): Promise<CommentResponse> => {
+  await ensureProjectMember(projectId, userId);
+  await findTaskInProject(projectId, taskId);
+  assertNotDeleted(await findCommentOnTask(taskId, commentId));
+
+  // Reacting twice with the same emoji is a no-op rather than an error
+  await prisma.commentReaction.upsert({
+    where: { commentId_userId_emoji: { commentId, userId, emoji: data.emoji } },
+    create: { commentId, userId, emoji: data.emoji },
+    update: {},
+  });
+
+  const response = await getCommentResponse(commentId);
+  await publishProjectEvent(projectId, ProjectEventType.COMMENT_UPDATED, response, userId);
+
+  return response;
+};
+
+export const removeReaction = async (
+  projectId: string,
+  taskId: string,
+  commentId: string,
+  emoji: string,
+  userId: string,
+): Promise<CommentResponse> => {
+  await ensureProjectMember(projectId, userId);
+  await findTaskInProject(projectId, taskId);
+  await findCommentOnTask(taskId, commentId);
+
+  const { count } = await prisma.commentReaction.deleteMany({
+    where: { commentId, userId, emoji },
+  });
+
+  if (count === 0) {
+    throw new Error("Reaction not found");
   }
 
+  const response = await getCommentResponse(commentId);
+  await publishProjectEvent(projectId, ProjectEventType.COMMENT_UPDATED, response, userId);
+
+  return response;
+};
+
+export const deleteComment = async (
+  projectId: string,
+  taskId: string,
+  commentId: string,
+  userId: string,
+): Promise<void> => {
+  // Verify project exists and user has access
+  await ensureProjectMember(projectId, userId);
+  const task = await findTaskInProject(projectId, taskId);
+  const comment = await findCommentOnTask(taskId, commentId);
+
   const isCommentAuthor = comment.userId === userId;
   const isProjectAdmin = await prisma.projectMember.findFirst({
     where: {
@@ -217,8 +472,45 @@ export const deleteComment = async (
   if (!isCommentAuthor && !isProjectAdmin) {
     throw new Error("You can only delete your own comments or you must be a project admin");
   }
+  assertNotDeleted(comment);
 
-  await prisma.comment.delete({
-    where: { id: commentId },
+  // Replies belong to other users, so a root that has any keeps its place in the thread with its
+  // content, edit history, mentions and reactions removed
+  const replyCount = await prisma.comment.count({ where: { parentId: commentId } });
+  if (replyCount > 0) {
+    await prisma.$transaction([
+      prisma.commentEdit.deleteMany({ where: { commentId } }),
+      prisma.commentMention.deleteMany({ where: { commentId } }),
+      prisma.commentReaction.deleteMany({ where: { commentId } }),
+      prisma.comment.update({
+        where: { id: commentId },
+        data: { content: "", contentHtml: "", contentReferences: [], deletedAt: new Date() },
+      }),
+    ]);
+  } else {
+    await prisma.comment.delete({ where: { id: commentId } });
+
+    // A deleted root goes for good once its last reply is gone
+    if (comment.parentId) {
+      await prisma.comment.deleteMany({
+        where: { id: comment.parentId, deletedAt: { not: null }, replies: { none: {} } },
+      });
+    }
+  }
+
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: task.title,
+    actorId: userId,
+    action: TaskActivityAction.COMMENT_DELETED,
+    oldValue: { commentId, content: comment.content, authorId: comment.userId },
   });
+
+  await publishProjectEvent(
+    projectId,
+    ProjectEventType.COMMENT_DELETED,
+    { id: commentId, taskId, parentId: comment.parentId, keptForReplies: replyCount > 0 },
+    userId,
+  );
 };
@@ -1,21 +1,63 @@
+import type { MarkdownReference } from "../markdown/markdown.type.js";
+
+export interface CommentUserSummary {
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl?: string;
+}
+
+export interface CommentReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
 export interface CommentResponse {
   id: string;
   content: string;
+  contentHtml?: string;
+  contentReferences: MarkdownReference[];
   createdAt: Date;
+  editedAt?: Date;
+  deletedAt?: Date;
+  parentId?: string;
   task: {
     id: string;
     title: string;
   };
-  user: {
-    id: string;
-    name: string;
-    email: string;
-    avatarUrl?: string;
-  };
+  user: CommentUserSummary;
+  mentions: CommentUserSummary[];
+  reactions: CommentReactionSummary[];
+  replyCount?: number;
+  replies?: CommentResponse[];
+}
+
+export interface CommentEditResponse {
+  id: string;
+  content: string;
+  editedAt: Date;
+  editedBy?: CommentUserSummary;
+}
+
+export interface CommentHistoryResponse {
+  commentId: string;
+  content: string;
+  editedAt?: Date;
+  edits: CommentEditResponse[];
 }
 
 export interface CreateCommentDTO {
   content: string;
+  parentId?: string;
+}
+
+export interface UpdateCommentDTO {
+  content: string;
+}
+
+export interface CommentReactionDTO {
+  emoji: string;
 }
 
 export interface CommentListQuery {
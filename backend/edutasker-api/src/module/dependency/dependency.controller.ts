@@ -0,0 +1,72 @@
+import type { Request, Response } from "express";
+import * as DependencyService from "./dependency.service.js";
+import type { CreateDependencyDTO } from "./dependency.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const getTaskDependenciesHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await DependencyService.getTaskDependencies(projectId, taskId, userId);
+};
+
+const addDependencyHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateDependencyDTO = req.body;
+  return await DependencyService.addDependency(projectId, taskId, data, userId);
+};
+
+const removeDependencyHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, dependencyId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!dependencyId) {
+    throw new Error("Dependency ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  await DependencyService.removeDependency(projectId, taskId, dependencyId, userId);
+  return { message: "Dependency removed successfully" };
+};
+
+const getDependencyGraphHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await DependencyService.getDependencyGraph(projectId, userId);
+};
+
+export const getTaskDependencies = serviceWrapper(
+  getTaskDependenciesHandler,
+  "Task dependencies retrieved successfully",
+);
+export const addDependency = serviceWrapper(addDependencyHandler, "Dependency added successfully");
+export const removeDependency = serviceWrapper(
+  removeDependencyHandler,
+  "Dependency removed successfully",
+);
+export const getDependencyGraph = serviceWrapper(
+  getDependencyGraphHandler,
+  "Dependency graph retrieved successfully",
+);
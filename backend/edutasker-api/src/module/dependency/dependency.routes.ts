@@ -0,0 +1,342 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as DependencyController from "./dependency.controller.js";
+import {
+  createDependencySchema,
+  dependencyIdParamSchema,
+  projectDependencyParamSchema,
+  taskDependencyParamSchema,
+} from "./dependency.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     DependencyTask:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         status:
+ *           type: string
+ *     TaskDependency:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         task:
+ *           $ref: '#/components/schemas/DependencyTask'
+ *         blockingTask:
+ *           $ref: '#/components/schemas/DependencyTask'
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/dependencies:
+ *   get:
+ *     tags:
+ *       - Task Dependencies
+ *     summary: List a task's dependencies
+ *     description: Returns the tasks blocking this task, the tasks it blocks, and whether any blocker is still open
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *     responses:
+ *       200:
+ *         description: Task dependencies retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         blockedBy:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/TaskDependency'
+ *                         blocking:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/TaskDependency'
+ *                         isBlocked:
+ *                           type: boolean
+ *       400:
+ *         description: Bad request - Task not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/tasks/:taskId/dependencies",
+  authGuard,
+  validate({ params: taskDependencyParamSchema }),
+  DependencyController.getTaskDependencies,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/dependencies:
+ *   post:
+ *     tags:
+ *       - Task Dependencies
+ *     summary: Mark a task as blocked by another task
+ *     description: |
+ *       Records that the task in the path cannot be completed before `blockingTaskId` is done.
+ *       Both tasks must belong to the project, and links that would create a cycle are rejected.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - blockingTaskId
+ *             properties:
+ *               blockingTaskId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Task that must be finished first
+ *                 example: "789e0123-e89b-12d3-a456-426614174003"
+ *     responses:
+ *       200:
+ *         description: Dependency added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/TaskDependency'
+ *       400:
+ *         description: Bad request - Task not found, duplicate dependency, or the dependency would create a cycle
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/tasks/:taskId/dependencies",
+  authGuard,
+  validate({ params: taskDependencyParamSchema, body: createDependencySchema }),
+  DependencyController.addDependency,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/dependencies/{dependencyId}:
+ *   delete:
+ *     tags:
+ *       - Task Dependencies
+ *     summary: Remove a dependency
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *       - in: path
+ *         name: dependencyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Dependency ID
+ *     responses:
+ *       200:
+ *         description: Dependency removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Bad request - Dependency not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:projectId/tasks/:taskId/dependencies/:dependencyId",
+  authGuard,
+  validate({ params: dependencyIdParamSchema }),
+  DependencyController.removeDependency,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/dependency-graph:
+ *   get:
+ *     tags:
+ *       - Task Dependencies
+ *     summary: Get the project's dependency graph
+ *     description: |
+ *       Returns every task of the project as a node and every dependency as an edge pointing from the
+ *       blocking task to the task it blocks. Nodes with an open blocker are flagged with `isBlocked`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     responses:
+ *       200:
+ *         description: Dependency graph retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         nodes:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               title:
+ *                                 type: string
+ *                               status:
+ *                                 type: string
+ *                               boardId:
+ *                                 type: string
+ *                                 format: uuid
+ *                               isBlocked:
+ *                                 type: boolean
+ *                         edges:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                                 format: uuid
+ *                               from:
+ *                                 type: string
+ *                                 format: uuid
+ *                                 description: Blocking task
+ *                               to:
+ *                                 type: string
+ *                                 format: uuid
+ *                                 description: Blocked task
+ *       400:
+ *         description: Bad request - Project not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/dependency-graph",
+  authGuard,
+  validate({ params: projectDependencyParamSchema }),
+  DependencyController.getDependencyGraph,
+);
+
+export default router;
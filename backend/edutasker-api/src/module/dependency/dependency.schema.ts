@@ -0,0 +1,20 @@
+import Joi from "joi";
+
+export const createDependencySchema = Joi.object({
+  blockingTaskId: Joi.string().uuid().required(),
+});
+
+export const projectDependencyParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const taskDependencyParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  taskId: Joi.string().uuid().required(),
+});
+
+export const dependencyIdParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  taskId: Joi.string().uuid().required(),
+  dependencyId: Joi.string().uuid().required(),
+});
@@ -0,0 +1,321 @@
+import { prisma } from "../../config/database.js";
+import { recordActivity } from "../activity/activity.service.js";
+import { TaskActivityAction } from "../activity/activity.type.js";
+import { publishProjectEvent } from "../realtime/realtime.service.js";
+import { ProjectEventType } from "../realtime/realtime.type.js";
+import { getFinalStatusKeys } from "../workflow/workflow.service.js";
+import type {
+  CreateDependencyDTO,
+  DependencyGraphResponse,
+  DependencyTaskSummary,
+  TaskDependenciesResponse,
+  TaskDependencyResponse,
+} from "./dependency.type.js";
+
+const taskSummarySelect = {
+  id: true,
+  title: true,
+  status: true,
+} as const;
+
+const dependencyInclude = {
+  task: { select: taskSummarySelect },
+  blockingTask: { select: taskSummarySelect },
+} as const;
+
+const mapToDependencyResponse = (dependency: any): TaskDependencyResponse => ({
+  id: dependency.id,
+  createdAt: dependency.createdAt,
+  task: {
+    id: dependency.task.id,
+    title: dependency.task.title,
+    status: dependency.task.status,
+  },
+  blockingTask: {
+    id: dependency.blockingTask.id,
+    title: dependency.blockingTask.title,
+    status: dependency.blockingTask.status,
+  },
+});
+
+const checkProjectAccess = async (
+  projectId: string,
+  userId: string,
+  { allowMentors }: { allowMentors: boolean },
+): Promise<void> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const isMentor = allowMentors && project.ProjectMentor.length > 0;
+  if (project.members.length === 0 && !isMentor) {
+    throw new Error("You are not a member of this project");
+  }
+};
+
+const findTaskInProject = async (projectId: string, taskId: string) => {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, projectId },
+    select: taskSummarySelect,
+  });
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  return task;
+};
+
+/**
+ * Walks the "blocked by" edges upwards from `startTaskId` and reports whether `targetTaskId` is
+ * one of its direct or indirect blockers.
+ */
+const isBlockedTransitively = (
+  blockersByTask: Map<string, string[]>,
+  startTaskId: string,
+  targetTaskId: string,
+): boolean => {
+  const visited = new Set<string>();
+  const stack = [startTaskId];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === targetTaskId) {
+      return true;
+    }
+    if (visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+    stack.push(...(blockersByTask.get(current) ?? []));
+  }
+
+  return false;
+};
+
+export const findOpenBlockers = async (
+  projectId: string,
+  taskId: string,
+): Promise<DependencyTaskSummary[]> => {
+  const finalStatuses = await getFinalStatusKeys(projectId);
+  const dependencies = await prisma.taskDependency.findMany({
+    where: {
+      taskId,
+      blockingTask: { status: { notIn: finalStatuses } },
+    },
+    include: { blockingTask: { select: taskSummarySelect } },
+  });
+
+  return dependencies.map((dependency) => dependency.blockingTask);
+};
+
+/**
+ * Rejects completing a task while any of its blockers is still open. `force` skips the check for
+ * cases where the dependency no longer matters.
+ */
+export const assertCanComplete = async (
+  projectId: string,
+  taskId: string,
+  force?: boolean,
+): Promise<void> => {
+  if (force) {
+    return;
+  }
+
+  const openBlockers = await findOpenBlockers(projectId, taskId);
+  if (openBlockers.length > 0) {
+    const titles = openBlockers.map((blocker) => `"${blocker.title}"`).join(", ");
+    throw new Error(
+      `Task is blocked by ${openBlockers.length} open task(s): ${titles}. Pass force to complete it anyway`,
+    );
+  }
+};
+
+export const getTaskDependencies = async (
+  projectId: string,
+  taskId: string,
+  userId: string,
+): Promise<TaskDependenciesResponse> => {
+  await checkProjectAccess(projectId, userId, { allowMentors: true });
+  await findTaskInProject(projectId, taskId);
+
+  const [blockedBy, blocking, finalStatuses] = await Promise.all([
+    prisma.taskDependency.findMany({
+      where: { taskId },
+      include: dependencyInclude,
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.taskDependency.findMany({
+      where: { blockingTaskId: taskId },
+      include: dependencyInclude,
+      orderBy: { createdAt: "asc" },
+    }),
+    getFinalStatusKeys(projectId),
+  ]);
+
+  return {
+    blockedBy: blockedBy.map(mapToDependencyResponse),
+    blocking: blocking.map(mapToDependencyResponse),
+    isBlocked: blockedBy.some(
+      (dependency) => !finalStatuses.includes(dependency.blockingTask.status),
+    ),
+  };
+};
+
+export const addDependency = async (
+  projectId: string,
+  taskId: string,
+  data: CreateDependencyDTO,
+  userId: string,
+): Promise<TaskDependencyResponse> => {
+  await checkProjectAccess(projectId, userId, { allowMentors: false });
+
+  if (taskId === data.blockingTaskId) {
+    throw new Error("A task cannot block itself");
+  }
+
+  const task = await findTaskInProject(projectId, taskId);
+  const blockingTask = await findTaskInProject(projectId, data.blockingTaskId);
+
+  const existing = await prisma.taskDependency.findUnique({
+    where: { taskId_blockingTaskId: { taskId, blockingTaskId: data.blockingTaskId } },
+  });
+
+  if (existing) {
+    throw new Error("This dependency already exists");
+  }
+
+  const edges = await prisma.taskDependency.findMany({
+    where: { task: { projectId } },
+    select: { taskId: true, blockingTaskId: true },
+  });
+
+  const blockersByTask = new Map<string, string[]>();
+  edges.forEach((edge) => {
+    blockersByTask.set(edge.taskId, [
+      ...(blockersByTask.get(edge.taskId) ?? []),
+      edge.blockingTaskId,
+    ]);
+  });
+
+  // The new edge closes a cycle if the blocking task already waits on this task
+  if (isBlockedTransitively(blockersByTask, data.blockingTaskId, taskId)) {
+    throw new Error(
+      `"${blockingTask.title}" already depends on "${task.title}". This dependency would create a cycle`,
+    );
+  }
+
+  const dependency = await prisma.taskDependency.create({
+    data: {
+      taskId,
+      blockingTaskId: data.blockingTaskId,
+      createdById: userId,
+    },
+    include: dependencyInclude,
+  });
+
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: task.title,
+    actorId: userId,
+    action: TaskActivityAction.DEPENDENCY_ADDED,
+    field: "blockedBy",
+    newValue: { taskId: blockingTask.id, title: blockingTask.title },
+  });
+
+  const response = mapToDependencyResponse(dependency);
+  await publishProjectEvent(projectId, ProjectEventType.DEPENDENCY_ADDED, response, userId);
+  return response;
+};
+
+export const removeDependency = async (
+  projectId: string,
+  taskId: string,
+  dependencyId: string,
+  userId: string,
+): Promise<void> => {
+  await checkProjectAccess(projectId, userId, { allowMentors: false });
+
+  const dependency = await prisma.taskDependency.findFirst({
+    where: { id: dependencyId, taskId, task: { projectId } },
+    include: dependencyInclude,
+  });
+
+  if (!dependency) {
+    throw new Error("Dependency not found");
+  }
+
+  await prisma.taskDependency.delete({
+    where: { id: dependencyId },
+  });
+
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: dependency.task.title,
+    actorId: userId,
+    action: TaskActivityAction.DEPENDENCY_REMOVED,
+    field: "blockedBy",
+    oldValue: { taskId: dependency.blockingTask.id, title: dependency.blockingTask.title },
+  });
+
+  await publishProjectEvent(
+    projectId,
+    ProjectEventType.DEPENDENCY_REMOVED,
+    { dependencyId, taskId, blockingTaskId: dependency.blockingTask.id },
+    userId,
+  );
+};
+
+export const getDependencyGraph = async (
+  projectId: string,
+  userId: string,
+): Promise<DependencyGraphResponse> => {
+  await checkProjectAccess(projectId, userId, { allowMentors: true });
+
+  const [tasks, dependencies, finalStatuses] = await Promise.all([
+    prisma.task.findMany({
+      where: { projectId },
+      select: { ...taskSummarySelect, boardId: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.taskDependency.findMany({
+      where: { task: { projectId } },
+      select: { id: true, taskId: true, blockingTaskId: true },
+    }),
+    getFinalStatusKeys(projectId),
+  ]);
+
+  const statusByTask = new Map(tasks.map((task) => [task.id, task.status]));
+  const blockedTaskIds = new Set(
+    dependencies
+      .filter(
+        (dependency) => !finalStatuses.includes(statusByTask.get(dependency.blockingTaskId) ?? ""),
+      )
+      .map((dependency) => dependency.taskId),
+  );
+
+  return {
+    nodes: tasks.map((task) => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      boardId: task.boardId,
+      isBlocked: blockedTaskIds.has(task.id),
+    })),
+    edges: dependencies.map((dependency) => ({
+      id: dependency.id,
+      from: dependency.blockingTaskId,
+      to: dependency.taskId,
+    })),
+  };
+};
@@ -0,0 +1,42 @@
+export interface CreateDependencyDTO {
+  blockingTaskId: string;
+}
+
+export interface DependencyTaskSummary {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface TaskDependencyResponse {
+  id: string;
+  createdAt: Date;
+  task: DependencyTaskSummary;
+  blockingTask: DependencyTaskSummary;
+}
+
+export interface TaskDependenciesResponse {
+  blockedBy: TaskDependencyResponse[];
+  blocking: TaskDependencyResponse[];
+  isBlocked: boolean;
+}
+
+export interface DependencyGraphNode {
+  id: string;
+  title: string;
+  status: string;
+  boardId: string;
+  isBlocked: boolean;
+}
+
+export interface DependencyGraphEdge {
+  id: string;
+  // Edges point from the blocking task to the task it blocks
+  from: string;
+  to: string;
+}
+
+export interface DependencyGraphResponse {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+}
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { authGuard } from "../../middleware/index.js";
+import { authGuard, rateLimit, RateLimitBudgets } from "../../middleware/index.js";
 import * as FileController from "./file.controller.js";
 
 const router = Router();
@@ -97,7 +97,14 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
-router.post("/presigned-url", authGuard, FileController.createPresignedUrl);
+router.post(
+  "/presigned-url",
+  authGuard,
+  rateLimit(RateLimitBudgets.PRESIGNED_URL),
+  FileController.createPresignedUrl,
+);
 
 export default router;
@@ -1,4 +1,10 @@
-import { GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+} from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { s3 } from "../../config/s3.js";
 import { config } from "../../config/env.js";
@@ -12,10 +18,38 @@ export async function generateUploadUrl(key: string, expiresIn = 3600, contentTy
   return getSignedUrl(s3, command, { expiresIn });
 }
 
-export async function generateDownloadUrl(key: string, expiresIn = 3600) {
+export async function generateDownloadUrl(key: string, expiresIn = 3600, fileName?: string) {
   const command = new GetObjectCommand({
     Bucket: config.S3_BUCKET_NAME,
     Key: key,
+    ResponseContentDisposition: fileName
+      ? `attachment; filename="${encodeURIComponent(fileName)}"`
+      : undefined,
   });
   return getSignedUrl(s3, command, { expiresIn });
 }
+
+export async function getObjectMetadata(key: string) {
+  const command = new HeadObjectCommand({
+    Bucket: config.S3_BUCKET_NAME,
+    Key: key,
+  });
+  return s3.send(command);
+}
+
+export async function deleteObject(key: string) {
+  const command = new DeleteObjectCommand({
+    Bucket: config.S3_BUCKET_NAME,
+    Key: key,
+  });
+  return s3.send(command);
+}
+
+export async function copyObject(sourceKey: string, destinationKey: string) {
+  const command = new CopyObjectCommand({
+    Bucket: config.S3_BUCKET_NAME,
+    CopySource: `${config.S3_BUCKET_NAME}/${encodeURIComponent(sourceKey).replace(/%2F/g, "/")}`,
+    Key: destinationKey,
+  });
+  return s3.send(command);
+}
@@ -1,7 +1,12 @@
 import type { Request, Response } from "express";
 import * as ImportService from "./import.service.js";
 import * as ImportUtil from "./import.util.js";
-import type { BulkImportOptions, StudentTemplateQuery } from "./import.type.js";
+import type {
+  BulkImportOptions,
+  ImportHistoryQuery,
+  ImportJobState,
+  StudentTemplateQuery,
+} from "./import.type.js";
 import { serviceWrapper } from "../../helper/service-wrapper.js";
 
 const getStudentImportTemplateHandler = async (req: Request, res: Response) => {
@@ -30,27 +35,51 @@ const validateImportDataHandler = async (req: Request, res: Response) => {
   return await ImportUtil.validateImportData(file.buffer);
 };
 
+// Options arrive as multipart fields; bulkImportOptionsSchema has converted and bounded them
 const importStudentsHandler = async (req: Request, res: Response) => {
   const file = (req as any).file;
 
   const options: BulkImportOptions = {
-    generateDefaultPassword: req.body.generateDefaultPassword !== "false",
-    sendWelcomeEmail: req.body.sendWelcomeEmail === "true",
-    overwriteExisting: req.body.overwriteExisting === "true",
-    validateOnly: req.body.validateOnly === "true",
-    batchSize: parseInt(req.body.batchSize) || 50,
+    generateDefaultPassword: req.body.generateDefaultPassword,
+    sendWelcomeEmail: req.body.sendWelcomeEmail,
+    overwriteExisting: req.body.overwriteExisting,
+    validateOnly: req.body.validateOnly,
+    batchSize: req.body.batchSize,
   };
 
   return await ImportService.importStudentsFromExcel(file.buffer, options);
 };
 
+const createImportJobHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  const file = (req as any).file;
+
+  const options: BulkImportOptions = {
+    generateDefaultPassword: req.body.generateDefaultPassword,
+    sendWelcomeEmail: req.body.sendWelcomeEmail,
+    overwriteExisting: req.body.overwriteExisting,
+    batchSize: req.body.batchSize,
+  };
+
+  return await ImportService.createStudentImportJob(
+    file.buffer,
+    options,
+    userId,
+    file.originalname,
+  );
+};
+
 const getImportHistoryHandler = async (req: Request, res: Response) => {
   const userId = (req as any).user.id;
-  const page = parseInt(req.query.page as string) || 1;
-  const limit = parseInt(req.query.limit as string) || 10;
-  const status = req.query.status as string;
+  const query: ImportHistoryQuery = {
+    page: parseInt(req.query.page as string) || 1,
+    limit: parseInt(req.query.limit as string) || 10,
+    status: req.query.status as ImportJobState | undefined,
+    dateFrom: req.query.dateFrom ? new Date(req.query.dateFrom as string) : undefined,
+    dateTo: req.query.dateTo ? new Date(req.query.dateTo as string) : undefined,
+  };
 
-  return await ImportService.getImportHistory(userId, page, limit, status);
+  return await ImportService.getImportHistory(userId, query);
 };
 
 const getImportJobHandler = async (req: Request, res: Response) => {
@@ -105,6 +134,11 @@ export const importStudents = serviceWrapper(
   "Students imported successfully",
 );
 
+export const createImportJob = serviceWrapper(
+  createImportJobHandler,
+  "Import job queued successfully",
+);
+
 export const getImportHistory = serviceWrapper(
   getImportHistoryHandler,
   "Import history retrieved successfully",
@@ -1,5 +1,6 @@
 import { Router } from "express";
-import { authGuard } from "../../middleware/auth.middleware.js";
+import { authGuard, rateLimit, RateLimitBudgets, requireRole } from "../../middleware/index.js";
+import { RoleCode } from "../role/role.type.js";
 import { validate } from "../../middleware/validate.middleware.js";
 import { handleExcelUpload } from "../../middleware/upload.middleware.js";
 import {
@@ -206,8 +207,19 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get("/students/template", authGuard, ImportController.getStudentImportTemplate);
+router.get(
+  "/students/template",
+  authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  ImportController.getStudentImportTemplate,
+);
 
 /**
  * @openapi
@@ -262,10 +274,20 @@ router.get("/students/template", authGuard, ImportController.getStudentImportTem
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
 router.post(
   "/students/preview",
   authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  rateLimit(RateLimitBudgets.IMPORT),
   handleExcelUpload,
   validateFileUpload(true),
   validateQuery(previewImportSchema),
@@ -319,10 +341,20 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
 router.post(
   "/students/validate",
   authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  rateLimit(RateLimitBudgets.IMPORT),
   handleExcelUpload,
   validateFileUpload(true),
   ImportController.validateImportData,
@@ -415,15 +447,125 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
  */
 router.post(
   "/students",
   authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  rateLimit(RateLimitBudgets.IMPORT),
   handleExcelUpload,
   validateFileUpload(true),
+  validate({ body: bulkImportOptionsSchema }),
   ImportController.importStudents,
 );
 
+/**
+ * @openapi
+ * /import/students/jobs:
+ *   post:
+ *     tags:
+ *       - Student Import
+ *     summary: Queue a background student import
+ *     description: |
+ *       Parses and validates the Excel file, then creates users in the background.
+ *       Job state is kept in Redis, so progress survives restarts and unfinished jobs resume when the server starts.
+ *       Poll `/import/jobs/{id}` for progress or cancel with `/import/jobs/{id}/cancel`; cancellation takes effect between batches.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Excel file containing student data (.xlsx or .xls)
+ *               generateDefaultPassword:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Generate random passwords for students without passwords
+ *               sendWelcomeEmail:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Send welcome emails to imported students
+ *               overwriteExisting:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Update existing users if email matches
+ *               batchSize:
+ *                 type: number
+ *                 minimum: 1
+ *                 maximum: 100
+ *                 default: 50
+ *                 description: Number of users to process in each batch
+ *     responses:
+ *       200:
+ *         description: Import job queued successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               message: "Import job queued successfully"
+ *               content:
+ *                 id: "123e4567-e89b-12d3-a456-426614174000"
+ *                 status: "pending"
+ *                 progress: 0
+ *                 totalRows: 120
+ *                 processedRows: 0
+ *                 successCount: 0
+ *                 failureCount: 1
+ *                 fileName: "students.xlsx"
+ *                 startedAt: "2024-01-15T10:30:00.000Z"
+ *                 createdBy: "456e7890-e89b-12d3-a456-426614174001"
+ *               messages: ["Import job queued successfully"]
+ *               code: "200"
+ *               success: true
+ *       400:
+ *         description: Bad request - Invalid file or data
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: Too many requests. Wait for the number of seconds in `Retry-After`
+ */
+router.post(
+  "/students/jobs",
+  authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  rateLimit(RateLimitBudgets.IMPORT),
+  handleExcelUpload,
+  validateFileUpload(true),
+  validate({ body: bulkImportOptionsSchema }),
+  ImportController.createImportJob,
+);
+
 /**
  * @openapi
  * /import/history:
@@ -454,7 +596,7 @@ router.post(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [pending, processing, completed, failed]
+ *           enum: [pending, processing, completed, failed, cancelled]
  *         description: Filter by import job status
  *       - in: query
  *         name: dateFrom
@@ -491,7 +633,7 @@ router.post(
  *                                 format: uuid
  *                               status:
  *                                 type: string
- *                                 enum: [pending, processing, completed, failed]
+ *                                 enum: [pending, processing, completed, failed, cancelled]
  *                               progress:
  *                                 type: number
  *                                 minimum: 0
@@ -525,10 +667,17 @@ router.post(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.get(
   "/history",
   authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
   validate({ query: importJobQuerySchema }),
   ImportController.getImportHistory,
 );
@@ -569,7 +718,7 @@ router.get(
  *                           format: uuid
  *                         status:
  *                           type: string
- *                           enum: [pending, processing, completed, failed]
+ *                           enum: [pending, processing, completed, failed, cancelled]
  *                         progress:
  *                           type: number
  *                           minimum: 0
@@ -606,10 +755,17 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.get(
   "/jobs/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
   validate({ params: importJobIdParamSchema }),
   ImportController.getImportJob,
 );
@@ -657,10 +813,17 @@ router.get(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.post(
   "/jobs/:id/cancel",
   authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
   validate({ params: importJobIdParamSchema }),
   ImportController.cancelImportJob,
 );
@@ -23,7 +23,9 @@ export const bulkImportOptionsSchema = Joi.object({
 export const importJobQuerySchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(10),
-  status: Joi.string().valid("pending", "processing", "completed", "failed").optional(),
+  status: Joi.string()
+    .valid("pending", "processing", "completed", "failed", "cancelled")
+    .optional(),
   dateFrom: Joi.date().optional(),
   dateTo: Joi.date().optional(),
 });
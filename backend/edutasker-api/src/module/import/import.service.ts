@@ -1,7 +1,12 @@
+import { randomUUID } from "crypto";
 import { prisma } from "../../config/database.js";
+import redis from "../../config/redis.js";
 import type {
+  BatchProgressHooks,
   BulkImportOptions,
   ColumnMapping,
+  ImportHistoryQuery,
+  ImportHistoryResponse,
   ImportJobStatus,
   StudentImportResult,
   StudentImportRow,
@@ -21,6 +26,27 @@ import {
   validateStudentData,
 } from "./import.util.js";
 
+type PreparedStudent = { data: StudentImportRow; rowNumber: number };
+
+type ProcessedStudent = {
+  success: boolean;
+  user?: UserProfileResponse;
+  error?: string;
+  warnings: string[];
+  rowNumber: number;
+};
+
+interface StoredImportJob extends ImportJobStatus {
+  options: BulkImportOptions;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+const MAX_BATCH_SIZE = 100;
+
+// Routes validate the batch size, but jobs stored before that may still hold any value
+const clampBatchSize = (batchSize: number | undefined): number =>
+  Math.min(Math.max(Math.trunc(Number(batchSize)) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE);
+
 const mapToUserProfileResponse = (user: {
   id: string;
   name: string;
@@ -165,23 +191,15 @@ const processStudentRecord = async (
 };
 
 const processBatchedStudents = async (
-  students: Array<{ data: StudentImportRow; rowNumber: number }>,
+  students: PreparedStudent[],
   options: BulkImportOptions,
+  hooks: BatchProgressHooks<ProcessedStudent> = {},
 ): Promise<{
-  results: Array<{
-    success: boolean;
-    user?: UserProfileResponse;
-    error?: string;
-    warnings: string[];
-    rowNumber: number;
-  }>;
+  results: ProcessedStudent[];
 }> => {
-  const { batchSize = 50 } = options;
+  const batchSize = clampBatchSize(options.batchSize);
 
-  const processStudent = async (
-    item: { data: StudentImportRow; rowNumber: number },
-    index: number,
-  ) => {
+  const processStudent = async (item: PreparedStudent, index: number) => {
     const result = await processStudentRecord(item.data, options, item.rowNumber);
     return {
       ...result,
@@ -189,7 +207,7 @@ const processBatchedStudents = async (
     };
   };
 
-  const results = await processBatch(students, processStudent, batchSize);
+  const results = await processBatch(students, processStudent, batchSize, hooks);
 
   return { results };
 };
@@ -197,7 +215,7 @@ const processBatchedStudents = async (
 const parseAndValidateExcelData = async (
   fileBuffer: Buffer,
 ): Promise<{
-  students: Array<{ data: StudentImportRow; rowNumber: number }>;
+  students: PreparedStudent[];
   columnMapping: ColumnMapping;
   errors: string[];
 }> => {
@@ -220,7 +238,7 @@ const parseAndValidateExcelData = async (
     throw new Error("Excel file must contain 'Name' and 'Email' columns");
   }
 
-  const students: Array<{ data: StudentImportRow; rowNumber: number }> = [];
+  const students: PreparedStudent[] = [];
 
   for (let i = 0; i < dataRows.length; i++) {
     const rowNumber = i + 2;
@@ -239,123 +257,340 @@ const parseAndValidateExcelData = async (
   return { students, columnMapping, errors };
 };
 
-export const importStudentsFromExcel = async (
+const prepareStudentImport = async (
   fileBuffer: Buffer,
-  options: BulkImportOptions = {},
-): Promise<StudentImportResult> => {
-  const { validateOnly = false, sendWelcomeEmail = false } = options;
+  options: BulkImportOptions,
+): Promise<{ result: StudentImportResult; validStudents: PreparedStudent[] }> => {
+  const { students, errors: parseErrors } = await parseAndValidateExcelData(fileBuffer);
+
+  const result: StudentImportResult = {
+    totalProcessed: students.length,
+    successCount: 0,
+    failureCount: parseErrors.length,
+    createdUsers: [],
+    failures: [],
+    warnings: [],
+  };
 
-  try {
-    const { students, errors: parseErrors } = await parseAndValidateExcelData(fileBuffer);
-
-    const result: StudentImportResult = {
-      totalProcessed: students.length,
-      successCount: 0,
-      failureCount: parseErrors.length,
-      createdUsers: [],
-      failures: [],
-      warnings: [],
-    };
+  parseErrors.forEach((error) => {
+    result.failures.push({
+      row: 0,
+      data: {} as StudentImportRow,
+      error,
+    });
+  });
+
+  if (students.length === 0) {
+    return { result, validStudents: [] };
+  }
+
+  const studentData = students.map((s) => s.data);
+  const validation = await validateImportData(studentData, {
+    checkExistingEmails: !options.overwriteExisting,
+  });
 
-    parseErrors.forEach((error) => {
+  if (!validation.isValid && !options.validateOnly) {
+    validation.errors.forEach((error) => {
       result.failures.push({
         row: 0,
         data: {} as StudentImportRow,
         error,
       });
+      result.failureCount++;
     });
+  }
 
-    if (students.length === 0) {
-      return result;
-    }
+  result.warnings.push(...validation.warnings);
 
-    const studentData = students.map((s) => s.data);
-    const validation = await validateImportData(studentData, {
-      checkExistingEmails: !options.overwriteExisting,
-    });
+  if (options.validateOnly) {
+    result.successCount = validation.validRecords;
+    return { result, validStudents: [] };
+  }
+
+  const validStudents = students.filter((_, index) => {
+    const hasRowError = validation.invalidRows.some((invalid) => invalid.row === index + 2);
+    return !hasRowError;
+  });
 
-    if (!validation.isValid && !validateOnly) {
-      validation.errors.forEach((error) => {
-        result.failures.push({
-          row: 0,
-          data: {} as StudentImportRow,
-          error,
-        });
-        result.failureCount++;
+  return { result, validStudents };
+};
+
+const applyProcessResults = (
+  result: StudentImportResult,
+  processResults: ProcessedStudent[],
+  students: PreparedStudent[],
+): void => {
+  processResults.forEach((processResult) => {
+    if (processResult.success && processResult.user) {
+      result.successCount++;
+      result.createdUsers.push(processResult.user);
+    } else {
+      result.failureCount++;
+      const student = students.find((s) => s.rowNumber === processResult.rowNumber);
+      // Failures are stored with the job and listed in the history, so the password stays out
+      const { defaultPassword, ...data } = student ? student.data : ({} as StudentImportRow);
+
+      result.failures.push({
+        row: processResult.rowNumber,
+        data: data as StudentImportRow,
+        error: processResult.error || "Unknown error",
       });
     }
 
-    result.warnings.push(...validation.warnings);
+    result.warnings.push(...processResult.warnings);
+  });
+};
 
-    if (validateOnly) {
-      result.successCount = validation.validRecords;
-      return result;
-    }
+const appendWelcomeEmailWarning = (result: StudentImportResult, options: BulkImportOptions) => {
+  if (options.sendWelcomeEmail && result.createdUsers.length > 0) {
+    result.warnings.push(
+      `Welcome email functionality not implemented for ${result.createdUsers.length} users`,
+    );
+  }
+};
 
-    const validStudents = students.filter((_, index) => {
-      const hasRowError = validation.invalidRows.some((invalid) => invalid.row === index + 2);
-      return !hasRowError;
-    });
+export const importStudentsFromExcel = async (
+  fileBuffer: Buffer,
+  options: BulkImportOptions = {},
+): Promise<StudentImportResult> => {
+  try {
+    const { result, validStudents } = await prepareStudentImport(fileBuffer, options);
 
     if (validStudents.length === 0) {
       return result;
     }
 
     const { results } = await processBatchedStudents(validStudents, options);
+    applyProcessResults(result, results, validStudents);
+    appendWelcomeEmailWarning(result, options);
 
-    results.forEach((processResult) => {
-      if (processResult.success && processResult.user) {
-        result.successCount++;
-        result.createdUsers.push(processResult.user);
-      } else {
-        result.failureCount++;
-        const studentIndex = validStudents.findIndex(
-          (s) => s.rowNumber === processResult.rowNumber,
-        );
-        const studentData =
-          studentIndex >= 0 ? validStudents[studentIndex]!.data : ({} as StudentImportRow);
-
-        result.failures.push({
-          row: processResult.rowNumber,
-          data: studentData,
-          error: processResult.error || "Unknown error",
-        });
-      }
+    return result;
+  } catch (error) {
+    throw new Error(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+};
+
+const IMPORT_JOB_LOCK_TTL_MS = 5 * 60 * 1000;
+const IMPORT_JOB_RETRY_BUFFER_MS = 1000;
+// Finished jobs stay in the history for this long
+const IMPORT_JOB_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+const ACTIVE_IMPORT_JOBS_KEY = "import:jobs:active";
+const importJobKey = (jobId: string) => `import:job:${jobId}`;
+const importJobRowsKey = (jobId: string) => `import:job:${jobId}:rows`;
+const importJobLockKey = (jobId: string) => `import:job:${jobId}:lock`;
+const importJobCancelKey = (jobId: string) => `import:job:${jobId}:cancel`;
+const userImportJobsKey = (userId: string) => `import:jobs:user:${userId}`;
+
+const saveImportJob = async (job: StoredImportJob): Promise<void> => {
+  const finished = job.status !== "pending" && job.status !== "processing";
+  await redis.set(
+    importJobKey(job.id),
+    JSON.stringify(job),
+    finished ? { expiration: { type: "EX", value: IMPORT_JOB_RETENTION_SECONDS } } : undefined,
+  );
+};
+
+const loadImportJob = async (jobId: string): Promise<StoredImportJob | null> => {
+  const raw = await redis.get(importJobKey(jobId));
+  return raw ? (JSON.parse(raw) as StoredImportJob) : null;
+};
+
+const toImportJobStatus = (job: StoredImportJob): ImportJobStatus => {
+  const { options, ...status } = job;
+  return status;
+};
+
+const isCancellationRequested = async (jobId: string): Promise<boolean> => {
+  return (await redis.exists(importJobCancelKey(jobId))) > 0;
+};
+
+const finalizeImportJob = async (job: StoredImportJob): Promise<void> => {
+  await saveImportJob(job);
+  await Promise.all([
+    redis.del([importJobRowsKey(job.id), importJobCancelKey(job.id)]),
+    redis.sRem(ACTIVE_IMPORT_JOBS_KEY, job.id),
+  ]);
+};
 
-      result.warnings.push(...processResult.warnings);
+// Returns false without doing anything when another process holds the job's lock
+const runImportJob = async (jobId: string): Promise<boolean> => {
+  const lockToken = randomUUID();
+  const acquired = await redis.set(importJobLockKey(jobId), lockToken, {
+    condition: "NX",
+    expiration: { type: "PX", value: IMPORT_JOB_LOCK_TTL_MS },
+  });
+
+  // Another instance is already working on this job
+  if (!acquired) {
+    return false;
+  }
+
+  const job = await loadImportJob(jobId);
+
+  try {
+    if (!job || (job.status !== "pending" && job.status !== "processing")) {
+      await redis.sRem(ACTIVE_IMPORT_JOBS_KEY, jobId);
+      return true;
+    }
+
+    const result = job.results!;
+    const rawRows = await redis.get(importJobRowsKey(jobId));
+    const students: PreparedStudent[] = rawRows ? JSON.parse(rawRows) : [];
+    const alreadyProcessed = job.processedRows;
+
+    job.status = "processing";
+    await saveImportJob(job);
+
+    await processBatchedStudents(students.slice(alreadyProcessed), job.options, {
+      shouldContinue: async () => !(await isCancellationRequested(jobId)),
+      onBatchComplete: async (batchResults, processedCount) => {
+        applyProcessResults(result, batchResults, students);
+        job.processedRows = alreadyProcessed + processedCount;
+        job.progress = Math.round((job.processedRows / Math.max(job.totalRows, 1)) * 100);
+        job.successCount = result.successCount;
+        job.failureCount = result.failureCount;
+        await saveImportJob(job);
+        await redis.pExpire(importJobLockKey(jobId), IMPORT_JOB_LOCK_TTL_MS);
+      },
     });
 
-    if (sendWelcomeEmail && result.createdUsers.length > 0) {
-      result.warnings.push(
-        `Welcome email functionality not implemented for ${result.createdUsers.length} users`,
-      );
+    if (await isCancellationRequested(jobId)) {
+      job.status = "cancelled";
+      job.cancelledAt = new Date();
+    } else {
+      appendWelcomeEmailWarning(result, job.options);
+      job.status = "completed";
+      job.progress = 100;
+      job.completedAt = new Date();
     }
 
-    result.totalProcessed = students.length;
+    await finalizeImportJob(job);
+  } catch (error) {
+    if (job) {
+      job.status = "failed";
+      job.error = error instanceof Error ? error.message : "Unknown error";
+      job.completedAt = new Date();
+      await finalizeImportJob(job);
+    }
+  } finally {
+    if ((await redis.get(importJobLockKey(jobId))) === lockToken) {
+      await redis.del(importJobLockKey(jobId));
+    }
+  }
 
-    return result;
+  return true;
+};
+
+/**
+ * Runs the job, or tries again once the lock runs out when another process holds it. A crashed
+ * process leaves its lock behind for up to IMPORT_JOB_LOCK_TTL_MS, so on startup the job is picked
+ * up after that; a live owner keeps extending the lock, and the retry then finds the job finished.
+ */
+const startImportJob = (jobId: string): void => {
+  runImportJob(jobId)
+    .then(async (started) => {
+      if (started || !(await redis.sIsMember(ACTIVE_IMPORT_JOBS_KEY, jobId))) {
+        return;
+      }
+
+      const lockTtlMs = await redis.pTTL(importJobLockKey(jobId));
+      setTimeout(() => startImportJob(jobId), Math.max(lockTtlMs, 0) + IMPORT_JOB_RETRY_BUFFER_MS);
+    })
+    .catch((error) => {
+      console.error(`Import job ${jobId} crashed:`, error);
+    });
+};
+
+export const createStudentImportJob = async (
+  fileBuffer: Buffer,
+  options: BulkImportOptions,
+  userId: string,
+  fileName?: string,
+): Promise<ImportJobStatus> => {
+  const jobOptions: BulkImportOptions = {
+    ...options,
+    validateOnly: false,
+    batchSize: clampBatchSize(options.batchSize),
+  };
+
+  let prepared: Awaited<ReturnType<typeof prepareStudentImport>>;
+  try {
+    prepared = await prepareStudentImport(fileBuffer, jobOptions);
   } catch (error) {
     throw new Error(`Import failed: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
+
+  const { result, validStudents } = prepared;
+  const now = new Date();
+  const job: StoredImportJob = {
+    id: randomUUID(),
+    status: validStudents.length === 0 ? "completed" : "pending",
+    progress: validStudents.length === 0 ? 100 : 0,
+    totalRows: validStudents.length,
+    processedRows: 0,
+    successCount: 0,
+    failureCount: result.failureCount,
+    fileName,
+    startedAt: now,
+    completedAt: validStudents.length === 0 ? now : undefined,
+    createdBy: userId,
+    results: result,
+    options: jobOptions,
+  };
+
+  await saveImportJob(job);
+  const historyKey = userImportJobsKey(userId);
+  await redis.zAdd(historyKey, { score: now.getTime(), value: job.id });
+  // Jobs past the retention have expired, so their history entries go too
+  await redis.zRemRangeByScore(
+    historyKey,
+    "-inf",
+    now.getTime() - IMPORT_JOB_RETENTION_SECONDS * 1000,
+  );
+  await redis.expire(historyKey, IMPORT_JOB_RETENTION_SECONDS);
+
+  if (validStudents.length > 0) {
+    await redis.set(importJobRowsKey(job.id), JSON.stringify(validStudents));
+    await redis.sAdd(ACTIVE_IMPORT_JOBS_KEY, job.id);
+    startImportJob(job.id);
+  }
+
+  return toImportJobStatus(job);
+};
+
+export const resumeImportJobs = async (): Promise<number> => {
+  const jobIds = await redis.sMembers(ACTIVE_IMPORT_JOBS_KEY);
+  jobIds.forEach(startImportJob);
+  return jobIds.length;
 };
 
 export const getImportHistory = async (
   userId: string,
-  page: number = 1,
-  limit: number = 10,
-  status?: string,
-) => {
-  const where: any = { createdBy: userId };
-  if (status) {
-    where.status = status;
-  }
+  query: ImportHistoryQuery,
+): Promise<ImportHistoryResponse> => {
+  const page = query.page || 1;
+  const limit = query.limit || 10;
+  const skip = (page - 1) * limit;
+
+  const jobIds = await redis.zRange(
+    userImportJobsKey(userId),
+    query.dateTo ? query.dateTo.getTime() : "+inf",
+    query.dateFrom ? query.dateFrom.getTime() : "-inf",
+    { BY: "SCORE", REV: true },
+  );
+
+  const storedJobs = jobIds.length > 0 ? await redis.mGet(jobIds.map(importJobKey)) : [];
+  const jobs = storedJobs
+    .filter((raw): raw is string => !!raw)
+    .map((raw) => JSON.parse(raw) as StoredImportJob)
+    .filter((job) => !query.status || job.status === query.status);
 
   return {
-    jobs: [] as ImportJobStatus[],
-    total: 0,
+    jobs: jobs.slice(skip, skip + limit).map(toImportJobStatus),
+    total: jobs.length,
     page,
     limit,
-    totalPages: 0,
+    totalPages: Math.ceil(jobs.length / limit),
   };
 };
 
@@ -363,9 +598,32 @@ export const getImportJob = async (
   jobId: string,
   userId: string,
 ): Promise<ImportJobStatus | null> => {
-  return null;
+  const job = await loadImportJob(jobId);
+  if (!job || job.createdBy !== userId) {
+    return null;
+  }
+
+  return toImportJobStatus(job);
 };
 
 export const cancelImportJob = async (jobId: string, userId: string): Promise<boolean> => {
-  return false;
+  const job = await loadImportJob(jobId);
+  if (!job || job.createdBy !== userId) {
+    return false;
+  }
+
+  if (job.status !== "pending" && job.status !== "processing") {
+    throw new Error(`Cannot cancel an import job that is already ${job.status}`);
+  }
+
+  await redis.set(importJobCancelKey(jobId), "1");
+
+  // Without a live worker nobody will observe the flag, so settle the job here
+  if (!(await redis.exists(importJobLockKey(jobId)))) {
+    job.status = "cancelled";
+    job.cancelledAt = new Date();
+    await finalizeImportJob(job);
+  }
+
+  return true;
 };
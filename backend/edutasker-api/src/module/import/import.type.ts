@@ -32,21 +32,46 @@ export interface StudentImportResult {
   warnings: string[];
 }
 
+export type ImportJobState = "pending" | "processing" | "completed" | "failed" | "cancelled";
+
 export interface ImportJobStatus {
   id: string;
-  status: "pending" | "processing" | "completed" | "failed";
+  status: ImportJobState;
   progress: number;
   totalRows: number;
   processedRows: number;
   successCount: number;
   failureCount: number;
+  fileName?: string;
   startedAt: Date;
   completedAt?: Date;
+  cancelledAt?: Date;
   createdBy: string;
   results?: StudentImportResult;
   error?: string;
 }
 
+export interface ImportHistoryQuery {
+  page?: number;
+  limit?: number;
+  status?: ImportJobState;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface ImportHistoryResponse {
+  jobs: ImportJobStatus[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface BatchProgressHooks<R> {
+  onBatchComplete?: (batchResults: R[], processedCount: number) => Promise<void>;
+  shouldContinue?: () => Promise<boolean>;
+}
+
 export interface BulkImportOptions {
   generateDefaultPassword?: boolean;
   sendWelcomeEmail?: boolean;
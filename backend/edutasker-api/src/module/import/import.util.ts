@@ -2,6 +2,7 @@ import * as XLSX from "xlsx";
 import bcrypt from "bcryptjs";
 import { prisma } from "../../config/database.js";
 import type {
+  BatchProgressHooks,
   ColumnMapping,
   ExcelParseResult,
   ImportValidationResult,
@@ -260,15 +261,24 @@ export const processBatch = async <T, R>(
   items: T[],
   processor: (item: T, index: number) => Promise<R>,
   batchSize: number = 50,
+  hooks: BatchProgressHooks<R> = {},
 ): Promise<R[]> => {
   const results: R[] = [];
 
   for (let i = 0; i < items.length; i += batchSize) {
+    if (hooks.shouldContinue && !(await hooks.shouldContinue())) {
+      break;
+    }
+
     const batch = items.slice(i, i + batchSize);
     const batchResults = await Promise.all(
       batch.map((item, batchIndex) => processor(item, i + batchIndex)),
     );
     results.push(...batchResults);
+
+    if (hooks.onBatchComplete) {
+      await hooks.onBatchComplete(batchResults, i + batch.length);
+    }
   }
 
   return results;
@@ -323,8 +333,9 @@ export const generateExcelWorkbook = (
   sheetName: string = "Sheet1",
   columnWidths?: number[],
 ): Buffer => {
-  const worksheet = XLSX.utils.json_to_sheet(data, { header, skipHeader: true });
-  XLSX.utils.sheet_add_aoa(worksheet, [headerLabel], { origin: "A1" });
+  // Rows start below the header labels so the first record is not overwritten
+  const worksheet = XLSX.utils.aoa_to_sheet([headerLabel]);
+  XLSX.utils.sheet_add_json(worksheet, data, { header, skipHeader: true, origin: "A2" });
 
   if (columnWidths) {
     worksheet["!cols"] = columnWidths.map((width) => ({ width }));
@@ -8,6 +8,19 @@ import importRoute from "./import/import.routes.js";
 import mentorRoute from "./mentor/mentor.routes.js";
 import boardRoute from "./board/board.routes.js";
 import fileRoute from "./file/file.routes.js";
+import notificationRoute from "./notification/notification.routes.js";
+import realtimeRoute from "./realtime/realtime.routes.js";
+import attachmentRoute from "./attachment/attachment.routes.js";
+import activityRoute from "./activity/activity.routes.js";
+import dependencyRoute from "./dependency/dependency.routes.js";
+import workflowRoute from "./workflow/workflow.routes.js";
+import reviewRoute from "./review/review.routes.js";
+import milestoneRoute from "./milestone/milestone.routes.js";
+import analyticsRoute from "./analytics/analytics.routes.js";
+import reportRoute from "./report/report.routes.js";
+import archiveRoute from "./archive/archive.routes.js";
+import templateRoute from "./template/template.routes.js";
+import accessTokenRoute from "./access-token/access-token.routes.js";
 export {
   authRoute,
   userRoute,
@@ -19,4 +32,17 @@ export {
   mentorRoute,
   boardRoute,
   fileRoute,
+  notificationRoute,
+  realtimeRoute,
+  attachmentRoute,
+  activityRoute,
+  dependencyRoute,
+  workflowRoute,
+  reviewRoute,
+  milestoneRoute,
+  analyticsRoute,
+  reportRoute,
+  archiveRoute,
+  templateRoute,
+  accessTokenRoute,
 };
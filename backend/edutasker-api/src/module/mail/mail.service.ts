@@ -0,0 +1,72 @@
+import { config } from "../../config/env.js";
+import { getMailTransport } from "./mail.transport.js";
+import type { MailMessage } from "./mail.type.js";
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const appLink = (pathname: string, token: string): string => {
+  const url = new URL(pathname, config.APP_URL);
+  url.searchParams.set("token", token);
+  return url.toString();
+};
+
+const formatDuration = (seconds: number): string =>
+  seconds % 3600 === 0 ? `${seconds / 3600} hour(s)` : `${Math.round(seconds / 60)} minute(s)`;
+
+const actionMail = (
+  to: string,
+  subject: string,
+  greeting: string,
+  lines: string[],
+  link: string,
+): MailMessage => ({
+  to,
+  subject,
+  text: [greeting, "", ...lines, "", link].join("\n"),
+  html: [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...lines.map((line) => `<p>${escapeHtml(line)}</p>`),
+    `<p><a href="${escapeHtml(link)}">${escapeHtml(link)}</a></p>`,
+  ].join("\n"),
+});
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send({ ...message, from: config.MAIL_FROM });
+};
+
+export const sendPasswordResetMail = async (
+  user: { name: string; email: string },
+  token: string,
+): Promise<void> => {
+  await sendMail(
+    actionMail(
+      user.email,
+      "Reset your EduTasker password",
+      `Hi ${user.name},`,
+      [
+        "Someone asked to reset the password of your EduTasker account. Open the link below to choose a new one.",
+        `The link can be used once and expires in ${formatDuration(config.PASSWORD_RESET_TOKEN_TTL)}. If you did not ask for this, you can ignore this email.`,
+      ],
+      appLink("/reset-password", token),
+    ),
+  );
+};
+
+export const sendEmailVerificationMail = async (
+  user: { name: string; email: string },
+  token: string,
+): Promise<void> => {
+  await sendMail(
+    actionMail(
+      user.email,
+      "Verify your EduTasker email address",
+      `Hi ${user.name},`,
+      [
+        "Welcome to EduTasker! Please confirm your email address by opening the link below.",
+        `The link expires in ${formatDuration(config.EMAIL_VERIFICATION_TOKEN_TTL)}.`,
+      ],
+      appLink("/verify-email", token),
+    ),
+  );
+};
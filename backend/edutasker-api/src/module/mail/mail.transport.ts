@@ -0,0 +1,63 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+import { config } from "../../config/env.js";
+import type { MailTransport } from "./mail.type.js";
+
+const createSmtpTransport = (): MailTransport => {
+  if (!config.SMTP_HOST) {
+    throw new Error("SMTP_HOST is required when MAIL_DRIVER is smtp");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT,
+    secure: config.SMTP_SECURE,
+    auth: config.SMTP_USER ? { user: config.SMTP_USER, pass: config.SMTP_PASSWORD } : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+// Writes each message as an .eml file that mail clients can open
+const createFileTransport = (): MailTransport => ({
+  async send(message) {
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    const info = await transporter.sendMail(message);
+
+    await mkdir(config.MAIL_FILE_DIR, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${info.messageId.replace(/[^\w.-]+/g, "")}.eml`;
+    await writeFile(path.join(config.MAIL_FILE_DIR, fileName), info.message as Buffer);
+  },
+});
+
+const createConsoleTransport = (): MailTransport => ({
+  async send(message) {
+    console.log(
+      `[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}\n[mail] ---`,
+    );
+  },
+});
+
+let transport: MailTransport | undefined;
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    switch (config.MAIL_DRIVER) {
+      case "smtp":
+        transport = createSmtpTransport();
+        break;
+      case "file":
+        transport = createFileTransport();
+        break;
+      default:
+        transport = createConsoleTransport();
+    }
+  }
+
+  return transport;
+};
@@ -0,0 +1,226 @@
+import type { Prisma } from "@prisma/client";
+import { Marked } from "marked";
+import sanitizeHtml from "sanitize-html";
+import { prisma } from "../../config/database.js";
+import type {
+  MarkdownReference,
+  MarkdownReferenceType,
+  RenderedMarkdown,
+} from "./markdown.type.js";
+
+// `#<task id>` references a task, `@jane.doe` a member by email local part, `@jane.doe@school.edu` by email
+const TASK_REFERENCE = "#([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?![\\w-])";
+const USER_REFERENCE = "@([\\w.+-]+(?:@[\\w-]+(?:\\.[\\w-]+)+)?)";
+
+// References only start at a word boundary, so `a@b.c` and `issue#1` stay plain text
+const BOUNDARY = "(?:^|[^\\w@.&/])";
+
+const TASK_REFERENCE_PATTERN = new RegExp(`^${TASK_REFERENCE}`, "i");
+const USER_REFERENCE_PATTERN = new RegExp(`^${USER_REFERENCE}`);
+const REFERENCE_START_PATTERN = new RegExp(`${BOUNDARY}[#@]`);
+
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, "img", "del"],
+  allowedAttributes: {
+    a: ["href", "title", "rel"],
+    img: ["src", "alt", "title"],
+    span: ["data-ref-type", "data-ref-id"],
+    th: ["align"],
+    td: ["align"],
+  },
+  allowedClasses: {
+    code: [/^language-[\w-]+$/],
+  },
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedSchemesByTag: { img: ["http", "https"] },
+  // Drop these elements together with their content instead of keeping it as text
+  nonTextTags: ["script", "style", "textarea", "option", "noscript", "iframe", "object", "embed"],
+  transformTags: {
+    a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer nofollow" }),
+  },
+};
+
+const normalizeHandle = (handle: string): string => handle.replace(/\.+$/, "").toLowerCase();
+
+const collectCandidates = (source: string) => {
+  const taskIds = new Set<string>();
+  const handles = new Set<string>();
+
+  for (const match of source.matchAll(new RegExp(`${BOUNDARY}${TASK_REFERENCE}`, "gi"))) {
+    taskIds.add(match[1]!.toLowerCase());
+  }
+  for (const match of source.matchAll(new RegExp(`${BOUNDARY}${USER_REFERENCE}`, "g"))) {
+    handles.add(normalizeHandle(match[1]!));
+  }
+
+  return { taskIds: [...taskIds], handles: [...handles] };
+};
+
+/**
+ * Maps the candidate task IDs and user handles found in the source to records of the project.
+ * Anything that does not resolve is rendered as plain text.
+ */
+const resolveReferences = async (
+  projectId: string,
+  source: string,
+): Promise<{ tasks: Set<string>; users: Map<string, string> }> => {
+  const { taskIds, handles } = collectCandidates(source);
+
+  const [tasks, participants] = await Promise.all([
+    taskIds.length > 0
+      ? prisma.task.findMany({
+          where: { projectId, id: { in: taskIds } },
+          select: { id: true },
+        })
+      : [],
+    handles.length > 0
+      ? prisma.user.findMany({
+          where: {
+            OR: [
+              { projectMembers: { some: { projectId } } },
+              { ProjectMentor: { some: { projectId } } },
+            ],
+          },
+          select: { id: true, email: true },
+        })
+      : [],
+  ]);
+
+  const users = new Map<string, string>();
+  participants.forEach((participant) => {
+    const email = participant.email.toLowerCase();
+    const localPart = email.split("@")[0]!;
+    if (handles.includes(email)) {
+      users.set(email, participant.id);
+    }
+    if (handles.includes(localPart)) {
+      users.set(localPart, participant.id);
+    }
+  });
+
+  return { tasks: new Set(tasks.map((task) => task.id.toLowerCase())), users };
+};
+
+// The matched text only contains word characters and `.+-@#`, so it needs no escaping
+const renderReference = (type: MarkdownReferenceType, id: string, text: string): string =>
+  `<span data-ref-type="${type}" data-ref-id="${id}">${text}</span>`;
+
+/**
+ * Renders Markdown to sanitised HTML. Task and user references that resolve within the project
+ * become `<span data-ref-type data-ref-id>` elements and are returned alongside the HTML so
+ * clients can look them up.
+ */
+export const renderMarkdown = async (
+  projectId: string,
+  source: string,
+): Promise<RenderedMarkdown> => {
+  if (!source.trim()) {
+    return { html: "", references: [] };
+  }
+
+  const { tasks, users } = await resolveReferences(projectId, source);
+  const references = new Map<string, MarkdownReference>();
+
+  const marked = new Marked({ gfm: true, breaks: true, async: false });
+  marked.use({
+    extensions: [
+      {
+        name: "reference",
+        level: "inline",
+        start: (src: string) => {
+          const match = src.match(REFERENCE_START_PATTERN);
+          return match ? match.index! + match[0].length - 1 : undefined;
+        },
+        tokenizer: (src: string) => {
+          const taskMatch = src.match(TASK_REFERENCE_PATTERN);
+          if (taskMatch && tasks.has(taskMatch[1]!.toLowerCase())) {
+            return {
+              type: "reference",
+              raw: taskMatch[0],
+              refType: "task",
+              refId: taskMatch[1]!.toLowerCase(),
+            };
+          }
+
+          const userMatch = src.match(USER_REFERENCE_PATTERN);
+          if (userMatch) {
+            const handle = userMatch[1]!.replace(/\.+$/, "");
+            const userId = users.get(normalizeHandle(handle));
+            if (userId) {
+              return { type: "reference", raw: `@${handle}`, refType: "user", refId: userId };
+            }
+          }
+
+          return undefined;
+        },
+        renderer: (token) => {
+          references.set(`${token.refType}:${token.refId}`, {
+            type: token.refType,
+            id: token.refId,
+          });
+          return renderReference(token.refType, token.refId, token.raw);
+        },
+      },
+    ],
+  });
+
+  const html = sanitizeHtml(marked.parse(source) as string, SANITIZE_OPTIONS);
+
+  return { html: html.trim(), references: [...references.values()] };
+};
+
+const BACKFILL_BATCH_SIZE = 100;
+
+const toJson = (references: MarkdownReference[]) => references as unknown as Prisma.InputJsonValue;
+
+/**
+ * Renders the HTML of task descriptions and comments written before Markdown rendering existed.
+ * Only rows without HTML are touched, so running it again, or on several instances at once, is
+ * harmless. Returns the number of rows rendered.
+ */
+export const backfillRenderedMarkdown = async (): Promise<number> => {
+  let rendered = 0;
+
+  for (;;) {
+    const tasks = await prisma.task.findMany({
+      where: { description: { not: null }, descriptionHtml: null },
+      select: { id: true, projectId: true, description: true, updatedAt: true },
+      take: BACKFILL_BATCH_SIZE,
+    });
+    if (tasks.length === 0) break;
+
+    for (const task of tasks) {
+      const { html, references } = await renderMarkdown(task.projectId, task.description!);
+      await prisma.task.update({
+        where: { id: task.id },
+        // Rendering is not an edit, so the task keeps its last update time
+        data: {
+          descriptionHtml: html,
+          descriptionReferences: toJson(references),
+          updatedAt: task.updatedAt,
+        },
+      });
+    }
+    rendered += tasks.length;
+  }
+
+  for (;;) {
+    const comments = await prisma.comment.findMany({
+      where: { contentHtml: null },
+      select: { id: true, content: true, task: { select: { projectId: true } } },
+      take: BACKFILL_BATCH_SIZE,
+    });
+    if (comments.length === 0) break;
+
+    for (const comment of comments) {
+      const { html, references } = await renderMarkdown(comment.task.projectId, comment.content);
+      await prisma.comment.update({
+        where: { id: comment.id },
+        data: { contentHtml: html, contentReferences: toJson(references) },
+      });
+    }
+    rendered += comments.length;
+  }
+
+  return rendered;
+};
@@ -0,0 +1,11 @@
+export type MarkdownReferenceType = "task" | "user";
+
+export interface MarkdownReference {
+  type: MarkdownReferenceType;
+  id: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  references: MarkdownReference[];
+}
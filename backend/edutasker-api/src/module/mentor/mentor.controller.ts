@@ -6,6 +6,8 @@ import type {
   UpdateMentorByIdDTO,
   MentorListQuery,
 } from "./mentor.type.js";
+import * as ReviewService from "../review/review.service.js";
+import type { PendingReviewsQuery } from "../review/review.type.js";
 import { serviceWrapper } from "../../helper/service-wrapper.js";
 
 const createMentorHandler = async (req: Request, res: Response) => {
@@ -47,6 +49,16 @@ const getMyMentorProfileHandler = async (req: Request, res: Response) => {
   return await MentorService.getMentorByUserId(userId);
 };
 
+const getMyPendingReviewsHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  const query: PendingReviewsQuery = {
+    page: req.query.page ? Number(req.query.page) : undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    projectId: req.query.projectId as string,
+  };
+  return await ReviewService.getPendingReviewsForMentor(query, userId);
+};
+
 const updateMyMentorProfileHandler = async (req: Request, res: Response) => {
   const userId = (req as any).user.id;
   const data: UpdateMentorDTO = req.body;
@@ -109,6 +121,10 @@ export const getMyMentorProfile = serviceWrapper(
   getMyMentorProfileHandler,
   "Mentor profile retrieved successfully",
 );
+export const getMyPendingReviews = serviceWrapper(
+  getMyPendingReviewsHandler,
+  "Pending reviews retrieved successfully",
+);
 export const updateMyMentorProfile = serviceWrapper(
   updateMyMentorProfileHandler,
   "Mentor profile updated successfully",
@@ -1,5 +1,6 @@
 import { Router } from "express";
-import { authGuard, validate } from "../../middleware/index.js";
+import { authGuard, requireRole, validate } from "../../middleware/index.js";
+import { RoleCode } from "../role/role.type.js";
 import * as MentorController from "./mentor.controller.js";
 import {
   createMentorSchema,
@@ -9,6 +10,7 @@ import {
   updateMentorSchema,
   userIdParamSchema,
 } from "./mentor.schema.js";
+import { pendingReviewsQuerySchema } from "../review/review.schema.js";
 
 const router = Router();
 
@@ -166,8 +168,20 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post("/", authGuard, validate({ body: createMentorSchema }), MentorController.createMentor);
+router.post(
+  "/",
+  authGuard,
+  requireRole(RoleCode.ADMIN),
+  validate({ body: createMentorSchema }),
+  MentorController.createMentor,
+);
 
 /**
  * @openapi
@@ -303,6 +317,63 @@ router.get("/verified", authGuard, MentorController.getVerifiedMentors);
  */
 router.get("/me", authGuard, MentorController.getMyMentorProfile);
 
+/**
+ * @openapi
+ * /mentors/me/reviews:
+ *   get:
+ *     tags:
+ *       - Mentors
+ *       - Reviews
+ *     summary: Get my pending reviews
+ *     description: Lists pending submissions, oldest first, across all projects I mentor
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only return submissions of this project
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Pending reviews retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/SubmissionList'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/me/reviews",
+  authGuard,
+  validate({ query: pendingReviewsQuerySchema }),
+  MentorController.getMyPendingReviews,
+);
+
 /**
  * @openapi
  * /mentors/me:
@@ -502,6 +573,7 @@ router.get(
 router.put(
   "/:id/verify",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: mentorIdParamSchema }),
   MentorController.verifyMentor,
 );
@@ -552,6 +624,7 @@ router.put(
 router.put(
   "/:id/unverify",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: mentorIdParamSchema }),
   MentorController.unverifyMentor,
 );
@@ -674,6 +747,7 @@ router.get(
 router.put(
   "/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: mentorIdParamSchema, body: updateMentorByIdSchema }),
   MentorController.updateMentorById,
 );
@@ -724,6 +798,7 @@ router.put(
 router.delete(
   "/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: mentorIdParamSchema }),
   MentorController.deleteMentorById,
 );
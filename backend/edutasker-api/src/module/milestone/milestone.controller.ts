@@ -0,0 +1,104 @@
+import type { Request, Response } from "express";
+import * as MilestoneService from "./milestone.service.js";
+import type { CreateMilestoneDTO, UpdateMilestoneDTO } from "./milestone.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const getMilestonesHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await MilestoneService.getMilestones(projectId, userId);
+};
+
+const getMilestoneByIdHandler = async (req: Request, res: Response) => {
+  const { projectId, milestoneId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!milestoneId) {
+    throw new Error("Milestone ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await MilestoneService.getMilestoneById(projectId, milestoneId, userId);
+};
+
+const createMilestoneHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateMilestoneDTO = req.body;
+  return await MilestoneService.createMilestone(projectId, data, userId);
+};
+
+const updateMilestoneHandler = async (req: Request, res: Response) => {
+  const { projectId, milestoneId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!milestoneId) {
+    throw new Error("Milestone ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: UpdateMilestoneDTO = req.body;
+  return await MilestoneService.updateMilestone(projectId, milestoneId, data, userId);
+};
+
+const deleteMilestoneHandler = async (req: Request, res: Response) => {
+  const { projectId, milestoneId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!milestoneId) {
+    throw new Error("Milestone ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  await MilestoneService.deleteMilestone(projectId, milestoneId, userId);
+  return { message: "Milestone deleted successfully" };
+};
+
+const getMilestoneProgressHandler = async (req: Request, res: Response) => {
+  const { projectId, milestoneId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!milestoneId) {
+    throw new Error("Milestone ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await MilestoneService.getMilestoneProgress(projectId, milestoneId, userId);
+};
+
+export const getMilestones = serviceWrapper(
+  getMilestonesHandler,
+  "Milestones retrieved successfully",
+);
+export const getMilestoneById = serviceWrapper(
+  getMilestoneByIdHandler,
+  "Milestone retrieved successfully",
+);
+export const createMilestone = serviceWrapper(
+  createMilestoneHandler,
+  "Milestone created successfully",
+);
+export const updateMilestone = serviceWrapper(
+  updateMilestoneHandler,
+  "Milestone updated successfully",
+);
+export const deleteMilestone = serviceWrapper(
+  deleteMilestoneHandler,
+  "Milestone deleted successfully",
+);
+export const getMilestoneProgress = serviceWrapper(
+  getMilestoneProgressHandler,
+  "Milestone progress retrieved successfully",
+);
@@ -0,0 +1,476 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as MilestoneController from "./milestone.controller.js";
+import {
+  createMilestoneSchema,
+  milestoneParamSchema,
+  projectMilestoneParamSchema,
+  updateMilestoneSchema,
+} from "./milestone.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     MilestoneSummary:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           example: "Sprint 2"
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *     Milestone:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           example: "Sprint 2"
+ *         goal:
+ *           type: string
+ *           example: "Users can sign up and log in"
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         isActive:
+ *           type: boolean
+ *           description: Whether today falls between the start and end date
+ *         taskCount:
+ *           type: number
+ *         completedTaskCount:
+ *           type: number
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ *     MilestoneProgress:
+ *       type: object
+ *       properties:
+ *         milestoneId:
+ *           type: string
+ *           format: uuid
+ *         totalTasks:
+ *           type: number
+ *         completedTasks:
+ *           type: number
+ *         overdueTasks:
+ *           type: number
+ *         percentage:
+ *           type: number
+ *           description: Share of the milestone's tasks in a final status, from 0 to 100
+ *         byStatus:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               key:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               isFinal:
+ *                 type: boolean
+ *               count:
+ *                 type: number
+ *         daysTotal:
+ *           type: number
+ *         daysElapsed:
+ *           type: number
+ *         daysRemaining:
+ *           type: number
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones:
+ *   get:
+ *     tags:
+ *       - Milestones
+ *     summary: List the project's milestones
+ *     description: Returns milestones and sprints ordered by start date, with their task counts
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     responses:
+ *       200:
+ *         description: Milestones retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Milestone'
+ *       400:
+ *         description: Bad request - Project not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/milestones",
+  authGuard,
+  validate({ params: projectMilestoneParamSchema }),
+  MilestoneController.getMilestones,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones:
+ *   post:
+ *     tags:
+ *       - Milestones
+ *     summary: Create a milestone or sprint
+ *     description: Only project leaders and mentors can manage milestones.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               goal:
+ *                 type: string
+ *                 maxLength: 2000
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Must not be before the start date
+ *           example:
+ *             name: "Sprint 2"
+ *             goal: "Users can sign up and log in"
+ *             startDate: "2026-11-02T00:00:00.000Z"
+ *             endDate: "2026-11-15T23:59:59.000Z"
+ *     responses:
+ *       200:
+ *         description: Milestone created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Milestone'
+ *       400:
+ *         description: Bad request - Validation error or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/milestones",
+  authGuard,
+  validate({ params: projectMilestoneParamSchema, body: createMilestoneSchema }),
+  MilestoneController.createMilestone,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones/{milestoneId}:
+ *   get:
+ *     tags:
+ *       - Milestones
+ *     summary: Get a milestone
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Milestone ID
+ *     responses:
+ *       200:
+ *         description: Milestone retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Milestone'
+ *       400:
+ *         description: Bad request - Milestone not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/milestones/:milestoneId",
+  authGuard,
+  validate({ params: milestoneParamSchema }),
+  MilestoneController.getMilestoneById,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones/{milestoneId}:
+ *   put:
+ *     tags:
+ *       - Milestones
+ *     summary: Update a milestone
+ *     description: |
+ *       Only project leaders and mentors can manage milestones. Moving a milestone does not change
+ *       the due dates of its tasks.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Milestone ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               goal:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 2000
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Milestone updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Milestone'
+ *       400:
+ *         description: Bad request - Milestone not found, end before start or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:projectId/milestones/:milestoneId",
+  authGuard,
+  validate({ params: milestoneParamSchema, body: updateMilestoneSchema }),
+  MilestoneController.updateMilestone,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones/{milestoneId}:
+ *   delete:
+ *     tags:
+ *       - Milestones
+ *     summary: Delete a milestone
+ *     description: The milestone's tasks stay in the project without a milestone.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Milestone ID
+ *     responses:
+ *       200:
+ *         description: Milestone deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ServiceWrapperResponse'
+ *       400:
+ *         description: Bad request - Milestone not found or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:projectId/milestones/:milestoneId",
+  authGuard,
+  validate({ params: milestoneParamSchema }),
+  MilestoneController.deleteMilestone,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones/{milestoneId}/progress:
+ *   get:
+ *     tags:
+ *       - Milestones
+ *     summary: Get a milestone's progress
+ *     description: Counts the milestone's tasks per workflow status and compares them with the time elapsed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Milestone ID
+ *     responses:
+ *       200:
+ *         description: Milestone progress retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/MilestoneProgress'
+ *       400:
+ *         description: Bad request - Milestone not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/milestones/:milestoneId/progress",
+  authGuard,
+  validate({ params: milestoneParamSchema }),
+  MilestoneController.getMilestoneProgress,
+);
+
+export default router;
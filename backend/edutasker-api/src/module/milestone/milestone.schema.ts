@@ -0,0 +1,26 @@
+import Joi from "joi";
+
+export const createMilestoneSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim().required(),
+  goal: Joi.string().max(2000).optional().allow(""),
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().min(Joi.ref("startDate")).required().messages({
+    "date.min": "End date cannot be before the start date",
+  }),
+});
+
+export const updateMilestoneSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim().optional(),
+  goal: Joi.string().max(2000).optional().allow("", null),
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional(),
+}).min(1);
+
+export const projectMilestoneParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const milestoneParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  milestoneId: Joi.string().uuid().required(),
+});
@@ -0,0 +1,315 @@
+import { prisma } from "../../config/database.js";
+import { ProjectRole } from "../project/project.type.js";
+import { getFinalStatusKeys, getWorkflowStatuses } from "../workflow/workflow.service.js";
+import type {
+  CreateMilestoneDTO,
+  MilestoneProgressResponse,
+  MilestoneResponse,
+  MilestoneSummary,
+  UpdateMilestoneDTO,
+} from "./milestone.type.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// End dates are stored as midnight, so a milestone runs until the last millisecond of that day
+const endOfDay = (date: Date): Date => new Date(date.getTime() + DAY_MS - 1);
+
+const isActiveAt = (milestone: { startDate: Date; endDate: Date }, date: Date): boolean =>
+  milestone.startDate <= date && endOfDay(milestone.endDate) >= date;
+
+const mapToMilestoneResponse = (milestone: any): MilestoneResponse => ({
+  id: milestone.id,
+  name: milestone.name,
+  goal: milestone.goal ?? undefined,
+  startDate: milestone.startDate,
+  endDate: milestone.endDate,
+  isActive: isActiveAt(milestone, new Date()),
+  taskCount: milestone.taskCount ?? 0,
+  completedTaskCount: milestone.completedTaskCount ?? 0,
+  createdAt: milestone.createdAt,
+  updatedAt: milestone.updatedAt,
+});
+
+export const mapToMilestoneSummary = (milestone: any): MilestoneSummary => ({
+  id: milestone.id,
+  name: milestone.name,
+  startDate: milestone.startDate,
+  endDate: milestone.endDate,
+});
+
+const checkMilestoneAccess = async (
+  projectId: string,
+  userId: string,
+): Promise<{ canManage: boolean }> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const member = project.members[0];
+  const isMentor = project.ProjectMentor.length > 0;
+  if (!member && !isMentor) {
+    throw new Error("You are not a member of this project");
+  }
+
+  return { canManage: isMentor || member?.role.toUpperCase() === ProjectRole.LEADER };
+};
+
+const assertCanManageMilestones = async (projectId: string, userId: string): Promise<void> => {
+  const { canManage } = await checkMilestoneAccess(projectId, userId);
+  if (!canManage) {
+    throw new Error("Only project leaders and mentors can manage milestones");
+  }
+};
+
+const findMilestone = async (projectId: string, milestoneId: string) => {
+  const milestone = await prisma.milestone.findFirst({
+    where: { id: milestoneId, projectId },
+  });
+
+  if (!milestone) {
+    throw new Error("Milestone not found");
+  }
+
+  return milestone;
+};
+
+const countMilestoneTasks = async (
+  projectId: string,
+  milestoneIds: string[],
+): Promise<Map<string, { taskCount: number; completedTaskCount: number }>> => {
+  const [counts, finalStatuses] = await Promise.all([
+    prisma.task.groupBy({
+      by: ["milestoneId", "status"],
+      where: { projectId, milestoneId: { in: milestoneIds } },
+      _count: { _all: true },
+    }),
+    getFinalStatusKeys(projectId),
+  ]);
+
+  const countsByMilestone = new Map<string, { taskCount: number; completedTaskCount: number }>();
+  counts.forEach((count) => {
+    const current = countsByMilestone.get(count.milestoneId!) ?? {
+      taskCount: 0,
+      completedTaskCount: 0,
+    };
+    current.taskCount += count._count._all;
+    if (finalStatuses.includes(count.status)) {
+      current.completedTaskCount += count._count._all;
+    }
+    countsByMilestone.set(count.milestoneId!, current);
+  });
+
+  return countsByMilestone;
+};
+
+/**
+ * Returns the milestone running today. When milestones overlap, the one that ends first is the
+ * current one.
+ */
+export const getActiveMilestone = async (projectId: string): Promise<MilestoneSummary | null> => {
+  const now = new Date();
+  const milestone = await prisma.milestone.findFirst({
+    where: {
+      projectId,
+      startDate: { lte: now },
+      endDate: { gt: new Date(now.getTime() - DAY_MS) },
+    },
+    orderBy: [{ endDate: "asc" }, { startDate: "asc" }],
+  });
+
+  return milestone ? mapToMilestoneSummary(milestone) : null;
+};
+
+/**
+ * Checks that the milestone belongs to the project and that the task's due date falls inside it.
+ * `override` keeps the assignment for tasks that deliberately run past their milestone.
+ */
+export const assertDueDateInMilestone = async (
+  projectId: string,
+  milestoneId: string,
+  dueDate: Date | null | undefined,
+  override?: boolean,
+): Promise<void> => {
+  const milestone = await findMilestone(projectId, milestoneId);
+
+  if (!dueDate || override) {
+    return;
+  }
+
+  if (!isActiveAt(milestone, new Date(dueDate))) {
+    throw new Error(
+      `Due date must fall within "${milestone.name}" (${milestone.startDate.toISOString()} - ${milestone.endDate.toISOString()}). Pass overrideMilestoneDates to keep it anyway`,
+    );
+  }
+};
+
+export const getMilestones = async (
+  projectId: string,
+  userId: string,
+): Promise<MilestoneResponse[]> => {
+  await checkMilestoneAccess(projectId, userId);
+
+  const milestones = await prisma.milestone.findMany({
+    where: { projectId },
+    orderBy: [{ startDate: "asc" }, { createdAt: "asc" }],
+  });
+
+  const countsByMilestone = await countMilestoneTasks(
+    projectId,
+    milestones.map((milestone) => milestone.id),
+  );
+
+  return milestones.map((milestone) =>
+    mapToMilestoneResponse({ ...milestone, ...countsByMilestone.get(milestone.id) }),
+  );
+};
+
+export const getMilestoneById = async (
+  projectId: string,
+  milestoneId: string,
+  userId: string,
+): Promise<MilestoneResponse> => {
+  await checkMilestoneAccess(projectId, userId);
+
+  const milestone = await findMilestone(projectId, milestoneId);
+  const countsByMilestone = await countMilestoneTasks(projectId, [milestoneId]);
+
+  return mapToMilestoneResponse({ ...milestone, ...countsByMilestone.get(milestoneId) });
+};
+
+export const createMilestone = async (
+  projectId: string,
+  data: CreateMilestoneDTO,
+  userId: string,
+): Promise<MilestoneResponse> => {
+  await assertCanManageMilestones(projectId, userId);
+
+  const milestone = await prisma.milestone.create({
+    data: {
+      projectId,
+      name: data.name,
+      goal: data.goal || undefined,
+      startDate: data.startDate,
+      endDate: data.endDate,
+    },
+  });
+
+  return mapToMilestoneResponse(milestone);
+};
+
+/**
+ * Updates a milestone. Tasks keep their due dates when the milestone moves; the date check runs
+ * again the next time such a task is saved.
+ */
+export const updateMilestone = async (
+  projectId: string,
+  milestoneId: string,
+  data: UpdateMilestoneDTO,
+  userId: string,
+): Promise<MilestoneResponse> => {
+  await assertCanManageMilestones(projectId, userId);
+
+  const milestone = await findMilestone(projectId, milestoneId);
+
+  const startDate = data.startDate ?? milestone.startDate;
+  const endDate = data.endDate ?? milestone.endDate;
+  if (new Date(endDate) < new Date(startDate)) {
+    throw new Error("End date cannot be before the start date");
+  }
+
+  const updatedMilestone = await prisma.milestone.update({
+    where: { id: milestoneId },
+    data: {
+      ...(data.name && { name: data.name }),
+      ...(data.goal !== undefined && { goal: data.goal || null }),
+      ...(data.startDate && { startDate: data.startDate }),
+      ...(data.endDate && { endDate: data.endDate }),
+    },
+  });
+
+  const countsByMilestone = await countMilestoneTasks(projectId, [milestoneId]);
+  return mapToMilestoneResponse({ ...updatedMilestone, ...countsByMilestone.get(milestoneId) });
+};
+
+export const deleteMilestone = async (
+  projectId: string,
+  milestoneId: string,
+  userId: string,
+): Promise<void> => {
+  await assertCanManageMilestones(projectId, userId);
+  await findMilestone(projectId, milestoneId);
+
+  // Tasks stay in the project and simply lose their milestone
+  await prisma.milestone.delete({ where: { id: milestoneId } });
+};
+
+export const getMilestoneProgress = async (
+  projectId: string,
+  milestoneId: string,
+  userId: string,
+): Promise<MilestoneProgressResponse> => {
+  await checkMilestoneAccess(projectId, userId);
+
+  const milestone = await findMilestone(projectId, milestoneId);
+  const statuses = await getWorkflowStatuses(projectId);
+  const finalStatuses = statuses.filter((status) => status.isFinal).map((status) => status.key);
+  const now = new Date();
+
+  const [counts, overdueTasks] = await Promise.all([
+    prisma.task.groupBy({
+      by: ["status"],
+      where: { projectId, milestoneId },
+      _count: { _all: true },
+    }),
+    prisma.task.count({
+      where: {
+        projectId,
+        milestoneId,
+        dueDate: { lt: now },
+        status: { notIn: finalStatuses },
+      },
+    }),
+  ]);
+
+  const countByStatus = new Map(counts.map((count) => [count.status, count._count._all]));
+  const byStatus = statuses.map((status) => ({
+    key: status.key,
+    name: status.name,
+    isFinal: status.isFinal,
+    count: countByStatus.get(status.key) ?? 0,
+  }));
+
+  const totalTasks = counts.reduce((sum, count) => sum + count._count._all, 0);
+  const completedTasks = byStatus
+    .filter((status) => status.isFinal)
+    .reduce((sum, status) => sum + status.count, 0);
+
+  const daysTotal = Math.max(
+    1,
+    Math.ceil((milestone.endDate.getTime() - milestone.startDate.getTime()) / DAY_MS),
+  );
+  const daysElapsed = Math.min(
+    daysTotal,
+    Math.max(0, Math.ceil((now.getTime() - milestone.startDate.getTime()) / DAY_MS)),
+  );
+
+  return {
+    milestoneId,
+    totalTasks,
+    completedTasks,
+    overdueTasks,
+    percentage: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
+    byStatus,
+    daysTotal,
+    daysElapsed,
+    daysRemaining: daysTotal - daysElapsed,
+  };
+};
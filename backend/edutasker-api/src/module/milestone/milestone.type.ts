@@ -0,0 +1,47 @@
+import type { TaskStatusCount } from "../task/task.type.js";
+
+export interface MilestoneSummary {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface MilestoneResponse {
+  id: string;
+  name: string;
+  goal?: string;
+  startDate: Date;
+  endDate: Date;
+  isActive: boolean;
+  taskCount: number;
+  completedTaskCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MilestoneProgressResponse {
+  milestoneId: string;
+  totalTasks: number;
+  completedTasks: number;
+  overdueTasks: number;
+  percentage: number;
+  byStatus: TaskStatusCount[];
+  daysTotal: number;
+  daysElapsed: number;
+  daysRemaining: number;
+}
+
+export interface CreateMilestoneDTO {
+  name: string;
+  goal?: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface UpdateMilestoneDTO {
+  name?: string;
+  goal?: string | null;
+  startDate?: Date;
+  endDate?: Date;
+}
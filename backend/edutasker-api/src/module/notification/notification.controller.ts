@@ -0,0 +1,54 @@
+import type { Request, Response } from "express";
+import * as NotificationService from "./notification.service.js";
+import type { NotificationListQuery } from "./notification.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const listNotificationsHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  const query: NotificationListQuery = {
+    page: req.query.page ? Number(req.query.page) : undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    unread: req.query.unread === "true",
+  };
+  return await NotificationService.getNotifications(userId, query);
+};
+
+const markAsReadHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!id) {
+    throw new Error("Notification ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await NotificationService.markNotificationAsRead(id, userId);
+};
+
+const markAllAsReadHandler = async (req: Request, res: Response) => {
+  const userId = (req as any).user.id;
+  return await NotificationService.markAllNotificationsAsRead(userId);
+};
+
+const deleteNotificationHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!id) {
+    throw new Error("Notification ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  await NotificationService.deleteNotification(id, userId);
+  return { message: "Notification deleted successfully" };
+};
+
+export const listNotifications = serviceWrapper(
+  listNotificationsHandler,
+  "Notifications retrieved successfully",
+);
+export const markAsRead = serviceWrapper(markAsReadHandler, "Notification marked as read");
+export const markAllAsRead = serviceWrapper(
+  markAllAsReadHandler,
+  "All notifications marked as read",
+);
+export const deleteNotification = serviceWrapper(
+  deleteNotificationHandler,
+  "Notification deleted successfully",
+);
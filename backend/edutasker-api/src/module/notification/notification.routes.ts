@@ -0,0 +1,246 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as NotificationController from "./notification.controller.js";
+import { notificationIdParamSchema, notificationListQuerySchema } from "./notification.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Notification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           description: Notification unique identifier
+ *         message:
+ *           type: string
+ *           description: Human readable notification text
+ *         type:
+ *           type: string
+ *           enum: [info, task_assigned, comment_added, comment_mention, project_member_added, review_requested, review_completed]
+ *           description: Notification category
+ *         isRead:
+ *           type: boolean
+ *           description: Whether the notification has been read
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Creation timestamp
+ *     NotificationListResponse:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *         - type: object
+ *           properties:
+ *             content:
+ *               type: object
+ *               properties:
+ *                 notifications:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Notification'
+ *                 total:
+ *                   type: number
+ *                 unreadCount:
+ *                   type: number
+ *                 page:
+ *                   type: number
+ *                 limit:
+ *                   type: number
+ *                 totalPages:
+ *                   type: number
+ */
+
+/**
+ * @openapi
+ * /notifications:
+ *   get:
+ *     tags:
+ *       - Notifications
+ *     summary: List my notifications
+ *     description: Returns the current user's notifications, newest first, with optional unread filter
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *         description: Number of notifications per page
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only return unread notifications
+ *     responses:
+ *       200:
+ *         description: Notifications retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NotificationListResponse'
+ *             example:
+ *               message: "Notifications retrieved successfully"
+ *               content:
+ *                 notifications:
+ *                   - id: "0b6e4a9c-3f0e-4d8e-9d4f-7a1c2b3d4e5f"
+ *                     message: "John Doe assigned you to \"Implement user authentication\""
+ *                     type: "task_assigned"
+ *                     isRead: false
+ *                     createdAt: "2024-01-15T10:30:00Z"
+ *                 total: 1
+ *                 unreadCount: 1
+ *                 page: 1
+ *                 limit: 20
+ *                 totalPages: 1
+ *               messages: ["Notifications retrieved successfully"]
+ *               code: "200"
+ *               success: true
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/",
+  authGuard,
+  validate({ query: notificationListQuerySchema }),
+  NotificationController.listNotifications,
+);
+
+/**
+ * @openapi
+ * /notifications/read-all:
+ *   put:
+ *     tags:
+ *       - Notifications
+ *     summary: Mark all notifications as read
+ *     description: Marks every unread notification of the current user as read
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: All notifications marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ServiceWrapperResponse'
+ *             example:
+ *               message: "All notifications marked as read"
+ *               content:
+ *                 updated: 5
+ *               messages: ["All notifications marked as read"]
+ *               code: "200"
+ *               success: true
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put("/read-all", authGuard, NotificationController.markAllAsRead);
+
+/**
+ * @openapi
+ * /notifications/{id}/read:
+ *   put:
+ *     tags:
+ *       - Notifications
+ *     summary: Mark a notification as read
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Notification ID
+ *     responses:
+ *       200:
+ *         description: Notification marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Notification'
+ *       400:
+ *         description: Notification not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *             example:
+ *               message: "Notification not found"
+ *               content: null
+ *               messages: ["Notification not found"]
+ *               code: "400"
+ *               success: false
+ */
+router.put(
+  "/:id/read",
+  authGuard,
+  validate({ params: notificationIdParamSchema }),
+  NotificationController.markAsRead,
+);
+
+/**
+ * @openapi
+ * /notifications/{id}:
+ *   delete:
+ *     tags:
+ *       - Notifications
+ *     summary: Delete a notification
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Notification ID
+ *     responses:
+ *       200:
+ *         description: Notification deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ServiceWrapperResponse'
+ *       400:
+ *         description: Notification not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:id",
+  authGuard,
+  validate({ params: notificationIdParamSchema }),
+  NotificationController.deleteNotification,
+);
+
+export default router;
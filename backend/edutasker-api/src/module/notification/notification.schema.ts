@@ -0,0 +1,11 @@
+import Joi from "joi";
+
+export const notificationListQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  unread: Joi.boolean().optional(),
+});
+
+export const notificationIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
@@ -0,0 +1,134 @@
+import { prisma } from "../../config/database.js";
+import {
+  type CreateNotificationDTO,
+  type NotificationListQuery,
+  type NotificationListResponse,
+  type NotificationResponse,
+  NotificationType,
+} from "./notification.type.js";
+
+const mapToNotificationResponse = (notification: {
+  id: string;
+  message: string;
+  type: string;
+  isRead: boolean;
+  createdAt: Date;
+}): NotificationResponse => ({
+  id: notification.id,
+  message: notification.message,
+  type: notification.type,
+  isRead: notification.isRead,
+  createdAt: notification.createdAt,
+});
+
+export const createNotification = async (
+  userId: string,
+  data: CreateNotificationDTO,
+): Promise<NotificationResponse> => {
+  const notification = await prisma.notification.create({
+    data: {
+      userId,
+      message: data.message,
+      type: data.type || NotificationType.INFO,
+    },
+  });
+
+  return mapToNotificationResponse(notification);
+};
+
+export const notifyUsers = async (
+  userIds: string[],
+  data: CreateNotificationDTO,
+): Promise<number> => {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  const { count } = await prisma.notification.createMany({
+    data: recipients.map((userId) => ({
+      userId,
+      message: data.message,
+      type: data.type || NotificationType.INFO,
+    })),
+  });
+
+  return count;
+};
+
+export const getNotifications = async (
+  userId: string,
+  query: NotificationListQuery,
+): Promise<NotificationListResponse> => {
+  const page = query.page || 1;
+  const limit = query.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const where: any = { userId };
+  if (query.unread) {
+    where.isRead = false;
+  }
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.notification.count({ where }),
+    prisma.notification.count({ where: { userId, isRead: false } }),
+  ]);
+
+  return {
+    notifications: notifications.map(mapToNotificationResponse),
+    total,
+    unreadCount,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+export const markNotificationAsRead = async (
+  notificationId: string,
+  userId: string,
+): Promise<NotificationResponse> => {
+  const notification = await prisma.notification.findFirst({
+    where: { id: notificationId, userId },
+  });
+
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+
+  const updatedNotification = await prisma.notification.update({
+    where: { id: notificationId },
+    data: { isRead: true },
+  });
+
+  return mapToNotificationResponse(updatedNotification);
+};
+
+export const markAllNotificationsAsRead = async (userId: string): Promise<{ updated: number }> => {
+  const { count } = await prisma.notification.updateMany({
+    where: { userId, isRead: false },
+    data: { isRead: true },
+  });
+
+  return { updated: count };
+};
+
+export const deleteNotification = async (notificationId: string, userId: string): Promise<void> => {
+  const notification = await prisma.notification.findFirst({
+    where: { id: notificationId, userId },
+  });
+
+  if (!notification) {
+    throw new Error("Notification not found");
+  }
+
+  await prisma.notification.delete({
+    where: { id: notificationId },
+  });
+};
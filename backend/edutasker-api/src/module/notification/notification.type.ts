@@ -0,0 +1,37 @@
+export enum NotificationType {
+  INFO = "info",
+  TASK_ASSIGNED = "task_assigned",
+  COMMENT_ADDED = "comment_added",
+  COMMENT_MENTION = "comment_mention",
+  PROJECT_MEMBER_ADDED = "project_member_added",
+  REVIEW_REQUESTED = "review_requested",
+  REVIEW_COMPLETED = "review_completed",
+}
+
+export interface NotificationResponse {
+  id: string;
+  message: string;
+  type: string;
+  isRead: boolean;
+  createdAt: Date;
+}
+
+export interface CreateNotificationDTO {
+  message: string;
+  type?: NotificationType | string;
+}
+
+export interface NotificationListQuery {
+  page?: number;
+  limit?: number;
+  unread?: boolean;
+}
+
+export interface NotificationListResponse {
+  notifications: NotificationResponse[];
+  total: number;
+  unreadCount: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -2,6 +2,8 @@ import type { Request, Response } from "express";
 import * as ProjectService from "./project.service.js";
 import type {
   AddMemberDTO,
+  AssignPermissionDTO,
+  CopyPermissionsDTO,
   CreateProjectDTO,
   ProjectListQuery,
   UpdateProjectDTO,
@@ -74,6 +76,52 @@ const removeMemberHandler = async (req: Request, res: Response) => {
   return { message: "Member removed successfully" };
 };
 
+const listPermissionsHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const requesterId = (req as any).user.id;
+  if (!id) {
+    throw new Error("Project ID is required");
+  }
+  return await ProjectService.getProjectPermissions(
+    id,
+    { userId: req.query.userId as string | undefined },
+    requesterId,
+  );
+};
+
+const grantPermissionHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const requesterId = (req as any).user.id;
+  if (!id) {
+    throw new Error("Project ID is required");
+  }
+  const data: AssignPermissionDTO = req.body;
+  return await ProjectService.grantProjectPermission(id, data, requesterId);
+};
+
+const revokePermissionHandler = async (req: Request, res: Response) => {
+  const { id, permissionId } = req.params;
+  const requesterId = (req as any).user.id;
+  if (!id) {
+    throw new Error("Project ID is required");
+  }
+  if (!permissionId) {
+    throw new Error("Permission ID is required");
+  }
+  await ProjectService.revokeProjectPermission(id, permissionId, requesterId);
+  return { message: "Permission revoked successfully" };
+};
+
+const copyPermissionsHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const requesterId = (req as any).user.id;
+  if (!id) {
+    throw new Error("Project ID is required");
+  }
+  const data: CopyPermissionsDTO = req.body;
+  return await ProjectService.copyProjectPermissions(id, data, requesterId);
+};
+
 const getMyProjectsHandler = async (req: Request, res: Response) => {
   const userId = (req as any).user.id;
   const query: Partial<ProjectListQuery> = {
@@ -96,6 +144,22 @@ export const updateProject = serviceWrapper(updateProjectHandler, "Project updat
 export const deleteProject = serviceWrapper(deleteProjectHandler, "Project deleted successfully");
 export const addMember = serviceWrapper(addMemberHandler, "Member added successfully");
 export const removeMember = serviceWrapper(removeMemberHandler, "Member removed successfully");
+export const listPermissions = serviceWrapper(
+  listPermissionsHandler,
+  "Permissions retrieved successfully",
+);
+export const grantPermission = serviceWrapper(
+  grantPermissionHandler,
+  "Permission granted successfully",
+);
+export const revokePermission = serviceWrapper(
+  revokePermissionHandler,
+  "Permission revoked successfully",
+);
+export const copyPermissions = serviceWrapper(
+  copyPermissionsHandler,
+  "Permissions copied successfully",
+);
 export const getMyProjects = serviceWrapper(
   getMyProjectsHandler,
   "My projects retrieved successfully",
@@ -4,7 +4,11 @@ import { validate } from "../../middleware/validate.middleware.js";
 import * as ProjectController from "./project.controller.js";
 import {
   addMemberSchema,
+  assignPermissionSchema,
+  copyPermissionsSchema,
   createProjectSchema,
+  permissionIdParamSchema,
+  permissionListQuerySchema,
   projectIdParamSchema,
   projectListQuerySchema,
   removeMemberParamSchema,
@@ -72,6 +76,9 @@ const router = Router();
  *           items:
  *             $ref: '#/components/schemas/ProjectMentor'
  *           description: Project mentors
+ *         activeMilestone:
+ *           $ref: '#/components/schemas/MilestoneSummary'
+ *           description: Milestone or sprint running today. Only returned by GET /projects/{id}
  *         boards:
  *           type: array
  *           items:
@@ -223,6 +230,10 @@ const router = Router();
  *                 format: date-time
  *                 description: Project deadline
  *                 example: "2024-12-31T23:59:59Z"
+ *               templateId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Project template to set up the workflow, boards and starter tasks from. Defaults to the To Do / In Progress / Done workflow
  *     responses:
  *       200:
  *         description: Project created successfully
@@ -737,10 +748,10 @@ router.delete(
  *                 example: "789e0123-e89b-12d3-a456-426614174002"
  *               role:
  *                 type: string
- *                 enum: [member, admin]
- *                 default: member
- *                 description: Member role in the project
- *                 example: "member"
+ *                 enum: [LEADER, MEMBER]
+ *                 default: MEMBER
+ *                 description: Member role in the project. The role's default permission set is granted on join.
+ *                 example: "MEMBER"
  *     responses:
  *       200:
  *         description: Member added successfully
@@ -880,4 +891,317 @@ router.delete(
   ProjectController.removeMember,
 );
 
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ProjectPermission:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         action:
+ *           type: string
+ *           enum: [READ, CREATE, UPDATE, DELETE]
+ *         resource:
+ *           type: string
+ *           description: Resource the action applies to (project, member, board, task, comment)
+ *         user:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ */
+
+/**
+ * @openapi
+ * /projects/{id}/permissions:
+ *   get:
+ *     tags:
+ *       - Project Permissions
+ *     summary: List project permissions
+ *     description: |
+ *       Lists the ACL entries checked by the project guard. Leaders and mentors can list every entry;
+ *       other members can only list their own by passing their user ID.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only return the permissions of this member
+ *     responses:
+ *       200:
+ *         description: Permissions retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ProjectPermission'
+ *             example:
+ *               message: "Permissions retrieved successfully"
+ *               content:
+ *                 - id: "abc12345-e89b-12d3-a456-426614174004"
+ *                   action: "CREATE"
+ *                   resource: "task"
+ *                   user:
+ *                     id: "789e0123-e89b-12d3-a456-426614174002"
+ *                     name: "John Doe"
+ *                     email: "john@example.com"
+ *               messages: ["Permissions retrieved successfully"]
+ *               code: "200"
+ *               success: true
+ *       400:
+ *         description: Bad request - Project not found or not allowed to manage permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:id/permissions",
+  authGuard,
+  validate({ params: projectIdParamSchema, query: permissionListQuerySchema }),
+  ProjectController.listPermissions,
+);
+
+/**
+ * @openapi
+ * /projects/{id}/permissions:
+ *   post:
+ *     tags:
+ *       - Project Permissions
+ *     summary: Grant a permission
+ *     description: Grants a member an action on a resource (project leaders and mentors only). Granting an existing permission is a no-op.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - userId
+ *               - action
+ *               - resource
+ *             properties:
+ *               userId:
+ *                 type: string
+ *                 format: uuid
+ *                 example: "789e0123-e89b-12d3-a456-426614174002"
+ *               action:
+ *                 type: string
+ *                 enum: [READ, CREATE, UPDATE, DELETE]
+ *                 example: "DELETE"
+ *               resource:
+ *                 type: string
+ *                 example: "task"
+ *     responses:
+ *       200:
+ *         description: Permission granted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ProjectPermission'
+ *       400:
+ *         description: Bad request - Not a leader, or the user is not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:id/permissions",
+  authGuard,
+  validate({ params: projectIdParamSchema, body: assignPermissionSchema }),
+  ProjectController.grantPermission,
+);
+
+/**
+ * @openapi
+ * /projects/{id}/permissions/copy:
+ *   post:
+ *     tags:
+ *       - Project Permissions
+ *     summary: Copy permissions between members
+ *     description: |
+ *       Copies every permission of one member to another (project leaders and mentors only).
+ *       With `replaceExisting` the target's current permissions are removed first; otherwise they are merged.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - fromUserId
+ *               - toUserId
+ *             properties:
+ *               fromUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 example: "456e7890-e89b-12d3-a456-426614174001"
+ *               toUserId:
+ *                 type: string
+ *                 format: uuid
+ *                 example: "789e0123-e89b-12d3-a456-426614174002"
+ *               replaceExisting:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Permissions copied successfully, returns the target member's permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ProjectPermission'
+ *       400:
+ *         description: Bad request - Not a leader, or either user is not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:id/permissions/copy",
+  authGuard,
+  validate({ params: projectIdParamSchema, body: copyPermissionsSchema }),
+  ProjectController.copyPermissions,
+);
+
+/**
+ * @openapi
+ * /projects/{id}/permissions/{permissionId}:
+ *   delete:
+ *     tags:
+ *       - Project Permissions
+ *     summary: Revoke a permission
+ *     description: Removes a single ACL entry (project leaders and mentors only)
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: permissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Permission ID
+ *         example: "abc12345-e89b-12d3-a456-426614174004"
+ *     responses:
+ *       200:
+ *         description: Permission revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Bad request - Not a leader or permission not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:id/permissions/:permissionId",
+  authGuard,
+  validate({ params: permissionIdParamSchema }),
+  ProjectController.revokePermission,
+);
+
 export default router;
@@ -5,6 +5,7 @@ export const createProjectSchema = Joi.object({
   description: Joi.string().max(1000).optional().allow(""),
   status: Joi.string().valid("active", "completed", "cancelled", "on-hold").default("active"),
   deadline: Joi.date().iso().greater("now").optional(),
+  templateId: Joi.string().uuid().optional(),
 });
 
 export const updateProjectSchema = Joi.object({
@@ -59,6 +60,21 @@ export const assignPermissionSchema = Joi.object({
   resource: Joi.string().min(1).required(),
 });
 
+export const copyPermissionsSchema = Joi.object({
+  fromUserId: Joi.string().uuid().required(),
+  toUserId: Joi.string().uuid().invalid(Joi.ref("fromUserId")).required(),
+  replaceExisting: Joi.boolean().default(false),
+});
+
+export const permissionListQuerySchema = Joi.object({
+  userId: Joi.string().uuid().optional(),
+});
+
+export const permissionIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+  permissionId: Joi.string().uuid().required(),
+});
+
 export const removeMemberParamSchema = Joi.object({
   id: Joi.string().uuid().required(),
   userId: Joi.string().uuid().required(),
@@ -1,17 +1,82 @@
 import { prisma } from "../../config/database.js";
-import type {
-  AddMemberDTO,
-  AddMentorDTO,
-  BoardResponse,
-  CreateBoardDTO,
-  CreateProjectDTO,
-  ProjectListQuery,
-  ProjectListResponse,
-  ProjectResponse,
-  UpdateBoardDTO,
-  UpdateProjectDTO,
+import { deleteAttachmentObjects } from "../attachment/attachment.service.js";
+import { createNotification } from "../notification/notification.service.js";
+import { NotificationType } from "../notification/notification.type.js";
+import { getActiveMilestone } from "../milestone/milestone.service.js";
+import { applyProjectTemplate, getProjectTemplateById } from "../template/template.service.js";
+import { createDefaultWorkflow, DEFAULT_WORKFLOW } from "../workflow/workflow.service.js";
+import {
+  ProjectAction,
+  ProjectResource,
+  ProjectRole,
+  type AddMemberDTO,
+  type AddMentorDTO,
+  type AssignPermissionDTO,
+  type BoardResponse,
+  type CopyPermissionsDTO,
+  type CreateBoardDTO,
+  type CreateProjectDTO,
+  type ProjectListQuery,
+  type ProjectListResponse,
+  type ProjectPermissionQuery,
+  type ProjectPermissionResponse,
+  type ProjectResponse,
+  type UpdateBoardDTO,
+  type UpdateProjectDTO,
 } from "./project.type.js";
 
+type PermissionGrant = { action: ProjectAction; resource: string };
+
+const ALL_ACTIONS = Object.values(ProjectAction);
+
+const DEFAULT_PERMISSIONS: Record<ProjectRole.LEADER | ProjectRole.MEMBER, PermissionGrant[]> = {
+  [ProjectRole.LEADER]: Object.values(ProjectResource).flatMap((resource) =>
+    ALL_ACTIONS.map((action) => ({ action, resource })),
+  ),
+  [ProjectRole.MEMBER]: [
+    ...Object.values(ProjectResource).map((resource) => ({
+      action: ProjectAction.READ,
+      resource,
+    })),
+    { action: ProjectAction.CREATE, resource: ProjectResource.TASK },
+    { action: ProjectAction.UPDATE, resource: ProjectResource.TASK },
+    { action: ProjectAction.CREATE, resource: ProjectResource.COMMENT },
+  ],
+};
+
+const mapToPermissionResponse = (permission: any): ProjectPermissionResponse => ({
+  id: permission.id,
+  action: permission.action,
+  resource: permission.resource,
+  user: {
+    id: permission.user.id,
+    name: permission.user.name,
+    email: permission.user.email,
+  },
+});
+
+const permissionInclude = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+export const applyDefaultPermissions = async (projectId: string, userId: string, role: string) => {
+  const grants =
+    role.toUpperCase() === ProjectRole.LEADER
+      ? DEFAULT_PERMISSIONS[ProjectRole.LEADER]
+      : DEFAULT_PERMISSIONS[ProjectRole.MEMBER];
+
+  await prisma.projectPermission.createMany({
+    data: grants.map((grant) => ({ projectId, userId, ...grant })),
+    skipDuplicates: true,
+  });
+};
+
 const mapToProjectResponse = (project: any): ProjectResponse => ({
   id: project.id,
   name: project.name,
@@ -49,6 +114,7 @@ const mapToProjectResponse = (project: any): ProjectResponse => ({
       avatarUrl: mentor.user.avatarUrl ?? undefined,
     },
   })),
+  activeMilestone: project.activeMilestone ?? undefined,
   boards: project.Board?.map((board: any) => ({
     id: board.id,
     name: board.name,
@@ -62,9 +128,12 @@ export const createProject = async (
   data: CreateProjectDTO,
   createdById: string,
 ): Promise<ProjectResponse> => {
+  const { templateId, ...projectData } = data;
+  const template = templateId ? await getProjectTemplateById(templateId) : undefined;
+
   const project = await prisma.project.create({
     data: {
-      ...data,
+      ...projectData,
       createdById,
     },
     include: {
@@ -92,15 +161,22 @@ export const createProject = async (
       role: "LEADER",
     },
   });
-
-  // Create default boards
-  await prisma.board.createMany({
-    data: [
-      { name: "To Do", order: 0, projectId: project.id },
-      { name: "In Progress", order: 1, projectId: project.id },
-      { name: "Done", order: 2, projectId: project.id },
-    ],
-  });
+  await applyDefaultPermissions(project.id, createdById, ProjectRole.LEADER);
+
+  if (template) {
+    await applyProjectTemplate(project.id, template, createdById);
+  } else {
+    // Create the default workflow and one board per status
+    const statusIds = await createDefaultWorkflow(project.id);
+    await prisma.board.createMany({
+      data: DEFAULT_WORKFLOW.map((status, index) => ({
+        name: status.name,
+        order: index,
+        projectId: project.id,
+        statusId: statusIds.get(status.key),
+      })),
+    });
+  }
 
   return mapToProjectResponse(project);
 };
@@ -270,7 +346,8 @@ export const getProjectById = async (
     throw new Error("Project not found");
   }
 
-  return mapToProjectResponse(project);
+  const activeMilestone = await getActiveMilestone(projectId);
+  return mapToProjectResponse({ ...project, activeMilestone });
 };
 
 export const updateProject = async (
@@ -348,6 +425,7 @@ export const deleteProject = async (projectId: string): Promise<void> => {
     throw new Error("Project not found");
   }
 
+  await deleteAttachmentObjects({ projectId });
   await prisma.project.delete({
     where: { id: projectId },
   });
@@ -390,6 +468,12 @@ export const addProjectMember = async (
       role: data.role || "MEMBER",
     },
   });
+  await applyDefaultPermissions(projectId, data.userId, data.role || ProjectRole.MEMBER);
+
+  await createNotification(data.userId, {
+    message: `You were added to project "${project.name}" as ${(data.role || "MEMBER").toLowerCase()}`,
+    type: NotificationType.PROJECT_MEMBER_ADDED,
+  });
 
   return getProjectById(projectId);
 };
@@ -430,14 +514,19 @@ export const removeProjectMember = async (projectId: string, userId: string): Pr
     }
   }
 
-  await prisma.projectMember.delete({
-    where: {
-      projectId_userId: {
-        projectId,
-        userId,
+  await prisma.$transaction([
+    prisma.projectPermission.deleteMany({
+      where: { projectId, userId },
+    }),
+    prisma.projectMember.delete({
+      where: {
+        projectId_userId: {
+          projectId,
+          userId,
+        },
       },
-    },
-  });
+    }),
+  ]);
 };
 
 export const checkProjectMembership = async (
@@ -775,3 +864,139 @@ export const getProjectBoards = async (projectId: string): Promise<BoardResponse
     projectId: board.projectId,
   }));
 };
+
+const assertCanManagePermissions = async (projectId: string, userId: string): Promise<void> => {
+  const [member, mentor] = await Promise.all([
+    prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
+    }),
+    prisma.projectMentor.findFirst({
+      where: { projectId, userId },
+    }),
+  ]);
+
+  if (member?.role.toUpperCase() !== ProjectRole.LEADER && !mentor) {
+    throw new Error("Only project leaders can manage permissions");
+  }
+};
+
+const assertProjectMember = async (projectId: string, userId: string): Promise<void> => {
+  const member = await prisma.projectMember.findUnique({
+    where: { projectId_userId: { projectId, userId } },
+  });
+
+  if (!member) {
+    throw new Error("User is not a member of this project");
+  }
+};
+
+export const getProjectPermissions = async (
+  projectId: string,
+  query: ProjectPermissionQuery,
+  requesterId: string,
+): Promise<ProjectPermissionResponse[]> => {
+  const project = await prisma.project.findUnique({ where: { id: projectId } });
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  // Members may always inspect their own permissions
+  if (query.userId !== requesterId) {
+    await assertCanManagePermissions(projectId, requesterId);
+  }
+
+  const permissions = await prisma.projectPermission.findMany({
+    where: {
+      projectId,
+      ...(query.userId && { userId: query.userId }),
+    },
+    include: permissionInclude,
+    orderBy: [{ userId: "asc" }, { resource: "asc" }, { action: "asc" }],
+  });
+
+  return permissions.map(mapToPermissionResponse);
+};
+
+export const grantProjectPermission = async (
+  projectId: string,
+  data: AssignPermissionDTO,
+  requesterId: string,
+): Promise<ProjectPermissionResponse> => {
+  await assertCanManagePermissions(projectId, requesterId);
+  await assertProjectMember(projectId, data.userId);
+
+  const permission = await prisma.projectPermission.upsert({
+    where: {
+      projectId_userId_action_resource: {
+        projectId,
+        userId: data.userId,
+        action: data.action,
+        resource: data.resource,
+      },
+    },
+    update: {},
+    create: {
+      projectId,
+      userId: data.userId,
+      action: data.action,
+      resource: data.resource,
+    },
+    include: permissionInclude,
+  });
+
+  return mapToPermissionResponse(permission);
+};
+
+export const revokeProjectPermission = async (
+  projectId: string,
+  permissionId: string,
+  requesterId: string,
+): Promise<void> => {
+  await assertCanManagePermissions(projectId, requesterId);
+
+  const permission = await prisma.projectPermission.findFirst({
+    where: { id: permissionId, projectId },
+  });
+
+  if (!permission) {
+    throw new Error("Permission not found");
+  }
+
+  await prisma.projectPermission.delete({
+    where: { id: permissionId },
+  });
+};
+
+export const copyProjectPermissions = async (
+  projectId: string,
+  data: CopyPermissionsDTO,
+  requesterId: string,
+): Promise<ProjectPermissionResponse[]> => {
+  await assertCanManagePermissions(projectId, requesterId);
+  await Promise.all([
+    assertProjectMember(projectId, data.fromUserId),
+    assertProjectMember(projectId, data.toUserId),
+  ]);
+
+  const sourcePermissions = await prisma.projectPermission.findMany({
+    where: { projectId, userId: data.fromUserId },
+    select: { action: true, resource: true },
+  });
+
+  await prisma.$transaction([
+    ...(data.replaceExisting
+      ? [prisma.projectPermission.deleteMany({ where: { projectId, userId: data.toUserId } })]
+      : []),
+    prisma.projectPermission.createMany({
+      data: sourcePermissions.map((permission) => ({
+        projectId,
+        userId: data.toUserId,
+        action: permission.action,
+        resource: permission.resource,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return getProjectPermissions(projectId, { userId: data.toUserId }, requesterId);
+};
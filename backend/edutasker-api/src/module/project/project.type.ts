@@ -1,3 +1,5 @@
+import type { MilestoneSummary } from "../milestone/milestone.type.js";
+
 export interface ProjectResponse {
   id: string;
   name: string;
@@ -13,6 +15,7 @@ export interface ProjectResponse {
   };
   members?: ProjectMemberResponse[];
   mentors?: ProjectMentorResponse[];
+  activeMilestone?: MilestoneSummary;
   boards?: BoardResponse[];
   _count?: {
     tasks: number;
@@ -69,6 +72,7 @@ export interface CreateProjectDTO {
   description?: string;
   status?: string;
   deadline?: Date;
+  templateId?: string;
 }
 
 export interface UpdateProjectDTO {
@@ -122,6 +126,16 @@ export interface AssignPermissionDTO {
   resource: string;
 }
 
+export interface CopyPermissionsDTO {
+  fromUserId: string;
+  toUserId: string;
+  replaceExisting?: boolean;
+}
+
+export interface ProjectPermissionQuery {
+  userId?: string;
+}
+
 export interface ProjectStats {
   totalProjects: number;
   activeProjects: number;
@@ -130,6 +144,7 @@ export interface ProjectStats {
 }
 
 export enum ProjectRole {
+  LEADER = "LEADER",
   MEMBER = "MEMBER",
   MENTOR = "MENTOR",
   ADMIN = "ADMIN",
@@ -141,3 +156,11 @@ export enum ProjectAction {
   UPDATE = "UPDATE",
   DELETE = "DELETE",
 }
+
+export enum ProjectResource {
+  PROJECT = "project",
+  MEMBER = "member",
+  BOARD = "board",
+  TASK = "task",
+  COMMENT = "comment",
+}
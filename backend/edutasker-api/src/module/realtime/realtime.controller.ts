@@ -0,0 +1,58 @@
+import type { Request, Response } from "express";
+import * as RealtimeService from "./realtime.service.js";
+import type { ProjectEvent } from "./realtime.type.js";
+import { createResponseObject } from "../../helper/response-object.js";
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+const writeEvent = (res: Response, event: ProjectEvent) => {
+  res.write(`id: ${event.id}\n`);
+  res.write(`event: ${event.type}\n`);
+  res.write(`data: ${JSON.stringify(event)}\n\n`);
+};
+
+export const streamProjectEvents = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const userId = (req as any).user.id;
+
+  let unsubscribe: () => Promise<void>;
+  try {
+    if (!projectId) {
+      throw new Error("Project ID is required");
+    }
+
+    await RealtimeService.checkProjectStreamAccess(projectId, userId);
+    unsubscribe = await RealtimeService.subscribeToProjectEvents(projectId, (event) =>
+      writeEvent(res, event),
+    );
+  } catch (error: any) {
+    return res.status(403).json(
+      createResponseObject({
+        content: null,
+        messages: error?.message || "Unable to open event stream",
+        code: "403",
+        success: false,
+      }),
+    );
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe().catch((error) => {
+      console.error("Failed to release project event subscription:", error);
+    });
+  });
+};
@@ -0,0 +1,64 @@
+import { Router } from "express";
+import { streamAuthGuard, validate } from "../../middleware/index.js";
+import * as RealtimeController from "./realtime.controller.js";
+import { projectEventsParamSchema } from "./realtime.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /projects/{projectId}/events:
+ *   get:
+ *     tags:
+ *       - Realtime
+ *     summary: Subscribe to project events
+ *     description: |
+ *       Opens a Server-Sent Events stream that pushes board and task changes of the project as they happen.
+ *       Events are fanned out through Redis so every API instance delivers them.
+ *       Browsers cannot set headers on `EventSource`, so the access token may also be passed as the `access_token` query parameter.
+ *
+ *       Event names: `task.created`, `task.updated`, `task.moved`, `task.deleted`, `board.updated`, `board.reordered`, `comment.added`, `comment.updated`, `comment.deleted`, `dependency.added`, `dependency.removed`.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: access_token
+ *         schema:
+ *           type: string
+ *         description: JWT access token, used when the Authorization header cannot be sent
+ *     responses:
+ *       200:
+ *         description: Event stream opened
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *             example: |
+ *               id: 5f0c7b2e-1a2b-4c3d-8e9f-0a1b2c3d4e5f
+ *               event: task.moved
+ *               data: {"id":"5f0c7b2e-1a2b-4c3d-8e9f-0a1b2c3d4e5f","type":"task.moved","projectId":"123e4567-e89b-12d3-a456-426614174000","actorId":"456e7890-e89b-12d3-a456-426614174001","payload":{"taskId":"789e0123-e89b-12d3-a456-426614174002","boardId":"abc12345-e89b-12d3-a456-426614174004","order":2},"emittedAt":"2024-01-15T10:30:00.000Z"}
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not a member of this project
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/events",
+  streamAuthGuard,
+  validate({ params: projectEventsParamSchema }),
+  RealtimeController.streamProjectEvents,
+);
+
+export default router;
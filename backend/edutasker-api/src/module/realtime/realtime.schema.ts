@@ -0,0 +1,5 @@
+import Joi from "joi";
+
+export const projectEventsParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { prisma } from "../../config/database.js";
+import redis from "../../config/redis.js";
+import type { ProjectEvent, ProjectEventListener, ProjectEventType } from "./realtime.type.js";
+
+const CHANNEL_PREFIX = "project-events:";
+
+const localEmitter = new EventEmitter();
+localEmitter.setMaxListeners(0);
+
+const channelSubscriptions = new Map<string, Promise<void>>();
+let subscriber: ReturnType<typeof redis.duplicate> | null = null;
+
+const getChannel = (projectId: string) => `${CHANNEL_PREFIX}${projectId}`;
+
+const getSubscriber = async () => {
+  if (!subscriber) {
+    subscriber = redis.duplicate();
+    subscriber.on("error", (err) => {
+      console.error("❌ Redis subscriber error:", err);
+    });
+    await subscriber.connect();
+  }
+  return subscriber;
+};
+
+const ensureChannelSubscription = (channel: string): Promise<void> => {
+  let subscription = channelSubscriptions.get(channel);
+  if (!subscription) {
+    subscription = getSubscriber().then((client) =>
+      client.subscribe(channel, (message) => {
+        try {
+          localEmitter.emit(channel, JSON.parse(message) as ProjectEvent);
+        } catch (error) {
+          console.error("Failed to parse project event:", error);
+        }
+      }),
+    );
+    channelSubscriptions.set(channel, subscription);
+    subscription.catch(() => channelSubscriptions.delete(channel));
+  }
+  return subscription;
+};
+
+const releaseChannelSubscription = async (channel: string): Promise<void> => {
+  if (localEmitter.listenerCount(channel) > 0 || !channelSubscriptions.has(channel)) {
+    return;
+  }
+
+  channelSubscriptions.delete(channel);
+  if (subscriber) {
+    await subscriber.unsubscribe(channel);
+  }
+};
+
+export const publishProjectEvent = async <T>(
+  projectId: string,
+  type: ProjectEventType,
+  payload: T,
+  actorId?: string,
+): Promise<void> => {
+  const event: ProjectEvent<T> = {
+    id: randomUUID(),
+    type,
+    projectId,
+    actorId,
+    payload,
+    emittedAt: new Date().toISOString(),
+  };
+
+  // Realtime delivery is best effort and must never fail the originating request
+  try {
+    await redis.publish(getChannel(projectId), JSON.stringify(event));
+  } catch (error) {
+    console.error("Failed to publish project event:", error);
+  }
+};
+
+export const subscribeToProjectEvents = async (
+  projectId: string,
+  listener: ProjectEventListener,
+): Promise<() => Promise<void>> => {
+  const channel = getChannel(projectId);
+
+  localEmitter.on(channel, listener);
+  try {
+    await ensureChannelSubscription(channel);
+  } catch (error) {
+    localEmitter.off(channel, listener);
+    throw error;
+  }
+
+  return async () => {
+    localEmitter.off(channel, listener);
+    await releaseChannelSubscription(channel);
+  };
+};
+
+export const checkProjectStreamAccess = async (
+  projectId: string,
+  userId: string,
+): Promise<void> => {
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      OR: [
+        { createdById: userId },
+        { members: { some: { userId } } },
+        { ProjectMentor: { some: { userId } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new Error("Access denied. You are not a member of this project.");
+  }
+};
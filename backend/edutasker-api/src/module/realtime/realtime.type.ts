@@ -0,0 +1,24 @@
+export enum ProjectEventType {
+  TASK_CREATED = "task.created",
+  TASK_UPDATED = "task.updated",
+  TASK_MOVED = "task.moved",
+  TASK_DELETED = "task.deleted",
+  BOARD_UPDATED = "board.updated",
+  BOARD_REORDERED = "board.reordered",
+  COMMENT_ADDED = "comment.added",
+  COMMENT_UPDATED = "comment.updated",
+  COMMENT_DELETED = "comment.deleted",
+  DEPENDENCY_ADDED = "dependency.added",
+  DEPENDENCY_REMOVED = "dependency.removed",
+}
+
+export interface ProjectEvent<T = unknown> {
+  id: string;
+  type: ProjectEventType;
+  projectId: string;
+  actorId?: string;
+  payload: T;
+  emittedAt: string;
+}
+
+export type ProjectEventListener = (event: ProjectEvent) => void;
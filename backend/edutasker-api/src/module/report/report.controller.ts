@@ -0,0 +1,50 @@
+import type { Request, Response } from "express";
+import * as ReportService from "./report.service.js";
+import type { ContributionReportQuery } from "./report.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const parseReportQuery = (req: Request): ContributionReportQuery => ({
+  from: req.query.from ? new Date(req.query.from as string) : undefined,
+  to: req.query.to ? new Date(req.query.to as string) : undefined,
+});
+
+const getContributionReportHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await ReportService.getContributionReport(projectId, parseReportQuery(req), userId);
+};
+
+const exportContributionReportHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const { buffer, filename } = await ReportService.exportContributionReport(
+    projectId,
+    parseReportQuery(req),
+    userId,
+  );
+
+  res.set({
+    "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Content-Length": buffer.length.toString(),
+  });
+
+  return buffer;
+};
+
+export const getContributionReport = serviceWrapper(
+  getContributionReportHandler,
+  "Contribution report retrieved successfully",
+);
+export const exportContributionReport = serviceWrapper(
+  exportContributionReportHandler,
+  "Contribution report exported successfully",
+);
@@ -0,0 +1,189 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as ReportController from "./report.controller.js";
+import { contributionReportQuerySchema, projectReportParamSchema } from "./report.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     MemberContribution:
+ *       type: object
+ *       properties:
+ *         user:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *         role:
+ *           type: string
+ *         tasksCreated:
+ *           type: number
+ *         tasksAssigned:
+ *           type: number
+ *         tasksCompleted:
+ *           type: number
+ *           description: Assigned tasks that entered a final status in the range
+ *         completedOnTime:
+ *           type: number
+ *         completedLate:
+ *           type: number
+ *         completedWithoutDueDate:
+ *           type: number
+ *         onTimeRate:
+ *           type: number
+ *           nullable: true
+ *           description: Percentage of completed tasks with a due date that were finished on time
+ *         commentsWritten:
+ *           type: number
+ *         filesUploaded:
+ *           type: number
+ *     ContributionReport:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         projectName:
+ *           type: string
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         members:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/MemberContribution'
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/reports/contributions:
+ *   get:
+ *     tags:
+ *       - Reports
+ *     summary: Get the contribution of each project member
+ *     description: |
+ *       Tasks created, assigned and completed (on time or late against the due date), comments
+ *       written and files uploaded per member. Both range bounds are optional and inclusive.
+ *       Only project leaders and mentors can view reports.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Contribution report retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ContributionReport'
+ *       400:
+ *         description: Bad request - Invalid range, project not found or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/reports/contributions",
+  authGuard,
+  validate({ params: projectReportParamSchema, query: contributionReportQuerySchema }),
+  ReportController.getContributionReport,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/reports/contributions/export:
+ *   get:
+ *     tags:
+ *       - Reports
+ *     summary: Export the contribution report as XLSX
+ *     description: The same data as the contribution report, one row per member.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Excel file
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Bad request - Invalid range, project not found or not a leader or mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/reports/contributions/export",
+  authGuard,
+  validate({ params: projectReportParamSchema, query: contributionReportQuerySchema }),
+  ReportController.exportContributionReport,
+);
+
+export default router;
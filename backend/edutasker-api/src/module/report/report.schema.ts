@@ -0,0 +1,12 @@
+import Joi from "joi";
+
+export const contributionReportQuerySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref("from")).optional().messages({
+    "date.min": "to cannot be before from",
+  }),
+});
+
+export const projectReportParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
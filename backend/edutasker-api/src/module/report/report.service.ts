@@ -0,0 +1,244 @@
+import { prisma } from "../../config/database.js";
+import { generateExcelWorkbook } from "../import/import.util.js";
+import { ProjectRole } from "../project/project.type.js";
+import { getFinalStatusKeys } from "../workflow/workflow.service.js";
+import type {
+  ContributionReportQuery,
+  ContributionReportResponse,
+  MemberContribution,
+} from "./report.type.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONTRIBUTION_COLUMNS: { key: string; label: string; width: number }[] = [
+  { key: "name", label: "Name", width: 25 },
+  { key: "email", label: "Email", width: 30 },
+  { key: "role", label: "Role", width: 12 },
+  { key: "tasksCreated", label: "Tasks Created", width: 15 },
+  { key: "tasksAssigned", label: "Tasks Assigned", width: 15 },
+  { key: "tasksCompleted", label: "Tasks Completed", width: 16 },
+  { key: "completedOnTime", label: "On Time", width: 10 },
+  { key: "completedLate", label: "Late", width: 10 },
+  { key: "completedWithoutDueDate", label: "No Due Date", width: 13 },
+  { key: "onTimeRate", label: "On-Time Rate (%)", width: 16 },
+  { key: "commentsWritten", label: "Comments", width: 12 },
+  { key: "filesUploaded", label: "Files Uploaded", width: 15 },
+];
+
+const assertCanViewReports = async (projectId: string, userId: string) => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const member = project.members[0];
+  const isMentor = project.ProjectMentor.length > 0;
+  if (!isMentor && member?.role.toUpperCase() !== ProjectRole.LEADER) {
+    throw new Error("Only project leaders and mentors can view reports");
+  }
+
+  return project;
+};
+
+/**
+ * Builds a Prisma date filter for the report range. `to` is a calendar day, so everything up to
+ * the end of that day counts.
+ */
+const toDateFilter = (query: ContributionReportQuery) => {
+  if (!query.from && !query.to) {
+    return undefined;
+  }
+
+  return {
+    ...(query.from && { gte: query.from }),
+    ...(query.to && { lt: new Date(query.to.getTime() + DAY_MS) }),
+  };
+};
+
+const isInRange = (date: Date, query: ContributionReportQuery): boolean =>
+  (!query.from || date >= query.from) &&
+  (!query.to || date.getTime() < query.to.getTime() + DAY_MS);
+
+const countBy = <T>(rows: T[], key: (row: T) => string | null, count: (row: T) => number) => {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    const id = key(row);
+    if (id) {
+      counts.set(id, (counts.get(id) ?? 0) + count(row));
+    }
+  });
+  return counts;
+};
+
+/**
+ * Collects per-member contribution counts for the project. A task counts as completed for each
+ * of its assignees when it currently sits in a final status and last entered one within the
+ * range; it is on time when that happened no later than its due date.
+ */
+export const getContributionReport = async (
+  projectId: string,
+  query: ContributionReportQuery,
+  userId: string,
+): Promise<ContributionReportResponse> => {
+  const project = await assertCanViewReports(projectId, userId);
+
+  const dateFilter = toDateFilter(query);
+  const [members, finalStatuses] = await Promise.all([
+    prisma.projectMember.findMany({
+      where: { projectId },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { joinedAt: "asc" },
+    }),
+    getFinalStatusKeys(projectId),
+  ]);
+  const memberIds = members.map((member) => member.userId);
+
+  const [created, assigned, comments, files, completedTasks] = await Promise.all([
+    prisma.task.groupBy({
+      by: ["createdById"],
+      where: { projectId, createdById: { in: memberIds }, createdAt: dateFilter },
+      _count: { _all: true },
+    }),
+    prisma.taskAssignee.groupBy({
+      by: ["userId"],
+      where: { task: { projectId }, userId: { in: memberIds }, assignedAt: dateFilter },
+      _count: { _all: true },
+    }),
+    prisma.comment.groupBy({
+      by: ["userId"],
+      where: {
+        task: { projectId },
+        userId: { in: memberIds },
+        createdAt: dateFilter,
+        deletedAt: null,
+      },
+      _count: { _all: true },
+    }),
+    prisma.file.groupBy({
+      by: ["uploadedById"],
+      where: { projectId, uploadedById: { in: memberIds }, createdAt: dateFilter },
+      _count: { _all: true },
+    }),
+    prisma.task.findMany({
+      where: {
+        projectId,
+        status: { in: finalStatuses },
+        assignees: { some: { userId: { in: memberIds } } },
+      },
+      select: {
+        dueDate: true,
+        updatedAt: true,
+        assignees: { select: { userId: true } },
+        statusChanges: {
+          where: { toStatus: { in: finalStatuses } },
+          orderBy: { changedAt: "desc" },
+          take: 1,
+          select: { changedAt: true },
+        },
+      },
+    }),
+  ]);
+
+  const createdCounts = countBy(
+    created,
+    (row) => row.createdById,
+    (row) => row._count._all,
+  );
+  const assignedCounts = countBy(
+    assigned,
+    (row) => row.userId,
+    (row) => row._count._all,
+  );
+  const commentCounts = countBy(
+    comments,
+    (row) => row.userId,
+    (row) => row._count._all,
+  );
+  const fileCounts = countBy(
+    files,
+    (row) => row.uploadedById,
+    (row) => row._count._all,
+  );
+
+  const completions = new Map<string, { onTime: number; late: number; noDueDate: number }>();
+  completedTasks.forEach((task) => {
+    // Tasks finished before status changes were recorded fall back to their last update
+    const completedAt = task.statusChanges[0]?.changedAt ?? task.updatedAt;
+    if (!isInRange(completedAt, query)) {
+      return;
+    }
+
+    task.assignees.forEach(({ userId: assigneeId }) => {
+      const current = completions.get(assigneeId) ?? { onTime: 0, late: 0, noDueDate: 0 };
+      if (!task.dueDate) {
+        current.noDueDate += 1;
+      } else if (completedAt <= task.dueDate) {
+        current.onTime += 1;
+      } else {
+        current.late += 1;
+      }
+      completions.set(assigneeId, current);
+    });
+  });
+
+  return {
+    projectId,
+    projectName: project.name,
+    from: query.from,
+    to: query.to,
+    members: members.map((member): MemberContribution => {
+      const completed = completions.get(member.userId) ?? { onTime: 0, late: 0, noDueDate: 0 };
+      const withDueDate = completed.onTime + completed.late;
+
+      return {
+        user: member.user,
+        role: member.role,
+        tasksCreated: createdCounts.get(member.userId) ?? 0,
+        tasksAssigned: assignedCounts.get(member.userId) ?? 0,
+        tasksCompleted: withDueDate + completed.noDueDate,
+        completedOnTime: completed.onTime,
+        completedLate: completed.late,
+        completedWithoutDueDate: completed.noDueDate,
+        onTimeRate: withDueDate > 0 ? Math.round((completed.onTime / withDueDate) * 100) : null,
+        commentsWritten: commentCounts.get(member.userId) ?? 0,
+        filesUploaded: fileCounts.get(member.userId) ?? 0,
+      };
+    }),
+  };
+};
+
+export const exportContributionReport = async (
+  projectId: string,
+  query: ContributionReportQuery,
+  userId: string,
+): Promise<{ buffer: Buffer; filename: string }> => {
+  const report = await getContributionReport(projectId, query, userId);
+
+  const rows = report.members.map((member) => ({
+    ...member,
+    name: member.user.name,
+    email: member.user.email,
+    onTimeRate: member.onTimeRate ?? "",
+  }));
+
+  const buffer = generateExcelWorkbook(
+    rows,
+    CONTRIBUTION_COLUMNS.map((column) => column.key),
+    CONTRIBUTION_COLUMNS.map((column) => column.label),
+    "Contributions",
+    CONTRIBUTION_COLUMNS.map((column) => column.width),
+  );
+
+  const slug = report.projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return { buffer, filename: `${slug || "project"}-contributions.xlsx` };
+};
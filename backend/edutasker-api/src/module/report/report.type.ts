@@ -0,0 +1,30 @@
+export interface ContributionReportQuery {
+  from?: Date;
+  to?: Date;
+}
+
+export interface MemberContribution {
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  role: string;
+  tasksCreated: number;
+  tasksAssigned: number;
+  tasksCompleted: number;
+  completedOnTime: number;
+  completedLate: number;
+  completedWithoutDueDate: number;
+  onTimeRate: number | null;
+  commentsWritten: number;
+  filesUploaded: number;
+}
+
+export interface ContributionReportResponse {
+  projectId: string;
+  projectName: string;
+  from?: Date;
+  to?: Date;
+  members: MemberContribution[];
+}
@@ -0,0 +1,203 @@
+import type { Request, Response } from "express";
+import * as ReviewService from "./review.service.js";
+import type {
+  CreateRubricCriterionDTO,
+  CreateSubmissionDTO,
+  ReviewFeedbackDTO,
+  ReviewQueueQuery,
+  ScoreSubmissionDTO,
+  UpdateRubricCriterionDTO,
+} from "./review.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const parseReviewQueueQuery = (req: Request): ReviewQueueQuery => ({
+  page: req.query.page ? Number(req.query.page) : undefined,
+  limit: req.query.limit ? Number(req.query.limit) : undefined,
+  status: req.query.status as ReviewQueueQuery["status"],
+  taskId: req.query.taskId as string,
+  milestoneId: req.query.milestoneId as string,
+});
+
+const submitTaskForReviewHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateSubmissionDTO = req.body;
+  return await ReviewService.submitTaskForReview(projectId, taskId, data, userId);
+};
+
+const submitMilestoneForReviewHandler = async (req: Request, res: Response) => {
+  const { projectId, milestoneId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!milestoneId) {
+    throw new Error("Milestone ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateSubmissionDTO = req.body;
+  return await ReviewService.submitMilestoneForReview(projectId, milestoneId, data, userId);
+};
+
+const getReviewQueueHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await ReviewService.getReviewQueue(projectId, parseReviewQueueQuery(req), userId);
+};
+
+const getSubmissionHandler = async (req: Request, res: Response) => {
+  const { projectId, submissionId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!submissionId) {
+    throw new Error("Submission ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await ReviewService.getSubmission(projectId, submissionId, userId);
+};
+
+const approveSubmissionHandler = async (req: Request, res: Response) => {
+  const { projectId, submissionId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!submissionId) {
+    throw new Error("Submission ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: ReviewFeedbackDTO = req.body ?? {};
+  return await ReviewService.approveSubmission(projectId, submissionId, data, userId);
+};
+
+const requestChangesHandler = async (req: Request, res: Response) => {
+  const { projectId, submissionId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!submissionId) {
+    throw new Error("Submission ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: ReviewFeedbackDTO = req.body;
+  return await ReviewService.requestChanges(projectId, submissionId, data, userId);
+};
+
+const scoreSubmissionHandler = async (req: Request, res: Response) => {
+  const { projectId, submissionId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!submissionId) {
+    throw new Error("Submission ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: ScoreSubmissionDTO = req.body;
+  return await ReviewService.scoreSubmission(projectId, submissionId, data, userId);
+};
+
+const getRubricHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await ReviewService.getRubric(projectId, userId);
+};
+
+const createRubricCriterionHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateRubricCriterionDTO = req.body;
+  return await ReviewService.createRubricCriterion(projectId, data, userId);
+};
+
+const updateRubricCriterionHandler = async (req: Request, res: Response) => {
+  const { projectId, criterionId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!criterionId) {
+    throw new Error("Criterion ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: UpdateRubricCriterionDTO = req.body;
+  return await ReviewService.updateRubricCriterion(projectId, criterionId, data, userId);
+};
+
+const deleteRubricCriterionHandler = async (req: Request, res: Response) => {
+  const { projectId, criterionId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!criterionId) {
+    throw new Error("Criterion ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  await ReviewService.deleteRubricCriterion(projectId, criterionId, userId);
+  return { message: "Rubric criterion deleted successfully" };
+};
+
+export const submitTaskForReview = serviceWrapper(
+  submitTaskForReviewHandler,
+  "Task submitted for review successfully",
+);
+export const submitMilestoneForReview = serviceWrapper(
+  submitMilestoneForReviewHandler,
+  "Milestone submitted for review successfully",
+);
+export const getReviewQueue = serviceWrapper(
+  getReviewQueueHandler,
+  "Review queue retrieved successfully",
+);
+export const getSubmission = serviceWrapper(
+  getSubmissionHandler,
+  "Submission retrieved successfully",
+);
+export const approveSubmission = serviceWrapper(
+  approveSubmissionHandler,
+  "Submission approved successfully",
+);
+export const requestChanges = serviceWrapper(
+  requestChangesHandler,
+  "Changes requested successfully",
+);
+export const scoreSubmission = serviceWrapper(
+  scoreSubmissionHandler,
+  "Submission scored successfully",
+);
+export const getRubric = serviceWrapper(getRubricHandler, "Rubric retrieved successfully");
+export const createRubricCriterion = serviceWrapper(
+  createRubricCriterionHandler,
+  "Rubric criterion created successfully",
+);
+export const updateRubricCriterion = serviceWrapper(
+  updateRubricCriterionHandler,
+  "Rubric criterion updated successfully",
+);
+export const deleteRubricCriterion = serviceWrapper(
+  deleteRubricCriterionHandler,
+  "Rubric criterion deleted successfully",
+);
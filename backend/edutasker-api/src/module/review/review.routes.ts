@@ -0,0 +1,916 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as ReviewController from "./review.controller.js";
+import {
+  approveSubmissionSchema,
+  createRubricCriterionSchema,
+  createSubmissionSchema,
+  milestoneSubmissionParamSchema,
+  projectReviewParamSchema,
+  requestChangesSchema,
+  reviewQueueQuerySchema,
+  rubricCriterionParamSchema,
+  scoreSubmissionSchema,
+  submissionParamSchema,
+  taskSubmissionParamSchema,
+  updateRubricCriterionSchema,
+} from "./review.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ReviewUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *     RubricCriterion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *           example: "Code quality"
+ *         description:
+ *           type: string
+ *         maxScore:
+ *           type: integer
+ *           example: 10
+ *         order:
+ *           type: integer
+ *     Rubric:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         criteria:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/RubricCriterion'
+ *         maxTotalScore:
+ *           type: integer
+ *           description: Sum of the maximum scores of all criteria
+ *     SubmissionScore:
+ *       type: object
+ *       properties:
+ *         criterionId:
+ *           type: string
+ *           format: uuid
+ *         criterionName:
+ *           type: string
+ *         score:
+ *           type: integer
+ *         maxScore:
+ *           type: integer
+ *         comment:
+ *           type: string
+ *     Submission:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, CHANGES_REQUESTED]
+ *         note:
+ *           type: string
+ *           description: Note left by the team when submitting
+ *         feedback:
+ *           type: string
+ *           description: Feedback left by the reviewing mentor
+ *         submittedAt:
+ *           type: string
+ *           format: date-time
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *         project:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *         task:
+ *           $ref: '#/components/schemas/DependencyTask'
+ *         milestone:
+ *           $ref: '#/components/schemas/MilestoneSummary'
+ *         submittedBy:
+ *           $ref: '#/components/schemas/ReviewUser'
+ *         reviewedBy:
+ *           $ref: '#/components/schemas/ReviewUser'
+ *         scores:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SubmissionScore'
+ *         totalScore:
+ *           type: integer
+ *           description: Sum of the given scores, present once the submission has been scored
+ *         maxTotalScore:
+ *           type: integer
+ *           description: Maximum reachable score of the project's rubric
+ *     SubmissionList:
+ *       type: object
+ *       properties:
+ *         submissions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Submission'
+ *         total:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *         limit:
+ *           type: integer
+ *         totalPages:
+ *           type: integer
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/submissions:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Submit a task for mentor review
+ *     description: |
+ *       Puts the task into the project's review queue and notifies the project's mentors.
+ *       Only project members can submit, the project needs at least one mentor, and a task can only
+ *       have one pending submission at a time.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 description: Optional note for the reviewer
+ *           example:
+ *             note: "The login flow is ready, please check the error handling"
+ *     responses:
+ *       200:
+ *         description: Task submitted for review successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Submission'
+ *       400:
+ *         description: Bad request - Task not found, not a member, no mentor or already pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/tasks/:taskId/submissions",
+  authGuard,
+  validate({ params: taskSubmissionParamSchema, body: createSubmissionSchema }),
+  ReviewController.submitTaskForReview,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/milestones/{milestoneId}/submissions:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Submit a milestone for mentor review
+ *     description: |
+ *       Puts the milestone as a whole into the project's review queue and notifies the project's
+ *       mentors. The same rules as for task submissions apply.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: milestoneId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Milestone ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 2000
+ *                 description: Optional note for the reviewer
+ *     responses:
+ *       200:
+ *         description: Milestone submitted for review successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Submission'
+ *       400:
+ *         description: Bad request - Milestone not found, not a member, no mentor or already pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/milestones/:milestoneId/submissions",
+  authGuard,
+  validate({ params: milestoneSubmissionParamSchema, body: createSubmissionSchema }),
+  ReviewController.submitMilestoneForReview,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/reviews:
+ *   get:
+ *     tags:
+ *       - Reviews
+ *     summary: Get the project's review queue
+ *     description: Lists the project's submissions, oldest first. Available to members and mentors.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, CHANGES_REQUESTED]
+ *         description: Only return submissions with this status
+ *       - in: query
+ *         name: taskId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only return submissions of this task
+ *       - in: query
+ *         name: milestoneId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only return submissions of this milestone
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Review queue retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/SubmissionList'
+ *       400:
+ *         description: Bad request - Project not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/reviews",
+  authGuard,
+  validate({ params: projectReviewParamSchema, query: reviewQueueQuerySchema }),
+  ReviewController.getReviewQueue,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/reviews/{submissionId}:
+ *   get:
+ *     tags:
+ *       - Reviews
+ *     summary: Get a submission
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Submission ID
+ *     responses:
+ *       200:
+ *         description: Submission retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Submission'
+ *       400:
+ *         description: Bad request - Submission not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/reviews/:submissionId",
+  authGuard,
+  validate({ params: submissionParamSchema }),
+  ReviewController.getSubmission,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/reviews/{submissionId}/approve:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Approve a submission
+ *     description: Marks a pending submission as approved. Only mentors assigned to the project can review.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Submission ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               feedback:
+ *                 type: string
+ *                 maxLength: 5000
+ *           example:
+ *             feedback: "Nice work, the tests cover the edge cases well"
+ *     responses:
+ *       200:
+ *         description: Submission approved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Submission'
+ *       400:
+ *         description: Bad request - Not a mentor of the project or submission not pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/reviews/:submissionId/approve",
+  authGuard,
+  validate({ params: submissionParamSchema, body: approveSubmissionSchema }),
+  ReviewController.approveSubmission,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/reviews/{submissionId}/request-changes:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Request changes on a submission
+ *     description: |
+ *       Sends a pending submission back to the team with feedback. The team can submit the task
+ *       again once the changes are made. Only mentors assigned to the project can review.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Submission ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - feedback
+ *             properties:
+ *               feedback:
+ *                 type: string
+ *                 maxLength: 5000
+ *           example:
+ *             feedback: "Please handle expired sessions before this is merged"
+ *     responses:
+ *       200:
+ *         description: Changes requested successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Submission'
+ *       400:
+ *         description: Bad request - Missing feedback, not a mentor of the project or submission not pending
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/reviews/:submissionId/request-changes",
+  authGuard,
+  validate({ params: submissionParamSchema, body: requestChangesSchema }),
+  ReviewController.requestChanges,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/reviews/{submissionId}/scores:
+ *   put:
+ *     tags:
+ *       - Reviews
+ *     summary: Score a submission against the rubric
+ *     description: |
+ *       Sets the score for one or more rubric criteria. Scores cannot exceed the criterion's
+ *       maximum, and scoring a criterion again replaces the previous score. Scoring does not change
+ *       the submission's status. Only mentors assigned to the project can review.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: submissionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Submission ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scores
+ *             properties:
+ *               scores:
+ *                 type: array
+ *                 minItems: 1
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - criterionId
+ *                     - score
+ *                   properties:
+ *                     criterionId:
+ *                       type: string
+ *                       format: uuid
+ *                     score:
+ *                       type: integer
+ *                       minimum: 0
+ *                     comment:
+ *                       type: string
+ *                       maxLength: 2000
+ *               feedback:
+ *                 type: string
+ *                 maxLength: 5000
+ *           example:
+ *             scores:
+ *               - criterionId: "456e7890-e89b-12d3-a456-426614174001"
+ *                 score: 8
+ *                 comment: "Clean structure"
+ *     responses:
+ *       200:
+ *         description: Submission scored successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Submission'
+ *       400:
+ *         description: Bad request - Unknown criterion, score above maximum or not a mentor of the project
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:projectId/reviews/:submissionId/scores",
+  authGuard,
+  validate({ params: submissionParamSchema, body: scoreSubmissionSchema }),
+  ReviewController.scoreSubmission,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/rubric:
+ *   get:
+ *     tags:
+ *       - Reviews
+ *     summary: Get the project's grading rubric
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *     responses:
+ *       200:
+ *         description: Rubric retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Rubric'
+ *       400:
+ *         description: Bad request - Project not found or no access
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/rubric",
+  authGuard,
+  validate({ params: projectReviewParamSchema }),
+  ReviewController.getRubric,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/rubric/criteria:
+ *   post:
+ *     tags:
+ *       - Reviews
+ *     summary: Add a rubric criterion
+ *     description: Only mentors assigned to the project can change its rubric.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - maxScore
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *               maxScore:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1000
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Position in the rubric. Defaults to the end
+ *           example:
+ *             name: "Code quality"
+ *             description: "Readability, structure and naming"
+ *             maxScore: 10
+ *     responses:
+ *       200:
+ *         description: Rubric criterion created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/RubricCriterion'
+ *       400:
+ *         description: Bad request - Validation error or not a mentor of the project
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/rubric/criteria",
+  authGuard,
+  validate({ params: projectReviewParamSchema, body: createRubricCriterionSchema }),
+  ReviewController.createRubricCriterion,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/rubric/criteria/{criterionId}:
+ *   put:
+ *     tags:
+ *       - Reviews
+ *     summary: Update a rubric criterion
+ *     description: |
+ *       Only mentors assigned to the project can change its rubric. The maximum score cannot be
+ *       lowered below a score that was already given for the criterion.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: criterionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Rubric criterion ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 100
+ *               description:
+ *                 type: string
+ *                 nullable: true
+ *                 maxLength: 1000
+ *               maxScore:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 1000
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Rubric criterion updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/RubricCriterion'
+ *       400:
+ *         description: Bad request - Criterion not found, maximum below given scores or not a mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *   delete:
+ *     tags:
+ *       - Reviews
+ *     summary: Delete a rubric criterion
+ *     description: Criteria that were already used to score a submission cannot be deleted.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *       - in: path
+ *         name: criterionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Rubric criterion ID
+ *     responses:
+ *       200:
+ *         description: Rubric criterion deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ServiceWrapperResponse'
+ *       400:
+ *         description: Bad request - Criterion not found, already used or not a mentor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:projectId/rubric/criteria/:criterionId",
+  authGuard,
+  validate({ params: rubricCriterionParamSchema, body: updateRubricCriterionSchema }),
+  ReviewController.updateRubricCriterion,
+);
+
+router.delete(
+  "/:projectId/rubric/criteria/:criterionId",
+  authGuard,
+  validate({ params: rubricCriterionParamSchema }),
+  ReviewController.deleteRubricCriterion,
+);
+
+export default router;
@@ -0,0 +1,82 @@
+import Joi from "joi";
+
+export const createSubmissionSchema = Joi.object({
+  note: Joi.string().max(2000).optional().allow(""),
+});
+
+export const approveSubmissionSchema = Joi.object({
+  feedback: Joi.string().max(5000).optional().allow(""),
+});
+
+export const requestChangesSchema = Joi.object({
+  feedback: Joi.string().min(1).max(5000).required().messages({
+    "any.required": "Feedback is required when requesting changes",
+  }),
+});
+
+export const scoreSubmissionSchema = Joi.object({
+  scores: Joi.array()
+    .items(
+      Joi.object({
+        criterionId: Joi.string().uuid().required(),
+        score: Joi.number().integer().min(0).required(),
+        comment: Joi.string().max(2000).optional().allow(""),
+      }),
+    )
+    .min(1)
+    .unique("criterionId")
+    .required(),
+  feedback: Joi.string().max(5000).optional().allow(""),
+});
+
+export const reviewQueueQuerySchema = Joi.object({
+  status: Joi.string().valid("PENDING", "APPROVED", "CHANGES_REQUESTED").optional(),
+  taskId: Joi.string().uuid().optional(),
+  milestoneId: Joi.string().uuid().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const pendingReviewsQuerySchema = Joi.object({
+  projectId: Joi.string().uuid().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const createRubricCriterionSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim().required(),
+  description: Joi.string().max(1000).optional().allow(""),
+  maxScore: Joi.number().integer().min(1).max(1000).required(),
+  order: Joi.number().integer().min(0).optional(),
+});
+
+export const updateRubricCriterionSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim().optional(),
+  description: Joi.string().max(1000).optional().allow("", null),
+  maxScore: Joi.number().integer().min(1).max(1000).optional(),
+  order: Joi.number().integer().min(0).optional(),
+}).min(1);
+
+export const projectReviewParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const taskSubmissionParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  taskId: Joi.string().uuid().required(),
+});
+
+export const milestoneSubmissionParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  milestoneId: Joi.string().uuid().required(),
+});
+
+export const submissionParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  submissionId: Joi.string().uuid().required(),
+});
+
+export const rubricCriterionParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  criterionId: Joi.string().uuid().required(),
+});
@@ -0,0 +1,619 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { recordActivity } from "../activity/activity.service.js";
+import { TaskActivityAction } from "../activity/activity.type.js";
+import { notifyUsers } from "../notification/notification.service.js";
+import { mapToMilestoneSummary } from "../milestone/milestone.service.js";
+import { NotificationType } from "../notification/notification.type.js";
+import type {
+  CreateRubricCriterionDTO,
+  CreateSubmissionDTO,
+  PendingReviewsQuery,
+  ReviewFeedbackDTO,
+  ReviewQueueQuery,
+  RubricCriterionResponse,
+  RubricResponse,
+  ScoreSubmissionDTO,
+  SubmissionListResponse,
+  SubmissionResponse,
+  UpdateRubricCriterionDTO,
+} from "./review.type.js";
+
+const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+} as const;
+
+const submissionInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      rubricCriteria: { select: { maxScore: true } },
+    },
+  },
+  task: { select: { id: true, title: true, status: true } },
+  milestone: { select: { id: true, name: true, startDate: true, endDate: true } },
+  submittedBy: { select: userSummarySelect },
+  reviewedBy: { select: userSummarySelect },
+  scores: {
+    include: { criterion: { select: { name: true, maxScore: true, order: true } } },
+  },
+} as const;
+
+const mapToRubricCriterionResponse = (criterion: any): RubricCriterionResponse => ({
+  id: criterion.id,
+  name: criterion.name,
+  description: criterion.description ?? undefined,
+  maxScore: criterion.maxScore,
+  order: criterion.order,
+});
+
+const mapToSubmissionResponse = (submission: any): SubmissionResponse => {
+  const scores = [...submission.scores]
+    .sort((a: any, b: any) => a.criterion.order - b.criterion.order)
+    .map((score: any) => ({
+      criterionId: score.criterionId,
+      criterionName: score.criterion.name,
+      score: score.score,
+      maxScore: score.criterion.maxScore,
+      comment: score.comment ?? undefined,
+    }));
+
+  return {
+    id: submission.id,
+    status: submission.status,
+    note: submission.note ?? undefined,
+    feedback: submission.feedback ?? undefined,
+    submittedAt: submission.submittedAt,
+    reviewedAt: submission.reviewedAt ?? undefined,
+    project: {
+      id: submission.project.id,
+      name: submission.project.name,
+    },
+    task: submission.task
+      ? {
+          id: submission.task.id,
+          title: submission.task.title,
+          status: submission.task.status,
+        }
+      : undefined,
+    milestone: submission.milestone ? mapToMilestoneSummary(submission.milestone) : undefined,
+    submittedBy: submission.submittedBy ?? undefined,
+    reviewedBy: submission.reviewedBy ?? undefined,
+    scores,
+    totalScore:
+      scores.length > 0 ? scores.reduce((total, score) => total + score.score, 0) : undefined,
+    maxTotalScore:
+      scores.length > 0
+        ? submission.project.rubricCriteria.reduce(
+            (total: number, criterion: { maxScore: number }) => total + criterion.maxScore,
+            0,
+          )
+        : undefined,
+  };
+};
+
+const getReviewAccess = async (
+  projectId: string,
+  userId: string,
+): Promise<{ isMember: boolean; isMentor: boolean }> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const isMember = project.members.length > 0;
+  const isMentor = project.ProjectMentor.length > 0;
+  if (!isMember && !isMentor) {
+    throw new Error("You are not a member of this project");
+  }
+
+  return { isMember, isMentor };
+};
+
+const assertProjectMentor = async (projectId: string, userId: string): Promise<void> => {
+  const { isMentor } = await getReviewAccess(projectId, userId);
+  if (!isMentor) {
+    throw new Error("Only mentors assigned to this project can review it");
+  }
+};
+
+const findSubmission = async (projectId: string, submissionId: string) => {
+  const submission = await prisma.submission.findFirst({
+    where: { id: submissionId, projectId },
+    include: submissionInclude,
+  });
+
+  if (!submission) {
+    throw new Error("Submission not found");
+  }
+
+  return submission;
+};
+
+// A submission covers either a task or a milestone
+const titleOf = (submission: {
+  task: { title: string } | null;
+  milestone: { name: string } | null;
+}): string => submission.task?.title ?? submission.milestone?.name ?? "";
+
+/**
+ * Only project members submit work, and only to projects that have a mentor to review it. Returns
+ * the mentors to notify.
+ */
+const assertCanSubmit = async (projectId: string, userId: string): Promise<string[]> => {
+  const { isMember } = await getReviewAccess(projectId, userId);
+  if (!isMember) {
+    throw new Error("Only project members can submit work for review");
+  }
+
+  const mentors = await prisma.projectMentor.findMany({
+    where: { projectId },
+    select: { userId: true },
+  });
+
+  if (mentors.length === 0) {
+    throw new Error("This project has no mentor to review the submission");
+  }
+
+  return mentors.map((mentor) => mentor.userId);
+};
+
+const paginateSubmissions = async (
+  where: Prisma.SubmissionWhereInput,
+  query: { page?: number; limit?: number },
+): Promise<SubmissionListResponse> => {
+  const page = query.page || 1;
+  const limit = query.limit || 20;
+  const skip = (page - 1) * limit;
+
+  const [submissions, total] = await Promise.all([
+    prisma.submission.findMany({
+      where,
+      include: submissionInclude,
+      orderBy: { submittedAt: "asc" },
+      skip,
+      take: limit,
+    }),
+    prisma.submission.count({ where }),
+  ]);
+
+  return {
+    submissions: submissions.map(mapToSubmissionResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+/**
+ * Records the outcome of a review on the task's history and tells the submitter and the task's
+ * assignees about it. Milestone submissions only notify the submitter.
+ */
+const announceReview = async (
+  submission: Awaited<ReturnType<typeof findSubmission>>,
+  action: TaskActivityAction,
+  message: string,
+  userId: string,
+): Promise<void> => {
+  if (submission.task) {
+    await recordActivity({
+      projectId: submission.projectId,
+      taskId: submission.task.id,
+      taskTitle: submission.task.title,
+      actorId: userId,
+      action,
+      newValue: { submissionId: submission.id, status: submission.status },
+    });
+  }
+
+  const assignees = submission.taskId
+    ? await prisma.taskAssignee.findMany({
+        where: { taskId: submission.taskId },
+        select: { userId: true },
+      })
+    : [];
+
+  const recipientIds = [
+    ...(submission.submittedById ? [submission.submittedById] : []),
+    ...assignees.map((assignee) => assignee.userId),
+  ].filter((recipientId) => recipientId !== userId);
+
+  await notifyUsers(recipientIds, { message, type: NotificationType.REVIEW_COMPLETED });
+};
+
+export const getRubric = async (projectId: string, userId: string): Promise<RubricResponse> => {
+  await getReviewAccess(projectId, userId);
+
+  const criteria = await prisma.rubricCriterion.findMany({
+    where: { projectId },
+    orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+  });
+
+  return {
+    projectId,
+    criteria: criteria.map(mapToRubricCriterionResponse),
+    maxTotalScore: criteria.reduce((total, criterion) => total + criterion.maxScore, 0),
+  };
+};
+
+export const createRubricCriterion = async (
+  projectId: string,
+  data: CreateRubricCriterionDTO,
+  userId: string,
+): Promise<RubricCriterionResponse> => {
+  await assertProjectMentor(projectId, userId);
+
+  let criterionOrder = data.order;
+  if (criterionOrder === undefined) {
+    const lastCriterion = await prisma.rubricCriterion.findFirst({
+      where: { projectId },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+    criterionOrder = lastCriterion ? lastCriterion.order + 1 : 0;
+  }
+
+  const criterion = await prisma.rubricCriterion.create({
+    data: {
+      projectId,
+      name: data.name,
+      description: data.description || undefined,
+      maxScore: data.maxScore,
+      order: criterionOrder,
+    },
+  });
+
+  return mapToRubricCriterionResponse(criterion);
+};
+
+export const updateRubricCriterion = async (
+  projectId: string,
+  criterionId: string,
+  data: UpdateRubricCriterionDTO,
+  userId: string,
+): Promise<RubricCriterionResponse> => {
+  await assertProjectMentor(projectId, userId);
+
+  const criterion = await prisma.rubricCriterion.findFirst({
+    where: { id: criterionId, projectId },
+  });
+
+  if (!criterion) {
+    throw new Error("Rubric criterion not found");
+  }
+
+  if (data.maxScore !== undefined && data.maxScore < criterion.maxScore) {
+    const highestScore = await prisma.submissionScore.aggregate({
+      where: { criterionId },
+      _max: { score: true },
+    });
+
+    if ((highestScore._max.score ?? 0) > data.maxScore) {
+      throw new Error(
+        `Existing scores for "${criterion.name}" go up to ${highestScore._max.score}. The maximum cannot be lower`,
+      );
+    }
+  }
+
+  const updatedCriterion = await prisma.rubricCriterion.update({
+    where: { id: criterionId },
+    data: {
+      ...(data.name && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.maxScore !== undefined && { maxScore: data.maxScore }),
+      ...(data.order !== undefined && { order: data.order }),
+    },
+  });
+
+  return mapToRubricCriterionResponse(updatedCriterion);
+};
+
+export const deleteRubricCriterion = async (
+  projectId: string,
+  criterionId: string,
+  userId: string,
+): Promise<void> => {
+  await assertProjectMentor(projectId, userId);
+
+  const criterion = await prisma.rubricCriterion.findFirst({
+    where: { id: criterionId, projectId },
+    include: { _count: { select: { scores: true } } },
+  });
+
+  if (!criterion) {
+    throw new Error("Rubric criterion not found");
+  }
+
+  if (criterion._count.scores > 0) {
+    throw new Error("This criterion has already been used to score submissions");
+  }
+
+  await prisma.rubricCriterion.delete({ where: { id: criterionId } });
+};
+
+export const submitTaskForReview = async (
+  projectId: string,
+  taskId: string,
+  data: CreateSubmissionDTO,
+  userId: string,
+): Promise<SubmissionResponse> => {
+  const mentorIds = await assertCanSubmit(projectId, userId);
+
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, projectId },
+    select: { id: true, title: true },
+  });
+
+  if (!task) {
+    throw new Error("Task not found");
+  }
+
+  const pendingSubmission = await prisma.submission.findFirst({
+    where: { taskId, status: "PENDING" },
+    select: { id: true },
+  });
+
+  if (pendingSubmission) {
+    throw new Error("This task is already waiting for review");
+  }
+
+  const submission = await prisma.submission.create({
+    data: {
+      projectId,
+      taskId,
+      note: data.note || undefined,
+      submittedById: userId,
+    },
+    include: submissionInclude,
+  });
+
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: task.title,
+    actorId: userId,
+    action: TaskActivityAction.SUBMITTED_FOR_REVIEW,
+    newValue: { submissionId: submission.id },
+  });
+
+  await notifyUsers(mentorIds, {
+    message: `"${task.title}" in ${submission.project.name} was submitted for review`,
+    type: NotificationType.REVIEW_REQUESTED,
+  });
+
+  return mapToSubmissionResponse(submission);
+};
+
+export const submitMilestoneForReview = async (
+  projectId: string,
+  milestoneId: string,
+  data: CreateSubmissionDTO,
+  userId: string,
+): Promise<SubmissionResponse> => {
+  const mentorIds = await assertCanSubmit(projectId, userId);
+
+  const milestone = await prisma.milestone.findFirst({
+    where: { id: milestoneId, projectId },
+    select: { id: true, name: true },
+  });
+
+  if (!milestone) {
+    throw new Error("Milestone not found");
+  }
+
+  const pendingSubmission = await prisma.submission.findFirst({
+    where: { milestoneId, status: "PENDING" },
+    select: { id: true },
+  });
+
+  if (pendingSubmission) {
+    throw new Error("This milestone is already waiting for review");
+  }
+
+  const submission = await prisma.submission.create({
+    data: {
+      projectId,
+      milestoneId,
+      note: data.note || undefined,
+      submittedById: userId,
+    },
+    include: submissionInclude,
+  });
+
+  await notifyUsers(mentorIds, {
+    message: `Milestone "${milestone.name}" in ${submission.project.name} was submitted for review`,
+    type: NotificationType.REVIEW_REQUESTED,
+  });
+
+  return mapToSubmissionResponse(submission);
+};
+
+export const getReviewQueue = async (
+  projectId: string,
+  query: ReviewQueueQuery,
+  userId: string,
+): Promise<SubmissionListResponse> => {
+  await getReviewAccess(projectId, userId);
+
+  return paginateSubmissions(
+    {
+      projectId,
+      ...(query.status && { status: query.status }),
+      ...(query.taskId && { taskId: query.taskId }),
+      ...(query.milestoneId && { milestoneId: query.milestoneId }),
+    },
+    query,
+  );
+};
+
+export const getSubmission = async (
+  projectId: string,
+  submissionId: string,
+  userId: string,
+): Promise<SubmissionResponse> => {
+  await getReviewAccess(projectId, userId);
+
+  return mapToSubmissionResponse(await findSubmission(projectId, submissionId));
+};
+
+export const approveSubmission = async (
+  projectId: string,
+  submissionId: string,
+  data: ReviewFeedbackDTO,
+  userId: string,
+): Promise<SubmissionResponse> => {
+  await assertProjectMentor(projectId, userId);
+
+  const submission = await findSubmission(projectId, submissionId);
+  if (submission.status !== "PENDING") {
+    throw new Error("Only pending submissions can be approved");
+  }
+
+  const updatedSubmission = await prisma.submission.update({
+    where: { id: submissionId },
+    data: {
+      status: "APPROVED",
+      ...(data.feedback && { feedback: data.feedback }),
+      reviewedById: userId,
+      reviewedAt: new Date(),
+    },
+    include: submissionInclude,
+  });
+
+  await announceReview(
+    updatedSubmission,
+    TaskActivityAction.REVIEW_APPROVED,
+    `Your submission of "${titleOf(updatedSubmission)}" was approved`,
+    userId,
+  );
+
+  return mapToSubmissionResponse(updatedSubmission);
+};
+
+export const requestChanges = async (
+  projectId: string,
+  submissionId: string,
+  data: ReviewFeedbackDTO,
+  userId: string,
+): Promise<SubmissionResponse> => {
+  await assertProjectMentor(projectId, userId);
+
+  const submission = await findSubmission(projectId, submissionId);
+  if (submission.status !== "PENDING") {
+    throw new Error("Changes can only be requested on pending submissions");
+  }
+
+  const updatedSubmission = await prisma.submission.update({
+    where: { id: submissionId },
+    data: {
+      status: "CHANGES_REQUESTED",
+      feedback: data.feedback,
+      reviewedById: userId,
+      reviewedAt: new Date(),
+    },
+    include: submissionInclude,
+  });
+
+  await announceReview(
+    updatedSubmission,
+    TaskActivityAction.CHANGES_REQUESTED,
+    `Changes were requested on "${titleOf(updatedSubmission)}"`,
+    userId,
+  );
+
+  return mapToSubmissionResponse(updatedSubmission);
+};
+
+/**
+ * Scores a submission against the project's rubric. Scoring does not change the submission's
+ * status, so a mentor can grade before or after approving; re-scoring a criterion replaces it.
+ */
+export const scoreSubmission = async (
+  projectId: string,
+  submissionId: string,
+  data: ScoreSubmissionDTO,
+  userId: string,
+): Promise<SubmissionResponse> => {
+  await assertProjectMentor(projectId, userId);
+  await findSubmission(projectId, submissionId);
+
+  const criteria = await prisma.rubricCriterion.findMany({
+    where: { projectId, id: { in: data.scores.map((score) => score.criterionId) } },
+  });
+  const criteriaById = new Map(criteria.map((criterion) => [criterion.id, criterion]));
+
+  data.scores.forEach((score) => {
+    const criterion = criteriaById.get(score.criterionId);
+    if (!criterion) {
+      throw new Error("Rubric criterion not found in this project");
+    }
+    if (score.score > criterion.maxScore) {
+      throw new Error(`Score for "${criterion.name}" cannot exceed ${criterion.maxScore}`);
+    }
+  });
+
+  await prisma.$transaction([
+    ...data.scores.map((score) =>
+      prisma.submissionScore.upsert({
+        where: {
+          submissionId_criterionId: { submissionId, criterionId: score.criterionId },
+        },
+        create: {
+          submissionId,
+          criterionId: score.criterionId,
+          score: score.score,
+          comment: score.comment || undefined,
+        },
+        update: {
+          score: score.score,
+          comment: score.comment || null,
+        },
+      }),
+    ),
+    prisma.submission.update({
+      where: { id: submissionId },
+      data: {
+        ...(data.feedback && { feedback: data.feedback }),
+        reviewedById: userId,
+        reviewedAt: new Date(),
+      },
+    }),
+  ]);
+
+  const scoredSubmission = await findSubmission(projectId, submissionId);
+  const response = mapToSubmissionResponse(scoredSubmission);
+
+  await announceReview(
+    scoredSubmission,
+    TaskActivityAction.REVIEW_SCORED,
+    `Your submission of "${titleOf(scoredSubmission)}" was scored ${response.totalScore}/${response.maxTotalScore}`,
+    userId,
+  );
+
+  return response;
+};
+
+export const getPendingReviewsForMentor = async (
+  query: PendingReviewsQuery,
+  userId: string,
+): Promise<SubmissionListResponse> => {
+  return paginateSubmissions(
+    {
+      status: "PENDING",
+      project: { ProjectMentor: { some: { userId } } },
+      ...(query.projectId && { projectId: query.projectId }),
+    },
+    query,
+  );
+};
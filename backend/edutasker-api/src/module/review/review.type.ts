@@ -0,0 +1,107 @@
+import type { SubmissionStatus } from "@prisma/client";
+import type { MilestoneSummary } from "../milestone/milestone.type.js";
+
+export interface ReviewUserSummary {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface RubricCriterionResponse {
+  id: string;
+  name: string;
+  description?: string;
+  maxScore: number;
+  order: number;
+}
+
+export interface RubricResponse {
+  projectId: string;
+  criteria: RubricCriterionResponse[];
+  maxTotalScore: number;
+}
+
+export interface SubmissionScoreResponse {
+  criterionId: string;
+  criterionName: string;
+  score: number;
+  maxScore: number;
+  comment?: string;
+}
+
+export interface SubmissionResponse {
+  id: string;
+  status: SubmissionStatus;
+  note?: string;
+  feedback?: string;
+  submittedAt: Date;
+  reviewedAt?: Date;
+  project: {
+    id: string;
+    name: string;
+  };
+  task?: {
+    id: string;
+    title: string;
+    status: string;
+  };
+  milestone?: MilestoneSummary;
+  submittedBy?: ReviewUserSummary;
+  reviewedBy?: ReviewUserSummary;
+  scores: SubmissionScoreResponse[];
+  totalScore?: number;
+  maxTotalScore?: number;
+}
+
+export interface SubmissionListResponse {
+  submissions: SubmissionResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ReviewQueueQuery {
+  status?: SubmissionStatus;
+  taskId?: string;
+  milestoneId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PendingReviewsQuery {
+  projectId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface CreateSubmissionDTO {
+  note?: string;
+}
+
+export interface ReviewFeedbackDTO {
+  feedback?: string;
+}
+
+export interface ScoreSubmissionDTO {
+  scores: {
+    criterionId: string;
+    score: number;
+    comment?: string;
+  }[];
+  feedback?: string;
+}
+
+export interface CreateRubricCriterionDTO {
+  name: string;
+  description?: string;
+  maxScore: number;
+  order?: number;
+}
+
+export interface UpdateRubricCriterionDTO {
+  name?: string;
+  description?: string | null;
+  maxScore?: number;
+  order?: number;
+}
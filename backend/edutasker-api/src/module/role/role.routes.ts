@@ -1,5 +1,6 @@
 import { Router } from "express";
-import { authGuard, validate } from "../../middleware/index.js";
+import { authGuard, requireRole, validate } from "../../middleware/index.js";
+import { RoleCode } from "./role.type.js";
 import * as RoleController from "./role.controller.js";
 import {
   createRoleSchema,
@@ -139,7 +140,13 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post("/", authGuard, validate({ body: createRoleSchema }), RoleController.createRole);
+router.post(
+  "/",
+  authGuard,
+  requireRole(RoleCode.ADMIN),
+  validate({ body: createRoleSchema }),
+  RoleController.createRole,
+);
 
 /**
  * @openapi
@@ -212,7 +219,13 @@ router.post("/", authGuard, validate({ body: createRoleSchema }), RoleController
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get("/", validate({ query: roleListQuerySchema }), RoleController.listRoles);
+router.get(
+  "/",
+  authGuard,
+  requireRole(RoleCode.ADMIN),
+  validate({ query: roleListQuerySchema }),
+  RoleController.listRoles,
+);
 
 /**
  * @openapi
@@ -276,7 +289,13 @@ router.get("/", validate({ query: roleListQuerySchema }), RoleController.listRol
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get("/:id", validate({ params: roleIdParamSchema }), RoleController.getRoleById);
+router.get(
+  "/:id",
+  authGuard,
+  requireRole(RoleCode.ADMIN),
+  validate({ params: roleIdParamSchema }),
+  RoleController.getRoleById,
+);
 
 /**
  * @openapi
@@ -362,6 +381,7 @@ router.get("/:id", validate({ params: roleIdParamSchema }), RoleController.getRo
 router.put(
   "/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: roleIdParamSchema, body: updateRoleSchema }),
   RoleController.updateRole,
 );
@@ -435,6 +455,7 @@ router.put(
 router.delete(
   "/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: roleIdParamSchema }),
   RoleController.deleteRole,
 );
@@ -190,3 +190,12 @@ export const deleteRole = async (roleId: string): Promise<void> => {
     where: { id: roleId },
   });
 };
+
+export const getUserRoleCodes = async (userId: string): Promise<string[]> => {
+  const userRoles = await prisma.userRole.findMany({
+    where: { userId },
+    select: { role: { select: { code: true } } },
+  });
+
+  return userRoles.map((userRole) => userRole.role.code);
+};
@@ -1,3 +1,10 @@
+export enum RoleCode {
+  ADMIN = "ADMIN",
+  MANAGER = "MANAGER",
+  MENTOR = "MENTOR",
+  STUDENT = "STUDENT",
+}
+
 export interface RoleResponse {
   id: string;
   name: string;
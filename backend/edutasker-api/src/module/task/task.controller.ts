@@ -7,6 +7,8 @@ import type {
   AssignTaskDTO,
   UpdateTaskStatusDTO,
   MoveTaskDTO,
+  CreateChecklistItemDTO,
+  UpdateChecklistItemDTO,
 } from "./task.type.js";
 import { serviceWrapper } from "../../helper/service-wrapper.js";
 
@@ -28,7 +30,10 @@ const listTasksHandler = async (req: Request, res: Response) => {
   }
 
   const userId = (req as any).user.id;
-  const query: TaskListQuery = req.query;
+  const query: TaskListQuery = {
+    ...req.query,
+    blocked: req.query.blocked === undefined ? undefined : req.query.blocked === "true",
+  };
   return await TaskService.getTasksByProject(projectId, query, userId);
 };
 
@@ -115,6 +120,76 @@ const moveTaskHandler = async (req: Request, res: Response) => {
   return await TaskService.moveTask(projectId, taskId, data, userId);
 };
 
+const getTaskStatsHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await TaskService.getTaskStats(projectId, userId);
+};
+
+const getSubtasksHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await TaskService.getSubtasks(projectId, taskId, userId);
+};
+
+const addChecklistItemHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateChecklistItemDTO = req.body;
+  return await TaskService.addChecklistItem(projectId, taskId, data, userId);
+};
+
+const updateChecklistItemHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, itemId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!itemId) {
+    throw new Error("Checklist item ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: UpdateChecklistItemDTO = req.body;
+  return await TaskService.updateChecklistItem(projectId, taskId, itemId, data, userId);
+};
+
+const deleteChecklistItemHandler = async (req: Request, res: Response) => {
+  const { projectId, taskId, itemId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!taskId) {
+    throw new Error("Task ID is required");
+  }
+  if (!itemId) {
+    throw new Error("Checklist item ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await TaskService.deleteChecklistItem(projectId, taskId, itemId, userId);
+};
+
 export const createTask = serviceWrapper(createTaskHandler, "Task created successfully");
 export const listTasks = serviceWrapper(listTasksHandler, "Tasks retrieved successfully");
 export const getTaskById = serviceWrapper(getTaskByIdHandler, "Task retrieved successfully");
@@ -126,3 +201,20 @@ export const updateTaskStatus = serviceWrapper(
   "Task status updated successfully",
 );
 export const moveTask = serviceWrapper(moveTaskHandler, "Task moved successfully");
+export const getTaskStats = serviceWrapper(
+  getTaskStatsHandler,
+  "Task statistics retrieved successfully",
+);
+export const getSubtasks = serviceWrapper(getSubtasksHandler, "Subtasks retrieved successfully");
+export const addChecklistItem = serviceWrapper(
+  addChecklistItemHandler,
+  "Checklist item added successfully",
+);
+export const updateChecklistItem = serviceWrapper(
+  updateChecklistItemHandler,
+  "Checklist item updated successfully",
+);
+export const deleteChecklistItem = serviceWrapper(
+  deleteChecklistItemHandler,
+  "Checklist item deleted successfully",
+);
@@ -3,11 +3,14 @@ import { authGuard, validate } from "../../middleware/index.js";
 import * as TaskController from "./task.controller.js";
 import {
   assignTaskSchema,
+  checklistItemParamSchema,
+  createChecklistItemSchema,
   createTaskSchema,
   moveTaskSchema,
   projectIdParamSchema,
   projectTaskParamSchema,
   taskListQuerySchema,
+  updateChecklistItemSchema,
   updateTaskSchema,
   updateTaskStatusSchema,
 } from "./task.schema.js";
@@ -30,15 +33,22 @@ const router = Router();
  *           description: Task title
  *         description:
  *           type: string
- *           description: Task description
+ *           description: Task description as Markdown source
+ *         descriptionHtml:
+ *           type: string
+ *           description: Sanitised HTML rendering of the description
+ *           example: "<p>Follow up with <span data-ref-type=\"user\" data-ref-id=\"456e7890-e89b-12d3-a456-426614174001\">@jane.doe</span></p>"
+ *         descriptionReferences:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/MarkdownReference'
  *         priority:
  *           type: string
  *           enum: [low, medium, high, critical]
  *           description: Task priority level
  *         status:
  *           type: string
- *           enum: [todo, in-progress, review, done]
- *           description: Task status
+ *           description: Key of one of the project's workflow statuses
  *         projectId:
  *           type: string
  *           format: uuid
@@ -79,6 +89,97 @@ const router = Router();
  *           type: string
  *           format: date-time
  *           description: Last update timestamp
+ *         parentTaskId:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Parent task when this task is a subtask
+ *         milestone:
+ *           $ref: '#/components/schemas/MilestoneSummary'
+ *         checklist:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ChecklistItem'
+ *         subtasks:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               title:
+ *                 type: string
+ *               status:
+ *                 type: string
+ *               boardId:
+ *                 type: string
+ *                 format: uuid
+ *         progress:
+ *           type: object
+ *           description: Completion across checklist items and subtasks
+ *           properties:
+ *             checklistCompleted:
+ *               type: number
+ *             checklistTotal:
+ *               type: number
+ *             subtasksCompleted:
+ *               type: number
+ *             subtasksTotal:
+ *               type: number
+ *             percentage:
+ *               type: number
+ *               description: Share of finished steps, or 0/100 from the task status when it has none
+ *         blockedBy:
+ *           type: array
+ *           description: Tasks that must be finished before this one
+ *           items:
+ *             $ref: '#/components/schemas/DependencyTask'
+ *         isCompleted:
+ *           type: boolean
+ *           description: Whether the task is in one of the workflow's final statuses
+ *         isBlocked:
+ *           type: boolean
+ *           description: Whether any blocking task is still open
+ *     MarkdownReference:
+ *       type: object
+ *       description: A task or user referenced from Markdown, rendered as `<span data-ref-type data-ref-id>`
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [task, user]
+ *         id:
+ *           type: string
+ *           format: uuid
+ *     ChecklistItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         isDone:
+ *           type: boolean
+ *         order:
+ *           type: number
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         assignee:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *             avatarUrl:
+ *               type: string
  *     TaskResponse:
  *       allOf:
  *         - $ref: '#/components/schemas/ServiceWrapperResponse'
@@ -149,7 +250,7 @@ const router = Router();
  *               description:
  *                 type: string
  *                 maxLength: 1000
- *                 description: Task description
+ *                 description: Task description in Markdown. `#<task id>` and `@name` become references.
  *                 example: "Implement JWT-based authentication system"
  *               priority:
  *                 type: string
@@ -159,9 +260,7 @@ const router = Router();
  *                 example: "high"
  *               status:
  *                 type: string
- *                 enum: [todo, in-progress, review, done]
- *                 default: todo
- *                 description: Task status
+ *                 description: Key of one of the project's workflow statuses. Boards mapped to a status set it automatically.
  *                 example: "todo"
  *               assignedTo:
  *                 type: array
@@ -175,6 +274,21 @@ const router = Router();
  *                 format: date-time
  *                 description: Task deadline
  *                 example: "2024-03-15T23:59:59Z"
+ *               parentTaskId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Create the task as a subtask of this task. Subtasks cannot be nested further.
+ *                 example: "789e0123-e89b-12d3-a456-426614174003"
+ *               milestoneId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Milestone or sprint the task belongs to. The due date must fall inside it.
+ *               overrideRules:
+ *                 type: boolean
+ *                 description: Project leaders only. Create the task even if the board has reached its WIP limit
+ *               overrideMilestoneDates:
+ *                 type: boolean
+ *                 description: Accept a due date outside the milestone's start and end date
  *     responses:
  *       200:
  *         description: Task created successfully
@@ -280,7 +394,6 @@ router.post(
  *         name: status
  *         schema:
  *           type: string
- *           enum: [todo, in-progress, review, done]
  *         description: Filter by task status
  *         example: "todo"
  *       - in: query
@@ -297,6 +410,23 @@ router.post(
  *           format: uuid
  *         description: Filter by assigned user ID
  *         example: "456e7890-e89b-12d3-a456-426614174001"
+ *       - in: query
+ *         name: parentTaskId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only list subtasks of this task
+ *       - in: query
+ *         name: milestoneId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only list tasks of this milestone
+ *       - in: query
+ *         name: blocked
+ *         schema:
+ *           type: boolean
+ *         description: true lists only tasks with an open blocker, false only tasks without one
  *     responses:
  *       200:
  *         description: Tasks retrieved successfully
@@ -362,6 +492,77 @@ router.get(
   TaskController.listTasks,
 );
 
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/stats:
+ *   get:
+ *     tags:
+ *       - Tasks
+ *     summary: Get task statistics
+ *     description: Counts the project's tasks per workflow status. Tasks in a final status count as completed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     responses:
+ *       200:
+ *         description: Task statistics retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         totalTasks:
+ *                           type: number
+ *                         completedTasks:
+ *                           type: number
+ *                         overdueTasks:
+ *                           type: number
+ *                         byStatus:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               key:
+ *                                 type: string
+ *                               name:
+ *                                 type: string
+ *                               isFinal:
+ *                                 type: boolean
+ *                               count:
+ *                                 type: number
+ *       400:
+ *         description: Bad request - Not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/tasks/stats",
+  authGuard,
+  validate({ params: projectIdParamSchema }),
+  TaskController.getTaskStats,
+);
+
 /**
  * @openapi
  * /projects/{projectId}/tasks/{taskId}:
@@ -495,7 +696,7 @@ router.get(
  *               description:
  *                 type: string
  *                 maxLength: 1000
- *                 description: Task description
+ *                 description: Task description in Markdown. `#<task id>` and `@name` become references.
  *                 example: "Updated description with more details"
  *               priority:
  *                 type: string
@@ -504,14 +705,27 @@ router.get(
  *                 example: "critical"
  *               status:
  *                 type: string
- *                 enum: [todo, in-progress, review, done]
- *                 description: Task status
- *                 example: "in-progress"
+ *                 description: Key of one of the project's workflow statuses
+ *                 example: "doing"
  *               deadline:
  *                 type: string
  *                 format: date-time
  *                 description: Task deadline
  *                 example: "2024-03-10T23:59:59Z"
+ *               force:
+ *                 type: boolean
+ *                 description: Set status to done even though blocking tasks are still open
+ *               overrideRules:
+ *                 type: boolean
+ *                 description: Project leaders only. Ignore WIP limits and transition rules when the status change moves the task to another board
+ *               milestoneId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Move the task to another milestone, or null to remove it from its milestone
+ *               overrideMilestoneDates:
+ *                 type: boolean
+ *                 description: Accept a due date outside the milestone's start and end date
  *     responses:
  *       200:
  *         description: Task updated successfully
@@ -800,9 +1014,14 @@ router.put(
  *             properties:
  *               status:
  *                 type: string
- *                 enum: [todo, in-progress, review, done]
- *                 description: New task status
+ *                 description: Key of one of the project's workflow statuses. The task moves to a board mapped to it, or to a board without a status when none is; otherwise the change is rejected.
  *                 example: "done"
+ *               force:
+ *                 type: boolean
+ *                 description: Mark the task done even though blocking tasks are still open
+ *               overrideRules:
+ *                 type: boolean
+ *                 description: Project leaders only. Ignore WIP limits and transition rules when the status change moves the task to another board
  *     responses:
  *       200:
  *         description: Task status updated successfully
@@ -913,6 +1132,12 @@ router.put(
  *                 minimum: 0
  *                 description: Position order within the target board (0-based index)
  *                 example: 2
+ *               force:
+ *                 type: boolean
+ *                 description: Allow moving into the Done board even though blocking tasks are still open
+ *               overrideRules:
+ *                 type: boolean
+ *                 description: Project leaders only. Ignore the target board's WIP limit and the source board's allowed transitions
  *           example:
  *             boardId: "abc12345-e89b-12d3-a456-426614174004"
  *             order: 2
@@ -1004,4 +1229,282 @@ router.put(
   TaskController.moveTask,
 );
 
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/subtasks:
+ *   get:
+ *     tags:
+ *       - Tasks
+ *     summary: List subtasks
+ *     description: Returns the task's subtasks in board order, each with its own progress
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *     responses:
+ *       200:
+ *         description: Subtasks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Task'
+ *       400:
+ *         description: Bad request - Task not found or not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/tasks/:taskId/subtasks",
+  authGuard,
+  validate({ params: projectTaskParamSchema }),
+  TaskController.getSubtasks,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/checklist:
+ *   post:
+ *     tags:
+ *       - Tasks
+ *     summary: Add a checklist item
+ *     description: Adds a step to the task's checklist. Without `order` the item is appended at the end.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - title
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: "Write the literature review"
+ *               assigneeId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Project member responsible for this step
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Checklist item added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TaskResponse'
+ *       400:
+ *         description: Bad request - Task not found or assignee is not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/tasks/:taskId/checklist",
+  authGuard,
+  validate({ params: projectTaskParamSchema, body: createChecklistItemSchema }),
+  TaskController.addChecklistItem,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/checklist/{itemId}:
+ *   put:
+ *     tags:
+ *       - Tasks
+ *     summary: Update a checklist item
+ *     description: Renames, reorders, reassigns or checks off a checklist item. Checking an item off records when it was completed.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Checklist item ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 maxLength: 255
+ *               isDone:
+ *                 type: boolean
+ *                 example: true
+ *               assigneeId:
+ *                 type: string
+ *                 format: uuid
+ *                 nullable: true
+ *                 description: Pass null to unassign
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Checklist item updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TaskResponse'
+ *       400:
+ *         description: Bad request - Checklist item not found or assignee is not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:projectId/tasks/:taskId/checklist/:itemId",
+  authGuard,
+  validate({ params: checklistItemParamSchema, body: updateChecklistItemSchema }),
+  TaskController.updateChecklistItem,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/tasks/{taskId}/checklist/{itemId}:
+ *   delete:
+ *     tags:
+ *       - Tasks
+ *     summary: Delete a checklist item
+ *     description: Removes the item and closes the gap in the checklist order
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: taskId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Task ID
+ *         example: "789e0123-e89b-12d3-a456-426614174002"
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Checklist item ID
+ *     responses:
+ *       200:
+ *         description: Checklist item deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TaskResponse'
+ *       400:
+ *         description: Bad request - Checklist item not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:projectId/tasks/:taskId/checklist/:itemId",
+  authGuard,
+  validate({ params: checklistItemParamSchema }),
+  TaskController.deleteChecklistItem,
+);
+
 export default router;
@@ -3,29 +3,40 @@ import Joi from "joi";
 export const createTaskSchema = Joi.object({
   title: Joi.string().min(1).max(255).required(),
   description: Joi.string().max(2000).optional().allow(""),
-  status: Joi.string().valid("todo", "doing", "done").default("todo"),
+  status: Joi.string().max(50).optional(),
   priority: Joi.string().valid("LOW", "MEDIUM", "HIGH", "CRITICAL").default("MEDIUM"),
   dueDate: Joi.date().iso().optional(),
   boardId: Joi.string().uuid().required(),
   order: Joi.number().integer().min(0).optional(),
   assigneeIds: Joi.array().items(Joi.string().uuid()).optional(),
+  parentTaskId: Joi.string().uuid().optional(),
+  milestoneId: Joi.string().uuid().optional(),
+  overrideRules: Joi.boolean().optional(),
+  overrideMilestoneDates: Joi.boolean().optional(),
 });
 
 export const updateTaskSchema = Joi.object({
   title: Joi.string().min(1).max(255).optional(),
   description: Joi.string().max(2000).optional().allow(""),
-  status: Joi.string().valid("todo", "doing", "done").optional(),
+  status: Joi.string().max(50).optional(),
   priority: Joi.string().valid("LOW", "MEDIUM", "HIGH", "CRITICAL").optional(),
   dueDate: Joi.date().iso().optional().allow(null),
+  milestoneId: Joi.string().uuid().optional().allow(null),
+  force: Joi.boolean().optional(),
+  overrideRules: Joi.boolean().optional(),
+  overrideMilestoneDates: Joi.boolean().optional(),
 });
 
 export const taskListQuerySchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(10),
   search: Joi.string().optional(),
-  status: Joi.string().valid("todo", "doing", "done").optional(),
+  status: Joi.string().max(50).optional(),
   priority: Joi.string().valid("LOW", "MEDIUM", "HIGH", "CRITICAL").optional(),
   boardId: Joi.string().uuid().optional(),
+  parentTaskId: Joi.string().uuid().optional(),
+  milestoneId: Joi.string().uuid().optional(),
+  blocked: Joi.boolean().optional(),
   assignedTo: Joi.string().uuid().optional(),
   createdBy: Joi.string().uuid().optional(),
   dueDate: Joi.string().valid("upcoming", "overdue", "today", "this-week").optional(),
@@ -47,10 +58,33 @@ export const assignTaskSchema = Joi.object({
 });
 
 export const updateTaskStatusSchema = Joi.object({
-  status: Joi.string().valid("todo", "doing", "done").required(),
+  status: Joi.string().max(50).required(),
+  force: Joi.boolean().optional(),
+  overrideRules: Joi.boolean().optional(),
 });
 
 export const moveTaskSchema = Joi.object({
   boardId: Joi.string().uuid().required(),
   order: Joi.number().integer().min(0).required(),
+  force: Joi.boolean().optional(),
+  overrideRules: Joi.boolean().optional(),
+});
+
+export const createChecklistItemSchema = Joi.object({
+  title: Joi.string().min(1).max(255).required(),
+  assigneeId: Joi.string().uuid().optional(),
+  order: Joi.number().integer().min(0).optional(),
+});
+
+export const updateChecklistItemSchema = Joi.object({
+  title: Joi.string().min(1).max(255).optional(),
+  isDone: Joi.boolean().optional(),
+  assigneeId: Joi.string().uuid().optional().allow(null),
+  order: Joi.number().integer().min(0).optional(),
+}).min(1);
+
+export const checklistItemParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  taskId: Joi.string().uuid().required(),
+  itemId: Joi.string().uuid().required(),
 });
@@ -1,24 +1,192 @@
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../../config/database.js";
 import {
   adjustOrderForNewItem,
   getNextOrderNumber,
   reorderSingleItem,
 } from "../../helper/reorder.util.js";
+import { notifyUsers } from "../notification/notification.service.js";
+import { NotificationType } from "../notification/notification.type.js";
+import { deleteAttachmentObjects } from "../attachment/attachment.service.js";
+import { diffFields, recordActivities, recordActivity } from "../activity/activity.service.js";
+import { TaskActivityAction } from "../activity/activity.type.js";
+import { recordStatusChange } from "../analytics/status-history.service.js";
+import { assertBoardRules, withBoardRules } from "../board/board-rule.service.js";
+import { assertCanComplete } from "../dependency/dependency.service.js";
+import { renderMarkdown } from "../markdown/markdown.service.js";
+import { assertDueDateInMilestone, mapToMilestoneSummary } from "../milestone/milestone.service.js";
+import { publishProjectEvent } from "../realtime/realtime.service.js";
+import { ProjectEventType } from "../realtime/realtime.type.js";
+import {
+  getFinalStatusKeys,
+  getWorkflowStatuses,
+  resolveWorkflowStatus,
+} from "../workflow/workflow.service.js";
 import type {
   AssignTaskDTO,
+  ChecklistItemResponse,
+  CreateChecklistItemDTO,
   CreateTaskDTO,
   MoveTaskDTO,
   TaskListQuery,
   TaskListResponse,
+  TaskProgress,
   TaskResponse,
+  TaskStats,
+  UpdateChecklistItemDTO,
   UpdateTaskDTO,
   UpdateTaskStatusDTO,
 } from "./task.type.js";
 
+const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+  avatarUrl: true,
+} as const;
+
+const taskResponseInclude = {
+  project: {
+    select: {
+      id: true,
+      name: true,
+      workflowStatuses: {
+        where: { isFinal: true },
+        select: { key: true },
+      },
+    },
+  },
+  Board: {
+    select: {
+      id: true,
+      name: true,
+      order: true,
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  milestone: {
+    select: {
+      id: true,
+      name: true,
+      startDate: true,
+      endDate: true,
+    },
+  },
+  assignees: {
+    include: {
+      user: {
+        select: userSummarySelect,
+      },
+    },
+  },
+  checklistItems: {
+    include: {
+      assignee: {
+        select: userSummarySelect,
+      },
+    },
+    orderBy: { order: "asc" },
+  },
+  subtasks: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+      boardId: true,
+    },
+    orderBy: { order: "asc" },
+  },
+  blockedBy: {
+    select: {
+      blockingTask: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+        },
+      },
+    },
+  },
+  _count: {
+    select: {
+      comments: true,
+    },
+  },
+} as const;
+
+const mapToChecklistItemResponse = (item: any): ChecklistItemResponse => ({
+  id: item.id,
+  title: item.title,
+  isDone: item.isDone,
+  order: item.order,
+  completedAt: item.completedAt ?? undefined,
+  assignee: item.assignee
+    ? {
+        id: item.assignee.id,
+        name: item.assignee.name,
+        email: item.assignee.email,
+        avatarUrl: item.assignee.avatarUrl ?? undefined,
+      }
+    : undefined,
+});
+
+/**
+ * Checklist items and subtasks count as equal steps. A task without any steps is either
+ * finished or not, based on whether its own status is one of the workflow's final statuses.
+ */
+export const calculateTaskProgress = (
+  task: {
+    status: string;
+    checklistItems?: Array<{ isDone: boolean }>;
+    subtasks?: Array<{ status: string }>;
+  },
+  finalStatuses: string[],
+): TaskProgress => {
+  const checklistItems = task.checklistItems ?? [];
+  const subtasks = task.subtasks ?? [];
+  const checklistCompleted = checklistItems.filter((item) => item.isDone).length;
+  const subtasksCompleted = subtasks.filter((subtask) =>
+    finalStatuses.includes(subtask.status),
+  ).length;
+  const totalSteps = checklistItems.length + subtasks.length;
+
+  return {
+    checklistCompleted,
+    checklistTotal: checklistItems.length,
+    subtasksCompleted,
+    subtasksTotal: subtasks.length,
+    percentage:
+      totalSteps === 0
+        ? finalStatuses.includes(task.status)
+          ? 100
+          : 0
+        : Math.round(((checklistCompleted + subtasksCompleted) / totalSteps) * 100),
+  };
+};
+
+const renderDescription = async (projectId: string, description: string) => {
+  const { html, references } = await renderMarkdown(projectId, description);
+  return {
+    descriptionHtml: html,
+    descriptionReferences: references as unknown as Prisma.InputJsonValue,
+  };
+};
+
+const finalStatusesOf = (task: any): string[] =>
+  task.project.workflowStatuses?.map((status: { key: string }) => status.key) ?? [];
+
 const mapToTaskResponse = (task: any): TaskResponse => ({
   id: task.id,
   title: task.title,
   description: task.description,
+  descriptionHtml: task.descriptionHtml ?? undefined,
+  descriptionReferences: task.descriptionReferences ?? [],
   status: task.status,
   priority: task.priority,
   dueDate: task.dueDate,
@@ -51,9 +219,97 @@ const mapToTaskResponse = (task: any): TaskResponse => ({
       avatarUrl: assignee.user.avatarUrl ?? undefined,
     },
   })),
+  parentTaskId: task.parentTaskId ?? undefined,
+  milestone: task.milestone ? mapToMilestoneSummary(task.milestone) : undefined,
+  checklist: task.checklistItems?.map(mapToChecklistItemResponse),
+  subtasks: task.subtasks?.map((subtask: any) => ({
+    id: subtask.id,
+    title: subtask.title,
+    status: subtask.status,
+    boardId: subtask.boardId,
+  })),
+  isCompleted: finalStatusesOf(task).includes(task.status),
+  progress: calculateTaskProgress(task, finalStatusesOf(task)),
+  blockedBy: task.blockedBy?.map((dependency: any) => ({
+    id: dependency.blockingTask.id,
+    title: dependency.blockingTask.title,
+    status: dependency.blockingTask.status,
+  })),
+  isBlocked:
+    task.blockedBy?.some(
+      (dependency: any) => !finalStatusesOf(task).includes(dependency.blockingTask.status),
+    ) ?? false,
   _count: task._count,
 });
 
+/**
+ * Boards mapped to a workflow status decide the status of their tasks. Unmapped boards accept any
+ * status of the workflow and fall back to its first status.
+ */
+const resolveStatusForBoard = async (
+  projectId: string,
+  board: { name: string; status: { key: string } | null },
+  requestedStatus?: string,
+): Promise<string> => {
+  if (board.status) {
+    if (requestedStatus && requestedStatus !== board.status.key) {
+      throw new Error(`Tasks on the "${board.name}" board have status "${board.status.key}"`);
+    }
+    return board.status.key;
+  }
+
+  if (requestedStatus) {
+    await resolveWorkflowStatus(projectId, requestedStatus);
+    return requestedStatus;
+  }
+
+  const [firstStatus] = await getWorkflowStatuses(projectId);
+  if (!firstStatus) {
+    throw new Error("This project has no workflow statuses");
+  }
+  return firstStatus.key;
+};
+
+/**
+ * Keeps the board in line with a status change. A task whose board is mapped to another status
+ * moves to the end of the first board mapped to the new status. Without one it falls back to the
+ * first board that has no status mapping, and when every board is mapped to some other status the
+ * change is rejected.
+ */
+const findBoardForStatus = async (
+  projectId: string,
+  currentBoardId: string,
+  statusId: string,
+): Promise<{ boardId: string; order: number } | null> => {
+  const currentBoard = await prisma.board.findUnique({
+    where: { id: currentBoardId },
+    select: { statusId: true },
+  });
+
+  if (!currentBoard?.statusId || currentBoard.statusId === statusId) {
+    return null;
+  }
+
+  const targetBoard =
+    (await prisma.board.findFirst({
+      where: { projectId, statusId },
+      orderBy: { order: "asc" },
+    })) ??
+    (await prisma.board.findFirst({
+      where: { projectId, statusId: null },
+      orderBy: { order: "asc" },
+    }));
+
+  if (!targetBoard) {
+    throw new Error(
+      "No board accepts this status. Map a board to the status or add a board without a status",
+    );
+  }
+
+  const order = await getNextOrderNumber(projectId, "task", { boardId: targetBoard.id });
+  return { boardId: targetBoard.id, order };
+};
+
 export const createTask = async (
   projectId: string,
   data: CreateTaskDTO,
@@ -78,12 +334,48 @@ export const createTask = async (
 
   const board = await prisma.board.findUnique({
     where: { id: data.boardId },
+    include: { status: { select: { key: true } } },
   });
 
   if (!board || board.projectId !== projectId) {
     throw new Error("Board not found or doesn't belong to this project");
   }
 
+  const boardRuleCheck = {
+    projectId,
+    toBoardId: board.id,
+    userId: createdById,
+    override: data.overrideRules,
+  };
+  // Fails fast before the board's ordering is touched; the check is repeated under the lock below
+  await assertBoardRules(boardRuleCheck);
+
+  const status = await resolveStatusForBoard(projectId, board, data.status);
+
+  if (data.parentTaskId) {
+    const parentTask = await prisma.task.findFirst({
+      where: { id: data.parentTaskId, projectId },
+      select: { parentTaskId: true },
+    });
+
+    if (!parentTask) {
+      throw new Error("Parent task not found in this project");
+    }
+
+    if (parentTask.parentTaskId) {
+      throw new Error("Subtasks cannot have their own subtasks");
+    }
+  }
+
+  if (data.milestoneId) {
+    await assertDueDateInMilestone(
+      projectId,
+      data.milestoneId,
+      data.dueDate,
+      data.overrideMilestoneDates,
+    );
+  }
+
   let taskOrder = data.order;
   if (taskOrder === undefined) {
     taskOrder = await getNextOrderNumber(projectId, "task", { boardId: data.boardId });
@@ -104,46 +396,40 @@ export const createTask = async (
     }
   }
 
-  const task = await prisma.task.create({
-    data: {
-      title: data.title,
-      description: data.description,
-      status: data.status || "todo",
-      priority: data.priority || "MEDIUM",
-      dueDate: data.dueDate,
-      projectId,
-      createdById,
-      boardId: data.boardId,
-      order: taskOrder,
-    },
-    include: {
-      project: {
-        select: {
-          id: true,
-          name: true,
-        },
-      },
-      Board: {
-        select: {
-          id: true,
-          name: true,
-          order: true,
-        },
-      },
-      createdBy: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      _count: {
-        select: {
-          comments: true,
-        },
-      },
+  const taskData = {
+    title: data.title,
+    description: data.description,
+    ...(data.description !== undefined && (await renderDescription(projectId, data.description))),
+    status,
+    priority: data.priority || "MEDIUM",
+    dueDate: data.dueDate,
+    projectId,
+    createdById,
+    boardId: data.boardId,
+    parentTaskId: data.parentTaskId,
+    milestoneId: data.milestoneId,
+    order: taskOrder,
+  };
+  const task = await withBoardRules(boardRuleCheck, (tx) =>
+    tx.task.create({ data: taskData, include: taskResponseInclude }),
+  );
+
+  await recordActivity({
+    projectId,
+    taskId: task.id,
+    taskTitle: task.title,
+    actorId: createdById,
+    action: TaskActivityAction.CREATED,
+    newValue: {
+      status: task.status,
+      priority: task.priority,
+      boardId: task.boardId,
+      parentTaskId: task.parentTaskId,
+      milestoneId: task.milestoneId,
+      assigneeIds: data.assigneeIds ?? [],
     },
   });
+  await recordStatusChange({ projectId, taskId: task.id, fromStatus: null, toStatus: task.status });
 
   if (data.assigneeIds && data.assigneeIds.length > 0) {
     await prisma.taskAssignee.createMany({
@@ -155,51 +441,17 @@ export const createTask = async (
 
     const taskWithAssignees = await prisma.task.findUnique({
       where: { id: task.id },
-      include: {
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        Board: {
-          select: {
-            id: true,
-            name: true,
-            order: true,
-          },
-        },
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        assignees: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                avatarUrl: true,
-              },
-            },
-          },
-        },
-        _count: {
-          select: {
-            comments: true,
-          },
-        },
-      },
+      include: taskResponseInclude,
     });
 
-    return mapToTaskResponse(taskWithAssignees);
+    const response = mapToTaskResponse(taskWithAssignees);
+    await publishProjectEvent(projectId, ProjectEventType.TASK_CREATED, response, createdById);
+    return response;
   }
 
-  return mapToTaskResponse(task);
+  const response = mapToTaskResponse(task);
+  await publishProjectEvent(projectId, ProjectEventType.TASK_CREATED, response, createdById);
+  return response;
 };
 
 export const getTasksByProject = async (
@@ -228,6 +480,7 @@ export const getTasksByProject = async (
   const limit = query.limit || 10;
   const skip = (page - 1) * limit;
 
+  const finalStatuses = await getFinalStatusKeys(projectId);
   let where: any = { projectId };
 
   if (query.search) {
@@ -249,6 +502,19 @@ export const getTasksByProject = async (
     where.boardId = query.boardId;
   }
 
+  if (query.parentTaskId) {
+    where.parentTaskId = query.parentTaskId;
+  }
+
+  if (query.milestoneId) {
+    where.milestoneId = query.milestoneId;
+  }
+
+  if (query.blocked !== undefined) {
+    const openBlocker = { blockingTask: { status: { notIn: finalStatuses } } };
+    where.blockedBy = query.blocked ? { some: openBlocker } : { none: openBlocker };
+  }
+
   if (query.assignedTo) {
     where.assignees = {
       some: {
@@ -284,7 +550,7 @@ export const getTasksByProject = async (
           lt: now,
         };
         where.status = {
-          not: "done",
+          notIn: finalStatuses,
         };
         break;
       case "this-week":
@@ -313,45 +579,7 @@ export const getTasksByProject = async (
   const [tasks, total] = await Promise.all([
     prisma.task.findMany({
       where,
-      include: {
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        Board: {
-          select: {
-            id: true,
-            name: true,
-            order: true,
-          },
-        },
-        createdBy: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        assignees: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                avatarUrl: true,
-              },
-            },
-          },
-        },
-        _count: {
-          select: {
-            comments: true,
-          },
-        },
-      },
+      include: taskResponseInclude,
       skip,
       take: limit,
       orderBy,
@@ -368,6 +596,60 @@ export const getTasksByProject = async (
   };
 };
 
+export const getTaskStats = async (projectId: string, userId: string): Promise<TaskStats> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: {
+        where: { userId },
+      },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  if (project.members.length === 0) {
+    throw new Error("You are not a member of this project");
+  }
+
+  const statuses = await getWorkflowStatuses(projectId);
+  const finalStatuses = statuses.filter((status) => status.isFinal).map((status) => status.key);
+
+  const [counts, overdueTasks] = await Promise.all([
+    prisma.task.groupBy({
+      by: ["status"],
+      where: { projectId },
+      _count: { _all: true },
+    }),
+    prisma.task.count({
+      where: {
+        projectId,
+        dueDate: { lt: new Date() },
+        status: { notIn: finalStatuses },
+      },
+    }),
+  ]);
+
+  const countByStatus = new Map(counts.map((count) => [count.status, count._count._all]));
+  const byStatus = statuses.map((status) => ({
+    key: status.key,
+    name: status.name,
+    isFinal: status.isFinal,
+    count: countByStatus.get(status.key) ?? 0,
+  }));
+
+  return {
+    totalTasks: counts.reduce((sum, count) => sum + count._count._all, 0),
+    completedTasks: byStatus
+      .filter((status) => status.isFinal)
+      .reduce((sum, status) => sum + status.count, 0),
+    overdueTasks,
+    byStatus,
+  };
+};
+
 export const getTaskById = async (
   projectId: string,
   taskId: string,
@@ -395,45 +677,7 @@ export const getTaskById = async (
       id: taskId,
       projectId,
     },
-    include: {
-      project: {
-        select: {
-          id: true,
-          name: true,
-        },
-      },
-      Board: {
-        select: {
-          id: true,
-          name: true,
-          order: true,
-        },
-      },
-      createdBy: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      assignees: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
-      },
-      _count: {
-        select: {
-          comments: true,
-        },
-      },
-    },
+    include: taskResponseInclude,
   });
 
   if (!task) {
@@ -449,59 +693,90 @@ export const updateTask = async (
   data: UpdateTaskDTO,
   userId: string,
 ): Promise<TaskResponse> => {
-  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+  const existingTask = await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
 
-  const updatedTask = await prisma.task.update({
+  // Re-check the due date whenever either side of the milestone constraint changes
+  const milestoneId = data.milestoneId !== undefined ? data.milestoneId : existingTask.milestoneId;
+  if (milestoneId && (data.milestoneId !== undefined || data.dueDate !== undefined)) {
+    await assertDueDateInMilestone(
+      projectId,
+      milestoneId,
+      data.dueDate !== undefined ? data.dueDate : existingTask.dueDate,
+      data.overrideMilestoneDates,
+    );
+  }
+
+  let boardChange: { boardId: string; order: number } | null = null;
+  if (data.status && data.status !== existingTask.status) {
+    const status = await resolveWorkflowStatus(projectId, data.status);
+    if (status.isFinal) {
+      await assertCanComplete(projectId, taskId, data.force);
+    }
+    boardChange = await findBoardForStatus(projectId, existingTask.boardId, status.id);
+  }
+
+  const taskUpdate = {
     where: { id: taskId },
     data: {
       ...(data.title && { title: data.title }),
-      ...(data.description !== undefined && { description: data.description }),
+      ...(data.description !== undefined && {
+        description: data.description,
+        ...(await renderDescription(projectId, data.description)),
+      }),
       ...(data.status && { status: data.status }),
+      ...boardChange,
       ...(data.priority && { priority: data.priority }),
       ...(data.dueDate !== undefined && { dueDate: data.dueDate }),
+      ...(data.milestoneId !== undefined && { milestoneId: data.milestoneId }),
     },
-    include: {
-      project: {
-        select: {
-          id: true,
-          name: true,
-        },
-      },
-      Board: {
-        select: {
-          id: true,
-          name: true,
-          order: true,
-        },
-      },
-      createdBy: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      assignees: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
-      },
-      _count: {
-        select: {
-          comments: true,
+    include: taskResponseInclude,
+  };
+  const updatedTask = boardChange
+    ? await withBoardRules(
+        {
+          projectId,
+          fromBoardId: existingTask.boardId,
+          toBoardId: boardChange.boardId,
+          userId,
+          override: data.overrideRules,
         },
-      },
-    },
+        (tx) => tx.task.update(taskUpdate),
+      )
+    : await prisma.task.update(taskUpdate);
+
+  const changes = diffFields(existingTask, updatedTask, [
+    "title",
+    "description",
+    "status",
+    "priority",
+    "dueDate",
+    "milestoneId",
+  ]);
+  await recordActivities(
+    changes.map((change) => ({
+      projectId,
+      taskId,
+      taskTitle: updatedTask.title,
+      actorId: userId,
+      action:
+        change.field === "status" ? TaskActivityAction.STATUS_CHANGED : TaskActivityAction.UPDATED,
+      ...change,
+    })),
+  );
+  await recordStatusChange({
+    projectId,
+    taskId,
+    fromStatus: existingTask.status,
+    toStatus: updatedTask.status,
   });
 
-  return mapToTaskResponse(updatedTask);
+  if (boardChange) {
+    await recordBoardChange(projectId, existingTask, updatedTask, userId);
+  }
+
+  const response = mapToTaskResponse(updatedTask);
+  await publishProjectEvent(projectId, ProjectEventType.TASK_UPDATED, response, userId);
+  return response;
 };
 
 export const deleteTask = async (
@@ -511,9 +786,38 @@ export const deleteTask = async (
 ): Promise<void> => {
   await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
 
-  await prisma.task.delete({
+  // Subtasks are removed by the cascading delete, so clean up their files as well
+  const subtasks = await prisma.task.findMany({
+    where: { parentTaskId: taskId },
+    select: { id: true },
+  });
+  for (const subtaskId of [taskId, ...subtasks.map((subtask) => subtask.id)]) {
+    await deleteAttachmentObjects({ taskId: subtaskId });
+  }
+
+  const deletedTask = await prisma.task.delete({
     where: { id: taskId },
   });
+
+  await recordActivity({
+    projectId,
+    taskId,
+    taskTitle: deletedTask.title,
+    actorId: userId,
+    action: TaskActivityAction.DELETED,
+    oldValue: {
+      status: deletedTask.status,
+      priority: deletedTask.priority,
+      boardId: deletedTask.boardId,
+    },
+  });
+
+  await publishProjectEvent(
+    projectId,
+    ProjectEventType.TASK_DELETED,
+    { taskId, boardId: deletedTask.boardId },
+    userId,
+  );
 };
 
 export const assignUsersToTask = async (
@@ -535,6 +839,11 @@ export const assignUsersToTask = async (
     throw new Error("One or more users are not members of this project");
   }
 
+  const previousAssignees = await prisma.taskAssignee.findMany({
+    where: { taskId },
+    select: { userId: true },
+  });
+
   await prisma.taskAssignee.deleteMany({
     where: { taskId },
   });
@@ -546,7 +855,46 @@ export const assignUsersToTask = async (
     })),
   });
 
-  return getTaskById(projectId, taskId, userId);
+  const task = await getTaskById(projectId, taskId, userId);
+
+  const previousAssigneeIds = previousAssignees.map((assignee) => assignee.userId);
+  const nextAssigneeIds = [...new Set(data.userIds)];
+  const assigneesChanged =
+    previousAssigneeIds.length !== nextAssigneeIds.length ||
+    nextAssigneeIds.some((assigneeId) => !previousAssigneeIds.includes(assigneeId));
+
+  if (assigneesChanged) {
+    await recordActivity({
+      projectId,
+      taskId,
+      taskTitle: task.title,
+      actorId: userId,
+      action: TaskActivityAction.ASSIGNEES_CHANGED,
+      field: "assignees",
+      oldValue: previousAssigneeIds,
+      newValue: nextAssigneeIds,
+    });
+  }
+
+  const newAssigneeIds = data.userIds.filter(
+    (assigneeId) => assigneeId !== userId && !previousAssigneeIds.includes(assigneeId),
+  );
+
+  if (newAssigneeIds.length > 0) {
+    const actor = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true },
+    });
+
+    await notifyUsers(newAssigneeIds, {
+      message: `${actor?.name ?? "Someone"} assigned you to "${task.title}" in ${task.project.name}`,
+      type: NotificationType.TASK_ASSIGNED,
+    });
+  }
+
+  await publishProjectEvent(projectId, ProjectEventType.TASK_UPDATED, task, userId);
+
+  return task;
 };
 
 export const updateTaskStatus = async (
@@ -555,53 +903,61 @@ export const updateTaskStatus = async (
   data: UpdateTaskStatusDTO,
   userId: string,
 ): Promise<TaskResponse> => {
-  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+  const existingTask = await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+  const status = await resolveWorkflowStatus(projectId, data.status);
 
-  const updatedTask = await prisma.task.update({
+  let boardChange: { boardId: string; order: number } | null = null;
+  if (status.key !== existingTask.status) {
+    if (status.isFinal) {
+      await assertCanComplete(projectId, taskId, data.force);
+    }
+    boardChange = await findBoardForStatus(projectId, existingTask.boardId, status.id);
+  }
+
+  const taskUpdate = {
     where: { id: taskId },
-    data: { status: data.status },
-    include: {
-      project: {
-        select: {
-          id: true,
-          name: true,
-        },
-      },
-      Board: {
-        select: {
-          id: true,
-          name: true,
-          order: true,
-        },
-      },
-      createdBy: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      assignees: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
-      },
-      _count: {
-        select: {
-          comments: true,
+    data: { status: status.key, ...boardChange },
+    include: taskResponseInclude,
+  };
+  const updatedTask = boardChange
+    ? await withBoardRules(
+        {
+          projectId,
+          fromBoardId: existingTask.boardId,
+          toBoardId: boardChange.boardId,
+          userId,
+          override: data.overrideRules,
         },
-      },
-    },
-  });
+        (tx) => tx.task.update(taskUpdate),
+      )
+    : await prisma.task.update(taskUpdate);
+
+  if (existingTask.status !== updatedTask.status) {
+    await recordActivity({
+      projectId,
+      taskId,
+      taskTitle: updatedTask.title,
+      actorId: userId,
+      action: TaskActivityAction.STATUS_CHANGED,
+      field: "status",
+      oldValue: existingTask.status,
+      newValue: updatedTask.status,
+    });
+    await recordStatusChange({
+      projectId,
+      taskId,
+      fromStatus: existingTask.status,
+      toStatus: updatedTask.status,
+    });
+  }
 
-  return mapToTaskResponse(updatedTask);
+  if (boardChange) {
+    await recordBoardChange(projectId, existingTask, updatedTask, userId);
+  }
+
+  const response = mapToTaskResponse(updatedTask);
+  await publishProjectEvent(projectId, ProjectEventType.TASK_UPDATED, response, userId);
+  return response;
 };
 
 export const moveTask = async (
@@ -610,10 +966,11 @@ export const moveTask = async (
   data: MoveTaskDTO,
   userId: string,
 ): Promise<TaskResponse> => {
-  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+  const existingTask = await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
 
   const board = await prisma.board.findUnique({
     where: { id: data.boardId },
+    include: { status: true },
   });
 
   if (!board || board.projectId !== projectId) {
@@ -622,9 +979,25 @@ export const moveTask = async (
 
   const currentTask = await prisma.task.findUnique({
     where: { id: taskId },
-    select: { boardId: true, order: true },
+    select: { boardId: true, order: true, Board: { select: { name: true } } },
   });
 
+  // A board mapped to a workflow status hands that status to the tasks moved onto it
+  const nextStatus = board.status && board.status.key !== existingTask.status ? board.status : null;
+  if (nextStatus?.isFinal) {
+    await assertCanComplete(projectId, taskId, data.force);
+  }
+
+  const boardRuleCheck = {
+    projectId,
+    fromBoardId: existingTask.boardId,
+    toBoardId: board.id,
+    userId,
+    override: data.overrideRules,
+  };
+  // Fails fast before the board's ordering is touched; the check is repeated under the lock below
+  await assertBoardRules(boardRuleCheck);
+
   if (currentTask && (currentTask.boardId !== data.boardId || currentTask.order !== data.order)) {
     await reorderSingleItem({
       itemId: taskId,
@@ -635,61 +1008,252 @@ export const moveTask = async (
     });
   }
 
-  const updatedTask = await prisma.task.update({
+  const updatedTask = await withBoardRules(boardRuleCheck, (tx) =>
+    tx.task.update({
+      where: { id: taskId },
+      data: {
+        boardId: data.boardId,
+        order: data.order,
+        ...(nextStatus && { status: nextStatus.key }),
+      },
+      include: taskResponseInclude,
+    }),
+  );
+
+  if (nextStatus) {
+    await recordActivity({
+      projectId,
+      taskId,
+      taskTitle: updatedTask.title,
+      actorId: userId,
+      action: TaskActivityAction.STATUS_CHANGED,
+      field: "status",
+      oldValue: existingTask.status,
+      newValue: nextStatus.key,
+    });
+    await recordStatusChange({
+      projectId,
+      taskId,
+      fromStatus: existingTask.status,
+      toStatus: nextStatus.key,
+    });
+  }
+
+  if (currentTask && (currentTask.boardId !== data.boardId || currentTask.order !== data.order)) {
+    await recordActivity({
+      projectId,
+      taskId,
+      taskTitle: updatedTask.title,
+      actorId: userId,
+      action: TaskActivityAction.MOVED,
+      field: "board",
+      oldValue: {
+        boardId: currentTask.boardId,
+        boardName: currentTask.Board.name,
+        order: currentTask.order,
+      },
+      newValue: { boardId: board.id, boardName: board.name, order: data.order },
+    });
+  }
+
+  const response = mapToTaskResponse(updatedTask);
+  await publishProjectEvent(
+    projectId,
+    ProjectEventType.TASK_MOVED,
+    {
+      task: response,
+      fromBoardId: currentTask?.boardId,
+      toBoardId: data.boardId,
+      order: data.order,
+    },
+    userId,
+  );
+  return response;
+};
+
+export const getSubtasks = async (
+  projectId: string,
+  taskId: string,
+  userId: string,
+): Promise<TaskResponse[]> => {
+  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+
+  const subtasks = await prisma.task.findMany({
+    where: { parentTaskId: taskId, projectId },
+    include: taskResponseInclude,
+    orderBy: { order: "asc" },
+  });
+
+  return subtasks.map(mapToTaskResponse);
+};
+
+const ensureChecklistAssigneeIsMember = async (
+  projectId: string,
+  assigneeId: string | null | undefined,
+): Promise<void> => {
+  if (!assigneeId) {
+    return;
+  }
+
+  const member = await prisma.projectMember.findFirst({
+    where: { projectId, userId: assigneeId },
+  });
+
+  if (!member) {
+    throw new Error("Assignee is not a member of this project");
+  }
+};
+
+const publishTaskUpdated = async (
+  projectId: string,
+  taskId: string,
+  userId: string,
+): Promise<TaskResponse> => {
+  const task = await prisma.task.findUnique({
     where: { id: taskId },
+    include: taskResponseInclude,
+  });
+
+  const response = mapToTaskResponse(task);
+  await publishProjectEvent(projectId, ProjectEventType.TASK_UPDATED, response, userId);
+  return response;
+};
+
+export const addChecklistItem = async (
+  projectId: string,
+  taskId: string,
+  data: CreateChecklistItemDTO,
+  userId: string,
+): Promise<TaskResponse> => {
+  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+  await ensureChecklistAssigneeIsMember(projectId, data.assigneeId);
+
+  let itemOrder = data.order;
+  if (itemOrder === undefined) {
+    const lastItem = await prisma.checklistItem.findFirst({
+      where: { taskId },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+    itemOrder = lastItem ? lastItem.order + 1 : 0;
+  } else {
+    await prisma.checklistItem.updateMany({
+      where: { taskId, order: { gte: itemOrder } },
+      data: { order: { increment: 1 } },
+    });
+  }
+
+  await prisma.checklistItem.create({
     data: {
-      boardId: data.boardId,
-      order: data.order,
+      title: data.title,
+      order: itemOrder,
+      taskId,
+      assigneeId: data.assigneeId,
     },
-    include: {
-      project: {
-        select: {
-          id: true,
-          name: true,
-        },
-      },
-      Board: {
-        select: {
-          id: true,
-          name: true,
-          order: true,
-        },
-      },
-      createdBy: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-        },
-      },
-      assignees: {
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatarUrl: true,
-            },
-          },
-        },
-      },
-      _count: {
-        select: {
-          comments: true,
-        },
-      },
+  });
+
+  return publishTaskUpdated(projectId, taskId, userId);
+};
+
+export const updateChecklistItem = async (
+  projectId: string,
+  taskId: string,
+  itemId: string,
+  data: UpdateChecklistItemDTO,
+  userId: string,
+): Promise<TaskResponse> => {
+  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+
+  const item = await prisma.checklistItem.findFirst({
+    where: { id: itemId, taskId },
+  });
+
+  if (!item) {
+    throw new Error("Checklist item not found");
+  }
+
+  await ensureChecklistAssigneeIsMember(projectId, data.assigneeId);
+
+  if (data.order !== undefined && data.order !== item.order) {
+    await prisma.checklistItem.updateMany({
+      where: { taskId, order: { gte: data.order }, id: { not: itemId } },
+      data: { order: { increment: 1 } },
+    });
+  }
+
+  await prisma.checklistItem.update({
+    where: { id: itemId },
+    data: {
+      ...(data.title && { title: data.title }),
+      ...(data.assigneeId !== undefined && { assigneeId: data.assigneeId }),
+      ...(data.order !== undefined && { order: data.order }),
+      ...(data.isDone !== undefined &&
+        data.isDone !== item.isDone && {
+          isDone: data.isDone,
+          completedAt: data.isDone ? new Date() : null,
+        }),
     },
   });
 
-  return mapToTaskResponse(updatedTask);
+  return publishTaskUpdated(projectId, taskId, userId);
 };
 
-const validateProjectAndTaskOwnedByUserId = async (
+export const deleteChecklistItem = async (
   projectId: string,
   taskId: string,
+  itemId: string,
+  userId: string,
+): Promise<TaskResponse> => {
+  await validateProjectAndTaskOwnedByUserId(projectId, taskId, userId);
+
+  const item = await prisma.checklistItem.findFirst({
+    where: { id: itemId, taskId },
+  });
+
+  if (!item) {
+    throw new Error("Checklist item not found");
+  }
+
+  await prisma.checklistItem.delete({
+    where: { id: itemId },
+  });
+
+  await prisma.checklistItem.updateMany({
+    where: { taskId, order: { gt: item.order } },
+    data: { order: { decrement: 1 } },
+  });
+
+  return publishTaskUpdated(projectId, taskId, userId);
+};
+
+const recordBoardChange = async (
+  projectId: string,
+  before: { id: string; boardId: string; order: number },
+  after: { title: string; boardId: string; order: number; Board: { name: string } },
   userId: string,
 ): Promise<void> => {
+  const previousBoard = await prisma.board.findUnique({
+    where: { id: before.boardId },
+    select: { name: true },
+  });
+
+  await recordActivity({
+    projectId,
+    taskId: before.id,
+    taskTitle: after.title,
+    actorId: userId,
+    action: TaskActivityAction.MOVED,
+    field: "board",
+    oldValue: { boardId: before.boardId, boardName: previousBoard?.name, order: before.order },
+    newValue: { boardId: after.boardId, boardName: after.Board.name, order: after.order },
+  });
+};
+
+const validateProjectAndTaskOwnedByUserId = async (
+  projectId: string,
+  taskId: string,
+  userId: string,
+) => {
   const project = await prisma.project.findUnique({
     where: { id: projectId },
     include: {
@@ -717,4 +1281,6 @@ const validateProjectAndTaskOwnedByUserId = async (
   if (!task) {
     throw new Error("Task not found");
   }
+
+  return task;
 };
@@ -1,9 +1,13 @@
 import type { TaskPriority } from "@prisma/client";
+import type { MarkdownReference } from "../markdown/markdown.type.js";
+import type { MilestoneSummary } from "../milestone/milestone.type.js";
 
 export interface TaskResponse {
   id: string;
   title: string;
   description?: string;
+  descriptionHtml?: string;
+  descriptionReferences: MarkdownReference[];
   status: string;
   priority: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
   dueDate?: Date;
@@ -24,12 +28,55 @@ export interface TaskResponse {
     name: string;
     email: string;
   };
+  parentTaskId?: string;
+  milestone?: MilestoneSummary;
   assignees?: TaskAssigneeResponse[];
+  checklist?: ChecklistItemResponse[];
+  subtasks?: SubtaskSummary[];
+  isCompleted: boolean;
+  progress: TaskProgress;
+  blockedBy?: BlockingTaskSummary[];
+  isBlocked: boolean;
   _count?: {
     comments: number;
   };
 }
 
+export interface TaskProgress {
+  checklistCompleted: number;
+  checklistTotal: number;
+  subtasksCompleted: number;
+  subtasksTotal: number;
+  percentage: number;
+}
+
+export interface ChecklistItemResponse {
+  id: string;
+  title: string;
+  isDone: boolean;
+  order: number;
+  completedAt?: Date;
+  assignee?: {
+    id: string;
+    name: string;
+    email: string;
+    avatarUrl?: string;
+  };
+}
+
+export interface BlockingTaskSummary {
+  id: string;
+  title: string;
+  status: string;
+}
+
+export interface SubtaskSummary {
+  id: string;
+  title: string;
+  status: string;
+  boardId: string;
+}
+
 export interface TaskAssigneeResponse {
   id: string;
   assignedAt: Date;
@@ -50,6 +97,10 @@ export interface CreateTaskDTO {
   boardId: string;
   order?: number;
   assigneeIds?: string[];
+  parentTaskId?: string;
+  milestoneId?: string;
+  overrideRules?: boolean;
+  overrideMilestoneDates?: boolean;
 }
 
 export interface UpdateTaskDTO {
@@ -57,7 +108,11 @@ export interface UpdateTaskDTO {
   description?: string;
   status?: string;
   priority?: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
-  dueDate?: Date;
+  dueDate?: Date | null;
+  milestoneId?: string | null;
+  force?: boolean;
+  overrideRules?: boolean;
+  overrideMilestoneDates?: boolean;
 }
 
 export interface TaskListQuery {
@@ -69,6 +124,9 @@ export interface TaskListQuery {
   assignedTo?: string;
   createdBy?: string;
   boardId?: string;
+  parentTaskId?: string;
+  milestoneId?: string;
+  blocked?: boolean;
   dueDate?: "upcoming" | "overdue" | "today" | "this-week";
   sortBy?: "createdAt" | "dueDate" | "priority" | "title" | "order";
   sortOrder?: "asc" | "desc";
@@ -88,11 +146,28 @@ export interface AssignTaskDTO {
 
 export interface UpdateTaskStatusDTO {
   status: string;
+  force?: boolean;
+  overrideRules?: boolean;
 }
 
 export interface MoveTaskDTO {
   boardId: string;
   order: number;
+  force?: boolean;
+  overrideRules?: boolean;
+}
+
+export interface CreateChecklistItemDTO {
+  title: string;
+  assigneeId?: string;
+  order?: number;
+}
+
+export interface UpdateChecklistItemDTO {
+  title?: string;
+  isDone?: boolean;
+  assigneeId?: string | null;
+  order?: number;
 }
 
 export interface BoardResponse {
@@ -102,10 +177,16 @@ export interface BoardResponse {
   tasks?: TaskResponse[];
 }
 
+export interface TaskStatusCount {
+  key: string;
+  name: string;
+  isFinal: boolean;
+  count: number;
+}
+
 export interface TaskStats {
   totalTasks: number;
-  todoTasks: number;
-  doingTasks: number;
-  doneTasks: number;
+  completedTasks: number;
   overdueTasks: number;
+  byStatus: TaskStatusCount[];
 }
@@ -0,0 +1,70 @@
+import type { Request, Response } from "express";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+import * as TemplateService from "./template.service.js";
+import type {
+  CreateProjectTemplateDTO,
+  ProjectTemplateListQuery,
+  UpdateProjectTemplateDTO,
+} from "./template.type.js";
+
+const createProjectTemplateHandler = async (req: Request, res: Response) => {
+  const data: CreateProjectTemplateDTO = req.body;
+  const userId = (req as any).user.id;
+  return await TemplateService.createProjectTemplate(data, userId);
+};
+
+const listProjectTemplatesHandler = async (req: Request, res: Response) => {
+  const query: ProjectTemplateListQuery = {
+    page: req.query.page ? Number(req.query.page) : undefined,
+    limit: req.query.limit ? Number(req.query.limit) : undefined,
+    search: req.query.search as string,
+  };
+  return await TemplateService.getProjectTemplates(query);
+};
+
+const getProjectTemplateByIdHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!id) {
+    throw new Error("Template ID is required");
+  }
+  return await TemplateService.getProjectTemplateById(id);
+};
+
+const updateProjectTemplateHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!id) {
+    throw new Error("Template ID is required");
+  }
+  const data: UpdateProjectTemplateDTO = req.body;
+  return await TemplateService.updateProjectTemplate(id, data);
+};
+
+const deleteProjectTemplateHandler = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!id) {
+    throw new Error("Template ID is required");
+  }
+  await TemplateService.deleteProjectTemplate(id);
+  return { message: "Project template deleted successfully" };
+};
+
+export const createProjectTemplate = serviceWrapper(
+  createProjectTemplateHandler,
+  "Project template created successfully",
+);
+export const listProjectTemplates = serviceWrapper(
+  listProjectTemplatesHandler,
+  "Project templates retrieved successfully",
+);
+export const getProjectTemplateById = serviceWrapper(
+  getProjectTemplateByIdHandler,
+  "Project template retrieved successfully",
+);
+export const updateProjectTemplate = serviceWrapper(
+  updateProjectTemplateHandler,
+  "Project template updated successfully",
+);
+export const deleteProjectTemplate = serviceWrapper(
+  deleteProjectTemplateHandler,
+  "Project template deleted successfully",
+);
@@ -0,0 +1,449 @@
+import { Router } from "express";
+import { authGuard, requireRole, validate } from "../../middleware/index.js";
+import { RoleCode } from "../role/role.type.js";
+import * as TemplateController from "./template.controller.js";
+import {
+  createProjectTemplateSchema,
+  projectTemplateIdParamSchema,
+  projectTemplateListQuerySchema,
+  updateProjectTemplateSchema,
+} from "./template.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     TemplateWorkflowStatus:
+ *       type: object
+ *       required:
+ *         - key
+ *         - name
+ *       properties:
+ *         key:
+ *           type: string
+ *           example: "review"
+ *         name:
+ *           type: string
+ *           example: "In Review"
+ *         isFinal:
+ *           type: boolean
+ *           default: false
+ *     TemplateBoard:
+ *       type: object
+ *       required:
+ *         - name
+ *       properties:
+ *         name:
+ *           type: string
+ *           description: Unique within the template; starter tasks refer to boards by name
+ *           example: "In Review"
+ *         statusKey:
+ *           type: string
+ *           description: Workflow status the board is linked to
+ *           example: "review"
+ *         wipLimit:
+ *           type: integer
+ *           minimum: 0
+ *           nullable: true
+ *     TemplateTask:
+ *       type: object
+ *       required:
+ *         - title
+ *         - board
+ *       properties:
+ *         title:
+ *           type: string
+ *           example: "Write the project proposal"
+ *         description:
+ *           type: string
+ *           description: Markdown
+ *         priority:
+ *           type: string
+ *           enum: [LOW, MEDIUM, HIGH, CRITICAL]
+ *         board:
+ *           type: string
+ *           description: Name of the board the task starts on
+ *           example: "To Do"
+ *         dueInDays:
+ *           type: number
+ *           minimum: 0
+ *           description: Due date relative to the day the project is created
+ *           example: 14
+ *         checklist:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["Outline", "First draft", "Peer review"]
+ *     ProjectTemplate:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         workflowStatuses:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TemplateWorkflowStatus'
+ *         boards:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TemplateBoard'
+ *         tasks:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TemplateTask'
+ *         createdBy:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @openapi
+ * /project-templates:
+ *   post:
+ *     tags:
+ *       - Project Templates
+ *     summary: Create a project template
+ *     description: |
+ *       Saves a reusable project setup. Without `workflowStatuses` the default To Do / In Progress /
+ *       Done workflow is used. Managers and admins only.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - boards
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: "Capstone project"
+ *               description:
+ *                 type: string
+ *                 maxLength: 1000
+ *               workflowStatuses:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TemplateWorkflowStatus'
+ *               boards:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TemplateBoard'
+ *               tasks:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TemplateTask'
+ *     responses:
+ *       200:
+ *         description: Project template created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ProjectTemplate'
+ *       400:
+ *         description: Bad request - Validation error, unknown status or board, or duplicate name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/",
+  authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  validate({ body: createProjectTemplateSchema }),
+  TemplateController.createProjectTemplate,
+);
+
+/**
+ * @openapi
+ * /project-templates:
+ *   get:
+ *     tags:
+ *       - Project Templates
+ *     summary: List project templates
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Search in template names and descriptions
+ *     responses:
+ *       200:
+ *         description: Project templates retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         templates:
+ *                           type: array
+ *                           items:
+ *                             $ref: '#/components/schemas/ProjectTemplate'
+ *                         total:
+ *                           type: number
+ *                         page:
+ *                           type: number
+ *                         limit:
+ *                           type: number
+ *                         totalPages:
+ *                           type: number
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/",
+  authGuard,
+  validate({ query: projectTemplateListQuerySchema }),
+  TemplateController.listProjectTemplates,
+);
+
+/**
+ * @openapi
+ * /project-templates/{id}:
+ *   get:
+ *     tags:
+ *       - Project Templates
+ *     summary: Get a project template
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Template ID
+ *     responses:
+ *       200:
+ *         description: Project template retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ProjectTemplate'
+ *       400:
+ *         description: Bad request - Project template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:id",
+  authGuard,
+  validate({ params: projectTemplateIdParamSchema }),
+  TemplateController.getProjectTemplateById,
+);
+
+/**
+ * @openapi
+ * /project-templates/{id}:
+ *   put:
+ *     tags:
+ *       - Project Templates
+ *     summary: Update a project template
+ *     description: |
+ *       Replaces the given parts of the template. Projects already created from it are not
+ *       changed. Managers and admins only.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Template ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               workflowStatuses:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TemplateWorkflowStatus'
+ *               boards:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TemplateBoard'
+ *               tasks:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/TemplateTask'
+ *     responses:
+ *       200:
+ *         description: Project template updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/ProjectTemplate'
+ *       400:
+ *         description: Bad request - Validation error, template not found or duplicate name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:id",
+  authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  validate({ params: projectTemplateIdParamSchema, body: updateProjectTemplateSchema }),
+  TemplateController.updateProjectTemplate,
+);
+
+/**
+ * @openapi
+ * /project-templates/{id}:
+ *   delete:
+ *     tags:
+ *       - Project Templates
+ *     summary: Delete a project template
+ *     description: Projects created from the template are kept. Managers and admins only.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Template ID
+ *     responses:
+ *       200:
+ *         description: Project template deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ServiceWrapperResponse'
+ *       400:
+ *         description: Bad request - Project template not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin or Manager role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:id",
+  authGuard,
+  requireRole(RoleCode.ADMIN, RoleCode.MANAGER),
+  validate({ params: projectTemplateIdParamSchema }),
+  TemplateController.deleteProjectTemplate,
+);
+
+export default router;
@@ -0,0 +1,55 @@
+import Joi from "joi";
+
+const workflowStatusSchema = Joi.object({
+  key: Joi.string()
+    .pattern(/^[a-z0-9][a-z0-9_-]*$/)
+    .max(50)
+    .required()
+    .messages({
+      "string.pattern.base":
+        "Status key may only contain lowercase letters, digits, dashes and underscores",
+    }),
+  name: Joi.string().min(1).max(100).trim().required(),
+  isFinal: Joi.boolean().default(false),
+});
+
+const boardSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  statusKey: Joi.string().max(50).optional(),
+  wipLimit: Joi.number().integer().min(0).optional().allow(null),
+});
+
+const taskSchema = Joi.object({
+  title: Joi.string().min(1).max(255).required(),
+  description: Joi.string().max(10000).allow("").optional(),
+  priority: Joi.string().valid("LOW", "MEDIUM", "HIGH", "CRITICAL").optional(),
+  board: Joi.string().min(1).max(255).required(),
+  dueInDays: Joi.number().integer().min(0).max(3650).optional(),
+  checklist: Joi.array().items(Joi.string().min(1).max(255)).max(100).default([]),
+});
+
+export const createProjectTemplateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).required(),
+  description: Joi.string().max(1000).allow("").optional(),
+  workflowStatuses: Joi.array().items(workflowStatusSchema).min(1).unique("key").optional(),
+  boards: Joi.array().items(boardSchema).min(1).max(50).unique("name").required(),
+  tasks: Joi.array().items(taskSchema).max(500).default([]),
+});
+
+export const updateProjectTemplateSchema = Joi.object({
+  name: Joi.string().min(1).max(255).optional(),
+  description: Joi.string().max(1000).allow("").optional(),
+  workflowStatuses: Joi.array().items(workflowStatusSchema).min(1).unique("key").optional(),
+  boards: Joi.array().items(boardSchema).min(1).max(50).unique("name").optional(),
+  tasks: Joi.array().items(taskSchema).max(500).optional(),
+});
+
+export const projectTemplateListQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+  search: Joi.string().optional(),
+});
+
+export const projectTemplateIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+});
@@ -0,0 +1,277 @@
+import { randomUUID } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../../config/database.js";
+import { recordStatusChanges } from "../analytics/status-history.service.js";
+import { renderMarkdown } from "../markdown/markdown.service.js";
+import { DEFAULT_WORKFLOW } from "../workflow/workflow.service.js";
+import type {
+  CreateProjectTemplateDTO,
+  ProjectTemplateListQuery,
+  ProjectTemplateListResponse,
+  ProjectTemplateResponse,
+  TemplateBoard,
+  TemplateTask,
+  TemplateWorkflowStatus,
+  UpdateProjectTemplateDTO,
+} from "./template.type.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const templateInclude = {
+  createdBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+const mapToProjectTemplateResponse = (template: any): ProjectTemplateResponse => ({
+  id: template.id,
+  name: template.name,
+  description: template.description ?? undefined,
+  workflowStatuses: template.workflowStatuses as TemplateWorkflowStatus[],
+  boards: template.boards as TemplateBoard[],
+  tasks: template.tasks as TemplateTask[],
+  createdBy: template.createdBy ?? undefined,
+  createdAt: template.createdAt,
+  updatedAt: template.updatedAt,
+});
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+/**
+ * Boards point at workflow statuses by key and starter tasks at boards by name; both have to
+ * resolve within the template.
+ */
+const assertTemplateReferences = (
+  workflowStatuses: TemplateWorkflowStatus[],
+  boards: TemplateBoard[],
+  tasks: TemplateTask[],
+): void => {
+  const statusKeys = new Set(workflowStatuses.map((status) => status.key));
+  boards.forEach((board) => {
+    if (board.statusKey && !statusKeys.has(board.statusKey)) {
+      throw new Error(`Board "${board.name}" uses unknown status "${board.statusKey}"`);
+    }
+  });
+
+  const boardNames = new Set(boards.map((board) => board.name));
+  tasks.forEach((task) => {
+    if (!boardNames.has(task.board)) {
+      throw new Error(`Task "${task.title}" is placed on unknown board "${task.board}"`);
+    }
+  });
+};
+
+const assertNameAvailable = async (name: string, excludeId?: string): Promise<void> => {
+  const existingTemplate = await prisma.projectTemplate.findFirst({
+    where: { name, ...(excludeId && { id: { not: excludeId } }) },
+  });
+
+  if (existingTemplate) {
+    throw new Error("Project template name already exists");
+  }
+};
+
+export const createProjectTemplate = async (
+  data: CreateProjectTemplateDTO,
+  userId: string,
+): Promise<ProjectTemplateResponse> => {
+  const workflowStatuses = data.workflowStatuses ?? DEFAULT_WORKFLOW;
+  const tasks = data.tasks ?? [];
+  assertTemplateReferences(workflowStatuses, data.boards, tasks);
+  await assertNameAvailable(data.name);
+
+  const template = await prisma.projectTemplate.create({
+    data: {
+      name: data.name,
+      description: data.description || undefined,
+      workflowStatuses: toJson(workflowStatuses),
+      boards: toJson(data.boards),
+      tasks: toJson(tasks),
+      createdById: userId,
+    },
+    include: templateInclude,
+  });
+
+  return mapToProjectTemplateResponse(template);
+};
+
+export const getProjectTemplates = async (
+  query: ProjectTemplateListQuery,
+): Promise<ProjectTemplateListResponse> => {
+  const page = query.page || 1;
+  const limit = query.limit || 10;
+  const skip = (page - 1) * limit;
+
+  const where: Prisma.ProjectTemplateWhereInput = query.search
+    ? {
+        OR: [
+          { name: { contains: query.search, mode: "insensitive" } },
+          { description: { contains: query.search, mode: "insensitive" } },
+        ],
+      }
+    : {};
+
+  const [templates, total] = await Promise.all([
+    prisma.projectTemplate.findMany({
+      where,
+      include: templateInclude,
+      skip,
+      take: limit,
+      orderBy: { name: "asc" },
+    }),
+    prisma.projectTemplate.count({ where }),
+  ]);
+
+  return {
+    templates: templates.map(mapToProjectTemplateResponse),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+export const getProjectTemplateById = async (
+  templateId: string,
+): Promise<ProjectTemplateResponse> => {
+  const template = await prisma.projectTemplate.findUnique({
+    where: { id: templateId },
+    include: templateInclude,
+  });
+
+  if (!template) {
+    throw new Error("Project template not found");
+  }
+
+  return mapToProjectTemplateResponse(template);
+};
+
+export const updateProjectTemplate = async (
+  templateId: string,
+  data: UpdateProjectTemplateDTO,
+): Promise<ProjectTemplateResponse> => {
+  const template = await getProjectTemplateById(templateId);
+
+  assertTemplateReferences(
+    data.workflowStatuses ?? template.workflowStatuses,
+    data.boards ?? template.boards,
+    data.tasks ?? template.tasks,
+  );
+  if (data.name && data.name !== template.name) {
+    await assertNameAvailable(data.name, templateId);
+  }
+
+  const updatedTemplate = await prisma.projectTemplate.update({
+    where: { id: templateId },
+    data: {
+      ...(data.name && { name: data.name }),
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.workflowStatuses && { workflowStatuses: toJson(data.workflowStatuses) }),
+      ...(data.boards && { boards: toJson(data.boards) }),
+      ...(data.tasks && { tasks: toJson(data.tasks) }),
+    },
+    include: templateInclude,
+  });
+
+  return mapToProjectTemplateResponse(updatedTemplate);
+};
+
+export const deleteProjectTemplate = async (templateId: string): Promise<void> => {
+  await getProjectTemplateById(templateId);
+
+  // Projects created from the template keep their copies of its boards and tasks
+  await prisma.projectTemplate.delete({ where: { id: templateId } });
+};
+
+/**
+ * Sets up a freshly created project from a template: its workflow, boards and starter tasks with
+ * their checklists. Relative due dates count from today.
+ */
+export const applyProjectTemplate = async (
+  projectId: string,
+  template: ProjectTemplateResponse,
+  userId: string,
+): Promise<void> => {
+  await prisma.workflowStatus.createMany({
+    data: template.workflowStatuses.map((status, index) => ({
+      projectId,
+      key: status.key,
+      name: status.name,
+      order: index,
+      isFinal: status.isFinal,
+    })),
+  });
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { projectId },
+    select: { id: true, key: true },
+  });
+  const statusIdByKey = new Map(statuses.map((status) => [status.key, status.id]));
+  const initialStatus = template.workflowStatuses[0]!.key;
+
+  const boardByName = new Map(
+    template.boards.map((board) => [
+      board.name,
+      { id: randomUUID(), status: board.statusKey ?? initialStatus, nextOrder: 0 },
+    ]),
+  );
+  await prisma.board.createMany({
+    data: template.boards.map((board, index) => ({
+      id: boardByName.get(board.name)!.id,
+      projectId,
+      name: board.name,
+      order: index,
+      wipLimit: board.wipLimit,
+      statusId: board.statusKey ? statusIdByKey.get(board.statusKey) : undefined,
+    })),
+  });
+
+  if (template.tasks.length === 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const tasks = template.tasks.map((task) => {
+    const board = boardByName.get(task.board)!;
+    return {
+      id: randomUUID(),
+      projectId,
+      title: task.title,
+      description: task.description || undefined,
+      status: board.status,
+      priority: task.priority,
+      dueDate: task.dueInDays !== undefined ? new Date(now + task.dueInDays * DAY_MS) : undefined,
+      boardId: board.id,
+      order: board.nextOrder++,
+      createdById: userId,
+    };
+  });
+
+  await prisma.task.createMany({ data: tasks });
+  await prisma.checklistItem.createMany({
+    data: template.tasks.flatMap((task, taskIndex) =>
+      task.checklist.map((title, order) => ({ taskId: tasks[taskIndex]!.id, title, order })),
+    ),
+  });
+  await recordStatusChanges(
+    tasks.map((task) => ({
+      projectId,
+      taskId: task.id,
+      fromStatus: null,
+      toStatus: task.status,
+    })),
+  );
+
+  for (const task of tasks) {
+    if (task.description) {
+      const { html, references } = await renderMarkdown(projectId, task.description);
+      await prisma.task.update({
+        where: { id: task.id },
+        data: { descriptionHtml: html, descriptionReferences: toJson(references) },
+      });
+    }
+  }
+};
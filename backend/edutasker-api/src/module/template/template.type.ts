@@ -0,0 +1,68 @@
+import type { TaskPriority } from "@prisma/client";
+
+export interface TemplateWorkflowStatus {
+  key: string;
+  name: string;
+  isFinal: boolean;
+}
+
+export interface TemplateBoard {
+  name: string;
+  statusKey?: string;
+  wipLimit?: number | null;
+}
+
+export interface TemplateTask {
+  title: string;
+  description?: string;
+  priority?: TaskPriority;
+  board: string;
+  dueInDays?: number;
+  checklist: string[];
+}
+
+export interface ProjectTemplateResponse {
+  id: string;
+  name: string;
+  description?: string;
+  workflowStatuses: TemplateWorkflowStatus[];
+  boards: TemplateBoard[];
+  tasks: TemplateTask[];
+  createdBy?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateProjectTemplateDTO {
+  name: string;
+  description?: string;
+  workflowStatuses?: TemplateWorkflowStatus[];
+  boards: TemplateBoard[];
+  tasks?: TemplateTask[];
+}
+
+export interface UpdateProjectTemplateDTO {
+  name?: string;
+  description?: string;
+  workflowStatuses?: TemplateWorkflowStatus[];
+  boards?: TemplateBoard[];
+  tasks?: TemplateTask[];
+}
+
+export interface ProjectTemplateListQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+}
+
+export interface ProjectTemplateListResponse {
+  templates: ProjectTemplateResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
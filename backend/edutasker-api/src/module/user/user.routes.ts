@@ -1,5 +1,6 @@
 import { Router } from "express";
-import { authGuard } from "../../middleware/auth.middleware.js";
+import { authGuard, requireRole } from "../../middleware/auth.middleware.js";
+import { RoleCode } from "../role/role.type.js";
 import { validate } from "../../middleware/validate.middleware.js";
 import * as UserController from "./user.controller.js";
 import {
@@ -533,10 +534,17 @@ router.get("/:id", authGuard, validate({ params: userIdParamSchema }), UserContr
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.put(
   "/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: userIdParamSchema, body: updateUserByIdSchema }),
   UserController.updateUserById,
 );
@@ -600,10 +608,17 @@ router.put(
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin role required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 router.delete(
   "/:id",
   authGuard,
+  requireRole(RoleCode.ADMIN),
   validate({ params: userIdParamSchema }),
   UserController.deleteUserById,
 );
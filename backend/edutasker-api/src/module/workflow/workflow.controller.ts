@@ -0,0 +1,72 @@
+import type { Request, Response } from "express";
+import * as WorkflowService from "./workflow.service.js";
+import type { CreateWorkflowStatusDTO, UpdateWorkflowStatusDTO } from "./workflow.type.js";
+import { serviceWrapper } from "../../helper/service-wrapper.js";
+
+const getWorkflowHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  return await WorkflowService.getWorkflow(projectId, userId);
+};
+
+const createStatusHandler = async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: CreateWorkflowStatusDTO = req.body;
+  return await WorkflowService.createWorkflowStatus(projectId, data, userId);
+};
+
+const updateStatusHandler = async (req: Request, res: Response) => {
+  const { projectId, statusId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!statusId) {
+    throw new Error("Status ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  const data: UpdateWorkflowStatusDTO = req.body;
+  return await WorkflowService.updateWorkflowStatus(projectId, statusId, data, userId);
+};
+
+const deleteStatusHandler = async (req: Request, res: Response) => {
+  const { projectId, statusId } = req.params;
+  if (!projectId) {
+    throw new Error("Project ID is required");
+  }
+  if (!statusId) {
+    throw new Error("Status ID is required");
+  }
+
+  const userId = (req as any).user.id;
+  await WorkflowService.deleteWorkflowStatus(
+    projectId,
+    statusId,
+    { replacementStatusId: req.query.replacementStatusId as string | undefined },
+    userId,
+  );
+  return { message: "Workflow status deleted successfully" };
+};
+
+export const getWorkflow = serviceWrapper(getWorkflowHandler, "Workflow retrieved successfully");
+export const createStatus = serviceWrapper(
+  createStatusHandler,
+  "Workflow status created successfully",
+);
+export const updateStatus = serviceWrapper(
+  updateStatusHandler,
+  "Workflow status updated successfully",
+);
+export const deleteStatus = serviceWrapper(
+  deleteStatusHandler,
+  "Workflow status deleted successfully",
+);
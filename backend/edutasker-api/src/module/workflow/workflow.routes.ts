@@ -0,0 +1,332 @@
+import { Router } from "express";
+import { authGuard, validate } from "../../middleware/index.js";
+import * as WorkflowController from "./workflow.controller.js";
+import {
+  createWorkflowStatusSchema,
+  deleteWorkflowStatusQuerySchema,
+  projectWorkflowParamSchema,
+  updateWorkflowStatusSchema,
+  workflowStatusParamSchema,
+} from "./workflow.schema.js";
+
+const router = Router();
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     WorkflowStatus:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         key:
+ *           type: string
+ *           description: Value stored in the task's `status` field
+ *           example: "review"
+ *         name:
+ *           type: string
+ *           example: "In Review"
+ *         order:
+ *           type: number
+ *         isFinal:
+ *           type: boolean
+ *           description: Tasks in a final status count as completed
+ *         boards:
+ *           type: array
+ *           description: Boards whose tasks take this status
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               order:
+ *                 type: number
+ *         taskCount:
+ *           type: number
+ *     Workflow:
+ *       type: object
+ *       properties:
+ *         projectId:
+ *           type: string
+ *           format: uuid
+ *         statuses:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/WorkflowStatus'
+ */
+
+/**
+ * @openapi
+ * /projects/{projectId}/workflow:
+ *   get:
+ *     tags:
+ *       - Workflow
+ *     summary: Get the project's workflow
+ *     description: Lists the project's statuses in order, with the boards mapped to each status and its task count
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     responses:
+ *       200:
+ *         description: Workflow retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/Workflow'
+ *       400:
+ *         description: Bad request - Not a project member
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  "/:projectId/workflow",
+  authGuard,
+  validate({ params: projectWorkflowParamSchema }),
+  WorkflowController.getWorkflow,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/workflow/statuses:
+ *   post:
+ *     tags:
+ *       - Workflow
+ *     summary: Add a workflow status
+ *     description: Adds a status to the project's workflow. Only project leaders and mentors can change the workflow.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - key
+ *               - name
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 pattern: "^[a-z0-9][a-z0-9_-]*$"
+ *                 description: Stable identifier stored on tasks. Cannot be changed later.
+ *                 example: "review"
+ *               name:
+ *                 type: string
+ *                 example: "In Review"
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: Position in the workflow, appended at the end by default
+ *               isFinal:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Tasks in this status count as completed
+ *     responses:
+ *       200:
+ *         description: Workflow status created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/WorkflowStatus'
+ *       400:
+ *         description: Bad request - Duplicate key or not a project leader
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  "/:projectId/workflow/statuses",
+  authGuard,
+  validate({ params: projectWorkflowParamSchema, body: createWorkflowStatusSchema }),
+  WorkflowController.createStatus,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/workflow/statuses/{statusId}:
+ *   put:
+ *     tags:
+ *       - Workflow
+ *     summary: Update a workflow status
+ *     description: Renames, reorders or changes whether the status counts as completed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: statusId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Workflow status ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               order:
+ *                 type: integer
+ *                 minimum: 0
+ *               isFinal:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Workflow status updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       $ref: '#/components/schemas/WorkflowStatus'
+ *       400:
+ *         description: Bad request - Status not found or not a project leader
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  "/:projectId/workflow/statuses/:statusId",
+  authGuard,
+  validate({ params: workflowStatusParamSchema, body: updateWorkflowStatusSchema }),
+  WorkflowController.updateStatus,
+);
+
+/**
+ * @openapi
+ * /projects/{projectId}/workflow/statuses/{statusId}:
+ *   delete:
+ *     tags:
+ *       - Workflow
+ *     summary: Delete a workflow status
+ *     description: |
+ *       Removes the status. While tasks still use it, `replacementStatusId` is required; its tasks and
+ *       mapped boards are moved to the replacement status.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Project ID
+ *         example: "123e4567-e89b-12d3-a456-426614174000"
+ *       - in: path
+ *         name: statusId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Workflow status ID
+ *       - in: query
+ *         name: replacementStatusId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Status that takes over the deleted status' tasks and boards
+ *     responses:
+ *       200:
+ *         description: Workflow status deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ServiceWrapperResponse'
+ *                 - type: object
+ *                   properties:
+ *                     content:
+ *                       type: object
+ *                       properties:
+ *                         message:
+ *                           type: string
+ *       400:
+ *         description: Bad request - Status still in use, last status, or not a project leader
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.delete(
+  "/:projectId/workflow/statuses/:statusId",
+  authGuard,
+  validate({ params: workflowStatusParamSchema, query: deleteWorkflowStatusQuerySchema }),
+  WorkflowController.deleteStatus,
+);
+
+export default router;
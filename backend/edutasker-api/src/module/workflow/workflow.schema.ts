@@ -0,0 +1,34 @@
+import Joi from "joi";
+
+export const createWorkflowStatusSchema = Joi.object({
+  key: Joi.string()
+    .pattern(/^[a-z0-9][a-z0-9_-]*$/)
+    .max(50)
+    .required()
+    .messages({
+      "string.pattern.base":
+        "Status key may only contain lowercase letters, digits, dashes and underscores",
+    }),
+  name: Joi.string().min(1).max(100).trim().required(),
+  order: Joi.number().integer().min(0).optional(),
+  isFinal: Joi.boolean().optional(),
+});
+
+export const updateWorkflowStatusSchema = Joi.object({
+  name: Joi.string().min(1).max(100).trim().optional(),
+  order: Joi.number().integer().min(0).optional(),
+  isFinal: Joi.boolean().optional(),
+}).min(1);
+
+export const deleteWorkflowStatusQuerySchema = Joi.object({
+  replacementStatusId: Joi.string().uuid().optional(),
+});
+
+export const projectWorkflowParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+});
+
+export const workflowStatusParamSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  statusId: Joi.string().uuid().required(),
+});
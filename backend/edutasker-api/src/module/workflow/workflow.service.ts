@@ -0,0 +1,293 @@
+import { prisma } from "../../config/database.js";
+import { recordStatusChanges } from "../analytics/status-history.service.js";
+import { ProjectRole } from "../project/project.type.js";
+import type {
+  CreateWorkflowStatusDTO,
+  DefaultWorkflowStatus,
+  DeleteWorkflowStatusQuery,
+  UpdateWorkflowStatusDTO,
+  WorkflowResponse,
+  WorkflowStatusResponse,
+} from "./workflow.type.js";
+
+export const DEFAULT_WORKFLOW: DefaultWorkflowStatus[] = [
+  { key: "todo", name: "To Do", isFinal: false },
+  { key: "doing", name: "In Progress", isFinal: false },
+  { key: "done", name: "Done", isFinal: true },
+];
+
+const mapToWorkflowStatusResponse = (status: any): WorkflowStatusResponse => ({
+  id: status.id,
+  key: status.key,
+  name: status.name,
+  order: status.order,
+  isFinal: status.isFinal,
+  boards:
+    status.boards?.map((board: any) => ({
+      id: board.id,
+      name: board.name,
+      order: board.order,
+    })) ?? [],
+  taskCount: status.taskCount ?? 0,
+});
+
+const checkWorkflowAccess = async (
+  projectId: string,
+  userId: string,
+): Promise<{ canManage: boolean }> => {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: {
+      members: { where: { userId } },
+      ProjectMentor: { where: { userId } },
+    },
+  });
+
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const member = project.members[0];
+  const isMentor = project.ProjectMentor.length > 0;
+  if (!member && !isMentor) {
+    throw new Error("You are not a member of this project");
+  }
+
+  return { canManage: isMentor || member?.role.toUpperCase() === ProjectRole.LEADER };
+};
+
+const assertCanManageWorkflow = async (projectId: string, userId: string): Promise<void> => {
+  const { canManage } = await checkWorkflowAccess(projectId, userId);
+  if (!canManage) {
+    throw new Error("Only project leaders and mentors can change the workflow");
+  }
+};
+
+/**
+ * Creates the default To Do / In Progress / Done workflow for a new project and returns the
+ * created statuses keyed by status key, so callers can link their boards to them.
+ */
+export const createDefaultWorkflow = async (projectId: string): Promise<Map<string, string>> => {
+  await prisma.workflowStatus.createMany({
+    data: DEFAULT_WORKFLOW.map((status, index) => ({
+      projectId,
+      key: status.key,
+      name: status.name,
+      order: index,
+      isFinal: status.isFinal,
+    })),
+  });
+
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { projectId },
+    select: { id: true, key: true },
+  });
+
+  return new Map(statuses.map((status) => [status.key, status.id]));
+};
+
+export const getWorkflowStatuses = async (projectId: string) => {
+  return prisma.workflowStatus.findMany({
+    where: { projectId },
+    orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+  });
+};
+
+export const getFinalStatusKeys = async (projectId: string): Promise<string[]> => {
+  const statuses = await prisma.workflowStatus.findMany({
+    where: { projectId, isFinal: true },
+    select: { key: true },
+  });
+
+  return statuses.map((status) => status.key);
+};
+
+export const resolveWorkflowStatus = async (projectId: string, key: string) => {
+  const status = await prisma.workflowStatus.findUnique({
+    where: { projectId_key: { projectId, key } },
+  });
+
+  if (!status) {
+    throw new Error(`Status "${key}" is not part of this project's workflow`);
+  }
+
+  return status;
+};
+
+export const getWorkflow = async (projectId: string, userId: string): Promise<WorkflowResponse> => {
+  await checkWorkflowAccess(projectId, userId);
+
+  const [statuses, taskCounts] = await Promise.all([
+    prisma.workflowStatus.findMany({
+      where: { projectId },
+      include: {
+        boards: {
+          select: { id: true, name: true, order: true },
+          orderBy: { order: "asc" },
+        },
+      },
+      orderBy: [{ order: "asc" }, { createdAt: "asc" }],
+    }),
+    prisma.task.groupBy({
+      by: ["status"],
+      where: { projectId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countByStatus = new Map(taskCounts.map((count) => [count.status, count._count._all]));
+
+  return {
+    projectId,
+    statuses: statuses.map((status) =>
+      mapToWorkflowStatusResponse({ ...status, taskCount: countByStatus.get(status.key) ?? 0 }),
+    ),
+  };
+};
+
+export const createWorkflowStatus = async (
+  projectId: string,
+  data: CreateWorkflowStatusDTO,
+  userId: string,
+): Promise<WorkflowStatusResponse> => {
+  await assertCanManageWorkflow(projectId, userId);
+
+  const existing = await prisma.workflowStatus.findUnique({
+    where: { projectId_key: { projectId, key: data.key } },
+  });
+
+  if (existing) {
+    throw new Error(`Status "${data.key}" already exists in this workflow`);
+  }
+
+  let statusOrder = data.order;
+  if (statusOrder === undefined) {
+    const lastStatus = await prisma.workflowStatus.findFirst({
+      where: { projectId },
+      orderBy: { order: "desc" },
+      select: { order: true },
+    });
+    statusOrder = lastStatus ? lastStatus.order + 1 : 0;
+  }
+
+  const status = await prisma.workflowStatus.create({
+    data: {
+      projectId,
+      key: data.key,
+      name: data.name,
+      order: statusOrder,
+      isFinal: data.isFinal ?? false,
+    },
+  });
+
+  return mapToWorkflowStatusResponse(status);
+};
+
+export const updateWorkflowStatus = async (
+  projectId: string,
+  statusId: string,
+  data: UpdateWorkflowStatusDTO,
+  userId: string,
+): Promise<WorkflowStatusResponse> => {
+  await assertCanManageWorkflow(projectId, userId);
+
+  const status = await prisma.workflowStatus.findFirst({
+    where: { id: statusId, projectId },
+  });
+
+  if (!status) {
+    throw new Error("Workflow status not found");
+  }
+
+  const updatedStatus = await prisma.workflowStatus.update({
+    where: { id: statusId },
+    data: {
+      ...(data.name && { name: data.name }),
+      ...(data.order !== undefined && { order: data.order }),
+      ...(data.isFinal !== undefined && { isFinal: data.isFinal }),
+    },
+    include: {
+      boards: {
+        select: { id: true, name: true, order: true },
+        orderBy: { order: "asc" },
+      },
+    },
+  });
+
+  return mapToWorkflowStatusResponse(updatedStatus);
+};
+
+/**
+ * Removes a status from the workflow. Tasks in that status and boards mapped to it are moved to
+ * `replacementStatusId`, which is required while any task still uses the status.
+ */
+export const deleteWorkflowStatus = async (
+  projectId: string,
+  statusId: string,
+  query: DeleteWorkflowStatusQuery,
+  userId: string,
+): Promise<void> => {
+  await assertCanManageWorkflow(projectId, userId);
+
+  const status = await prisma.workflowStatus.findFirst({
+    where: { id: statusId, projectId },
+  });
+
+  if (!status) {
+    throw new Error("Workflow status not found");
+  }
+
+  const statusCount = await prisma.workflowStatus.count({ where: { projectId } });
+  if (statusCount <= 1) {
+    throw new Error("A workflow needs at least one status");
+  }
+
+  const taskCount = await prisma.task.count({
+    where: { projectId, status: status.key },
+  });
+
+  if (!query.replacementStatusId) {
+    if (taskCount > 0) {
+      throw new Error(
+        `${taskCount} task(s) still use "${status.name}". Provide a replacement status to move them to`,
+      );
+    }
+
+    await prisma.workflowStatus.delete({ where: { id: statusId } });
+    return;
+  }
+
+  const replacement = await prisma.workflowStatus.findFirst({
+    where: { id: query.replacementStatusId, projectId },
+  });
+
+  if (!replacement || replacement.id === statusId) {
+    throw new Error("Replacement status not found in this workflow");
+  }
+
+  const movedTasks = await prisma.task.findMany({
+    where: { projectId, status: status.key },
+    select: { id: true },
+  });
+
+  await prisma.$transaction([
+    prisma.task.updateMany({
+      where: { projectId, status: status.key },
+      data: { status: replacement.key },
+    }),
+    prisma.board.updateMany({
+      where: { statusId },
+      data: { statusId: replacement.id },
+    }),
+    prisma.workflowStatus.delete({ where: { id: statusId } }),
+  ]);
+
+  await recordStatusChanges(
+    movedTasks.map((task) => ({
+      projectId,
+      taskId: task.id,
+      fromStatus: status.key,
+      toStatus: replacement.key,
+    })),
+  );
+};
@@ -0,0 +1,41 @@
+export interface WorkflowStatusResponse {
+  id: string;
+  key: string;
+  name: string;
+  order: number;
+  isFinal: boolean;
+  boards: {
+    id: string;
+    name: string;
+    order: number;
+  }[];
+  taskCount: number;
+}
+
+export interface WorkflowResponse {
+  projectId: string;
+  statuses: WorkflowStatusResponse[];
+}
+
+export interface CreateWorkflowStatusDTO {
+  key: string;
+  name: string;
+  order?: number;
+  isFinal?: boolean;
+}
+
+export interface UpdateWorkflowStatusDTO {
+  name?: string;
+  order?: number;
+  isFinal?: boolean;
+}
+
+export interface DeleteWorkflowStatusQuery {
+  replacementStatusId?: string;
+}
+
+export interface DefaultWorkflowStatus {
+  key: string;
+  name: string;
+  isFinal: boolean;
+}